@@ -1,47 +1,94 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useContext, useMemo } from 'react';
 // FIX: Import `EditHistoryEntry` to resolve a type error when creating a new history entry for an edit operation.
-import type { Mode, CreateFunction, UploadedImage, HistoryEntry, UploadProgress, VideoFunction, CreateState, VideoState, EditState, EditFunction, ReferenceLayer, EditHistoryEntry, CreateHistoryEntry } from './types';
-import { generateImage, generateVideo, editImage } from './services/geminiService';
+import type { Mode, CreateFunction, UploadedImage, HistoryEntry, UploadProgress, VideoFunction, VideoAspectRatio, CreateState, VideoState, EditState, EditFunction, ReferenceLayer, MontageLayer, EditHistoryEntry, CreateHistoryEntry, HistorySession, PromptPreset, GeneratedImage, ReferenceImage, ReferenceRole, ComicProject, ComicPage, ComicBalloon, StoryboardShot, SettingChange, ImageAdjustments, CanvasExtension, SessionWorkspace, UpscaleTarget } from './types';
+import { generateImage, generateImageBatch, generateVideo, editImage, inpaintImage, outpaintImage, composeMontage, BATCH_SIZE_OPTIONS } from './services/geminiService';
+import { GenerationError } from './services/generationError';
+import type { RetryEvents, RetryPolicy } from './services/retry';
+import { loadPresets, savePresets, createPreset, exportPresets, parsePresetsFile, mergePresets, extractTemplateVariables, fillPromptTemplate } from './services/presetStore';
+import { loadImage, fileToDataUrl, dataUrlToUploadedImage, paintedMaskToUploadedImage, drawUploadedMask, compositeMaskedRegion, createPixelSampler, toHexColor } from './services/imageProcessing';
+import { cutOutSticker, buildStickerSheet, DEFAULT_STICKER_OPTIONS } from './services/stickerProcessing';
+import type { StickerOptions } from './services/stickerProcessing';
+import { traceToSvg, DEFAULT_TRACE_OPTIONS } from './services/vectorTrace';
+import type { TraceOptions, TraceResult } from './services/vectorTrace';
+import { COMIC_LAYOUTS, COMIC_PAGE_WIDTH, COMIC_PAGE_HEIGHT, BALLOON_FONT_SIZE, BALLOON_PADDING_X, BALLOON_PADDING_Y, BALLOON_FONT_FAMILY, COMIC_PANEL_NEGATIVE_PROMPT, applyComicLayout, computePanelRects, createComicPage, createComicProject, buildComicPanelPrompt, closestAspectRatio } from './services/comicPage';
+import { comicPageToPng, comicPagesToPdf, comicPagesToCbz } from './services/comicExport';
+import { exportImage, readImageMetadata, metadataFromEntry, loadExportOptions, saveExportOptions, isExportFormatSupported, canEmbedMetadata, getExportSize, EXPORT_FORMATS, DEFAULT_EXPORT_OPTIONS, DEFAULT_EXPORT_BACKGROUND } from './services/imageExport';
+import type { ExportOptions, ImageMetadata } from './services/imageExport';
+import { createStoryboardShot, buildShotPrompt, getShotLength, moveShot, exportStoryboard, MIN_SHOT_LENGTH } from './services/storyboard';
+import { linkToParent, buildHistoryTree, filterHistoryTree, removeHistoryEntries, findKeptAncestor } from './services/historyTree';
+import type { HistoryTreeNode } from './services/historyTree';
+import { DEFAULT_ADJUSTMENTS, hasAdjustments, applyAdjustments } from './services/imageAdjustments';
+import { DEFAULT_CANVAS_EXTENSION, getCanvasLayout, isCanvasExtended, extendCanvas } from './services/canvasExtension';
+import { upscaleImage, getUpscaledSize } from './services/upscale';
+import { extractLastFrame, getVideoDuration, captureCurrentFrame, timeToFrame, frameToTime, VIDEO_FRAME_RATE } from './services/videoFrames';
+import { getProviderSettings, setProviderSettings, IMAGE_PROVIDER_OPTIONS, VIDEO_PROVIDER_OPTIONS } from './services/providers';
+import type { ProviderSettings, HttpProviderSettings, ProviderId } from './services/providers';
+import { restoreLastSession, createSession, createUnsavedSession, renameSession, deleteSession, loadSessionEntries, syncSessionEntries, loadSessionWorkspace, saveSessionWorkspace, setLastSessionId } from './services/historyStore';
 import * as Icons from './Icons';
+import { translate, loadLocale, saveLocale, LocalizedError, DEFAULT_LOCALE, LOCALE_OPTIONS } from './i18n';
+import type { Locale, Message, MessageKey, TranslateFn } from './i18n';
 
 // --- Constants ---
-const ALL_SUPPORTED_ASPECT_RATIOS = [
-    { label: 'Quadrado', options: ['1:1'] },
-    { label: 'Paisagem (Horizontal)', options: ['16:9', '4:3'] },
-    { label: 'Retrato (Vertical)', options: ['9:16', '3:4'] },
+const ALL_SUPPORTED_ASPECT_RATIOS: { labelKey: MessageKey, options: string[] }[] = [
+    { labelKey: 'aspect.square', options: ['1:1'] },
+    { labelKey: 'aspect.landscape', options: ['16:9', '4:3'] },
+    { labelKey: 'aspect.portrait', options: ['9:16', '3:4'] },
 ];
-const IMAGE_RESOLUTIONS = [
-    { value: '1K', label: '1K (Padrão)' },
-    { value: '2K', label: '2K (Alta Definição)' },
-    { value: '4K', label: '4K (Ultra HD)' },
+const IMAGE_RESOLUTIONS: { value: string, labelKey: MessageKey }[] = [
+    { value: '1K', labelKey: 'resolution.1K' },
+    { value: '2K', labelKey: 'resolution.2K' },
+    { value: '4K', labelKey: 'resolution.4K' },
 ];
-const VIDEO_RESOLUTIONS = [
-    { value: '720p', label: '720p (HD)' },
-    { value: '1080p', label: '1080p (Full HD)' },
+const VIDEO_RESOLUTIONS: { value: string, labelKey: MessageKey }[] = [
+    { value: '720p', labelKey: 'resolution.720p' },
+    { value: '1080p', labelKey: 'resolution.1080p' },
 ];
+const VIDEO_ASPECT_RATIOS: { value: VideoAspectRatio, labelKey: MessageKey }[] = [
+    { value: '16:9', labelKey: 'video.aspect.landscape' },
+    { value: '9:16', labelKey: 'video.aspect.portrait' },
+];
+// Veo 3.1 clip lengths, in seconds
+const VIDEO_DURATIONS = [4, 6, 8];
+const VIDEO_TAKE_OPTIONS = [1, 2, 3, 4];
 
-const CREATE_FUNCTIONS: { id: CreateFunction, name: string, icon: React.ReactNode }[] = [
-    { id: 'free', name: 'Livre', icon: <Icons.Image /> }, { id: 'sticker', name: 'Sticker', icon: <Icons.Sticker /> },
-    { id: 'text', name: 'Texto / Logo', icon: <Icons.Type /> }, { id: 'comic', name: 'HQ', icon: <Icons.Comic /> },
+const CREATE_FUNCTIONS: { id: CreateFunction, nameKey: MessageKey, icon: React.ReactNode }[] = [
+    { id: 'free', nameKey: 'createFunction.free', icon: <Icons.Image /> }, { id: 'sticker', nameKey: 'createFunction.sticker', icon: <Icons.Sticker /> },
+    { id: 'text', nameKey: 'createFunction.text', icon: <Icons.Type /> }, { id: 'comic', nameKey: 'createFunction.comic', icon: <Icons.Comic /> },
 ];
-const EDIT_FUNCTIONS: { id: EditFunction, name: string, icon: React.ReactNode }[] = [
-    { id: 'montage', name: 'Montagem', icon: <Icons.Montage /> },
+const EDIT_FUNCTIONS: { id: EditFunction, nameKey: MessageKey, icon: React.ReactNode }[] = [
+    { id: 'montage', nameKey: 'editFunction.montage', icon: <Icons.Montage /> },
+    { id: 'inpaint', nameKey: 'editFunction.inpaint', icon: <Icons.Brush /> },
+    { id: 'adjust', nameKey: 'editFunction.adjust', icon: <Icons.Tune /> },
+    { id: 'extend', nameKey: 'editFunction.extend', icon: <Icons.Expand /> },
 ];
-const VIDEO_FUNCTIONS: { id: VideoFunction, name: string, icon: React.ReactNode }[] = [
-    { id: 'prompt', name: 'Prompt de Vídeo', icon: <Icons.Prompt /> }, { id: 'animation', name: 'Animar Imagem', icon: <Icons.Start /> },
+const VIDEO_FUNCTIONS: { id: VideoFunction, nameKey: MessageKey, icon: React.ReactNode }[] = [
+    { id: 'prompt', nameKey: 'videoFunction.prompt', icon: <Icons.Prompt /> }, { id: 'animation', nameKey: 'videoFunction.animation', icon: <Icons.Start /> },
+    { id: 'storyboard', nameKey: 'videoFunction.storyboard', icon: <Icons.Queue /> },
 ];
-const STYLE_OPTIONS: Record<Exclude<CreateFunction, 'montage'>, { value: string, label: string }[]> = {
+const STYLE_OPTIONS: Record<Exclude<CreateFunction, 'montage'>, { value: string, labelKey: MessageKey }[]> = {
     free: [],
-    sticker: [ { value: 'cartoon', label: 'Desenho' }, { value: 'vintage', label: 'Vintage' }, { value: 'holographic', label: 'Holográfico' }, { value: 'embroidered patch', label: 'Bordado' } ],
-    text: [ { value: 'minimalist', label: 'Minimalista' }, { value: 'corporate', label: 'Corporativo' }, { value: 'playful', label: 'Divertido' }, { value: 'geometric', label: 'Geométrico' } ],
-    comic: [ { value: 'American comic book', label: 'Americano' }, { value: 'Japanese manga', label: 'Mangá' }, { value: 'franco-belgian comics (bande dessinée)', label: 'Franco-Belga' } ],
+    sticker: [ { value: 'cartoon', labelKey: 'style.sticker.cartoon' }, { value: 'vintage', labelKey: 'style.sticker.vintage' }, { value: 'holographic', labelKey: 'style.sticker.holographic' }, { value: 'embroidered patch', labelKey: 'style.sticker.embroidered' } ],
+    text: [ { value: 'minimalist', labelKey: 'style.text.minimalist' }, { value: 'corporate', labelKey: 'style.text.corporate' }, { value: 'playful', labelKey: 'style.text.playful' }, { value: 'geometric', labelKey: 'style.text.geometric' } ],
+    comic: [ { value: 'American comic book', labelKey: 'style.comic.american' }, { value: 'Japanese manga', labelKey: 'style.comic.manga' }, { value: 'franco-belgian comics (bande dessinée)', labelKey: 'style.comic.francoBelgian' } ],
 };
-const CAMERA_ANGLE_OPTIONS = [ { value: 'default', label: 'Padrão' }, { value: 'eye-level', label: 'Nível do Olhar' }, { value: 'close-up', label: 'Close-up' }, { value: 'low angle', label: 'Ângulo Baixo' }, { value: 'high angle (bird\'s-eye view)', label: 'Plano Alto' }, { value: 'wide shot (long shot)', label: 'Plano Geral' } ];
-const LIGHTING_STYLE_OPTIONS = [ { value: 'default', label: 'Padrão' }, { value: 'cinematic', label: 'Cinemática' }, { value: 'soft', label: 'Luz Suave' }, { value: 'dramatic', label: 'Dramática' }, { value: 'studio', label: 'Estúdio' }, { value: 'natural', label: 'Natural' } ];
+const CAMERA_ANGLE_OPTIONS: { value: string, labelKey: MessageKey }[] = [ { value: 'default', labelKey: 'common.default' }, { value: 'eye-level', labelKey: 'camera.eyeLevel' }, { value: 'close-up', labelKey: 'camera.closeUp' }, { value: 'low angle', labelKey: 'camera.lowAngle' }, { value: 'high angle (bird\'s-eye view)', labelKey: 'camera.highAngle' }, { value: 'wide shot (long shot)', labelKey: 'camera.wideShot' } ];
+const LIGHTING_STYLE_OPTIONS: { value: string, labelKey: MessageKey }[] = [ { value: 'default', labelKey: 'common.default' }, { value: 'cinematic', labelKey: 'lighting.cinematic' }, { value: 'soft', labelKey: 'lighting.soft' }, { value: 'dramatic', labelKey: 'lighting.dramatic' }, { value: 'studio', labelKey: 'lighting.studio' }, { value: 'natural', labelKey: 'lighting.natural' } ];
+
+const REFERENCE_ROLE_OPTIONS: { value: ReferenceRole, labelKey: MessageKey }[] = [ { value: 'style', labelKey: 'referenceRole.style' }, { value: 'subject', labelKey: 'referenceRole.subject' }, { value: 'composition', labelKey: 'referenceRole.composition' } ];
+// Flash reliably follows about three input images; more tends to blend them together
+const MAX_REFERENCE_IMAGES = 3;
+// Comic and storyboard edits are saved with the session after this pause
+const WORKSPACE_SAVE_DELAY_MS = 500;
 
-const INITIAL_CREATE_STATE: CreateState = { model: 'flash', createFunction: 'free', aspectRatio: '1:1', resolution: '1K', negativePrompt: '', styleModifier: 'default', cameraAngle: 'default', lightingStyle: 'default', comicColorPalette: 'vibrant' };
-const INITIAL_VIDEO_STATE: VideoState = { videoFunction: 'prompt', videoResolution: '720p', startFrame: null, startFramePreviewUrl: null };
-const INITIAL_EDIT_STATE: EditState = { editFunction: 'montage', background: null, backgroundPreviewUrl: null, references: [], activeReferenceId: null, negativePrompt: '' };
+const INITIAL_CREATE_STATE: CreateState = { model: 'flash', createFunction: 'free', aspectRatio: '1:1', resolution: '1K', negativePrompt: '', styleModifier: 'default', cameraAngle: 'default', lightingStyle: 'default', comicColorPalette: 'vibrant', count: 1, referenceImages: [] };
+const INITIAL_VIDEO_STATE: VideoState = { videoFunction: 'prompt', videoResolution: '720p', aspectRatio: '16:9', durationSeconds: 8, startFrame: null, startFramePreviewUrl: null, endFrame: null, endFramePreviewUrl: null, negativePrompt: '', count: 1 };
+const INITIAL_EDIT_STATE: EditState = { editFunction: 'montage', background: null, backgroundPreviewUrl: null, references: [], activeReferenceId: null, negativePrompt: '', mask: null, adjustments: DEFAULT_ADJUSTMENTS, extension: DEFAULT_CANVAS_EXTENSION };
+
+// Strips the entry-only fields so a history entry can be loaded back into the Create panel
+const createStateFromEntry = (entry: CreateHistoryEntry): CreateState => {
+    const { id, prompt, mode, imageUrl, batchId, isFavorite, variationOfId, restoredFromId, parentId, settingsDiff, upscaledTo, ...state } = entry;
+    return { ...INITIAL_CREATE_STATE, ...state };
+};
 
 type PreMontageState = {
     background: UploadedImage | null;
@@ -49,7 +96,110 @@ type PreMontageState = {
     references: ReferenceLayer[];
 } | null;
 
+type LayerCommandType = 'add' | 'move' | 'resize' | 'rotate' | 'flip' | 'opacity' | 'reorder' | 'delete' | 'instruction';
+
+// A reversible layer operation, stored as the reference list before and after it
+interface LayerCommand {
+    type: LayerCommandType;
+    layerId: string | null;
+    before: ReferenceLayer[];
+    after: ReferenceLayer[];
+    timestamp: number;
+    mergeable: boolean;
+}
+
+interface LayerHistoryStack {
+    undo: LayerCommand[];
+    redo: LayerCommand[];
+}
+
+interface LayerHistory {
+    commitLayerChange: (type: LayerCommandType, layerId: string | null, updater: (references: ReferenceLayer[]) => ReferenceLayer[], options?: { merge?: boolean }) => void;
+    beginLayerGesture: (type: LayerCommandType, layerId: string) => void;
+    endLayerGesture: () => void;
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+interface GenerationJob {
+    id: string;
+    kind: Mode;
+    label: Message;
+    status: JobStatus;
+    progress: number | null; // 0..1, or null when the backend doesn't report progress
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    detail?: Message; // Transient status such as a pending retry
+    error?: unknown; // Kept as thrown and described at render time, so it follows the current locale
+    canRetry?: boolean;
+    canSwitchModel?: boolean;
+}
+
+interface JobContext {
+    signal: AbortSignal;
+    setProgress: (progress: number) => void;
+    setDetail: (detail: Message | undefined) => void;
+}
+
+interface JobOptions {
+    // Queues the same request on the other model, offered when the job fails
+    switchModel?: () => void;
+}
+
+interface JobQueue {
+    jobs: GenerationJob[];
+    enqueue: (kind: Mode, label: Message, run: (context: JobContext) => Promise<void>, options?: JobOptions) => void;
+    cancel: (id: string) => void;
+    retry: (id: string) => void;
+    switchModel: (id: string) => void;
+    clearFinished: () => void;
+    activeCount: number;
+}
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+const MASK_COLOR: [number, number, number] = [239, 68, 68]; // red-500
+
+const LAYER_HISTORY_LIMIT = 100;
+const LAYER_MERGE_WINDOW_MS = 1000;
+const ROTATION_SNAP_DEGREES = 15;
+const MIN_LAYER_SIZE = 20;
+const JOB_CONCURRENCY = 2;
+// Shown behind transparent results
+const CHECKERBOARD_STYLE: React.CSSProperties = { backgroundImage: 'repeating-conic-gradient(#3f3f46 0% 25%, #27272a 0% 50%)', backgroundSize: '16px 16px' };
+
+// Keeps rotations in the (-180, 180] range so the numeric panel stays readable
+const normalizeRotation = (degrees: number) => {
+    const normalized = ((degrees % 360) + 360) % 360;
+    return normalized > 180 ? normalized - 360 : normalized;
+};
+
 // --- Custom Hooks ---
+interface I18n {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    t: TranslateFn;
+}
+
+const I18nContext = React.createContext<I18n>({
+    locale: DEFAULT_LOCALE,
+    setLocale: () => {},
+    t: (key, params) => translate(DEFAULT_LOCALE, key, params),
+});
+
+const useI18n = () => useContext(I18nContext);
+
+// Turns anything caught by a handler into a message in the current locale
+const describeError = (t: TranslateFn, e: unknown): string => {
+    if (e instanceof GenerationError) return e.describe(t);
+    if (e instanceof LocalizedError) return t(e.key, e.cause ? { ...e.params, reason: describeError(t, e.cause) } : e.params);
+    return (e as any)?.message || t('error.unexpected');
+};
+
 const useAutoResizeTextarea = (value: string) => {
     const ref = useRef<HTMLTextAreaElement>(null);
     useEffect(() => {
@@ -62,6 +212,399 @@ const useAutoResizeTextarea = (value: string) => {
     return ref;
 };
 
+/**
+ * Zoom and pan of content drawn with `translate(pan) scale(zoom)` inside a container.
+ * Holding the spacebar pans with the mouse; `startPan` lets a view pan on a plain drag too,
+ * and `wheelZoom` zooms around the cursor with the mouse wheel.
+ */
+const useZoomPan = (containerRef: React.RefObject<HTMLDivElement>, { wheelZoom = false } = {}) => {
+    const [zoom, setZoom] = useState(1);
+    const [pan, setPan] = useState({ x: 0, y: 0 });
+    const [viewport, setViewport] = useState({ width: 0, height: 0 });
+    // Wheel events can arrive faster than renders, so zooming reads the latest view from here
+    const viewRef = useRef({ zoom, pan });
+    viewRef.current = { zoom, pan };
+    const isPanningRef = useRef(false);
+    const lastMousePosRef = useRef({ x: 0, y: 0 });
+    const isSpacebarDownRef = useRef(false);
+
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(() => setViewport({ width: container.clientWidth, height: container.clientHeight }));
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, [containerRef]);
+
+    // Scales content of the given layout size to fit the container, centered
+    const fitContent = useCallback((contentWidth: number, contentHeight: number) => {
+        const container = containerRef.current;
+        if (!container || contentWidth === 0 || contentHeight === 0) return;
+
+        const containerWidth = container.clientWidth;
+        const containerHeight = container.clientHeight;
+        const scaleX = containerWidth / contentWidth;
+        const scaleY = containerHeight / contentHeight;
+
+        const newZoom = Math.min(scaleX, scaleY) * 0.9; // 90% padding
+        const newPanX = (containerWidth - contentWidth * newZoom) / 2;
+        const newPanY = (containerHeight - contentHeight * newZoom) / 2;
+
+        setZoom(newZoom);
+        setPan({ x: newPanX, y: newPanY });
+    }, [containerRef]);
+
+    // Zooms to `level`, keeping the content under `point` (in container coordinates) in place
+    const zoomAt = useCallback((level: number, point: { x: number; y: number }) => {
+        const { zoom: currentZoom, pan: currentPan } = viewRef.current;
+
+        // Position on content before zoom
+        const contentX = (point.x - currentPan.x) / currentZoom;
+        const contentY = (point.y - currentPan.y) / currentZoom;
+
+        const clampedZoom = Math.max(0.1, Math.min(level, 10)); // Clamp zoom level
+
+        // New pan to keep the content point under the cursor
+        const newPan = { x: point.x - contentX * clampedZoom, y: point.y - contentY * clampedZoom };
+
+        viewRef.current = { zoom: clampedZoom, pan: newPan };
+        setZoom(clampedZoom);
+        setPan(newPan);
+    }, []);
+
+    const zoomToLevel = (level: number) => {
+        const container = containerRef.current;
+        if (!container) return;
+        const { width, height } = container.getBoundingClientRect();
+        zoomAt(level, { x: width / 2, y: height / 2 });
+    };
+
+    const handleZoom = (direction: 'in' | 'out') => {
+        const zoomFactor = 1.2;
+        zoomToLevel(direction === 'in' ? zoom * zoomFactor : zoom / zoomFactor);
+    };
+
+    // React registers wheel listeners as passive, and the page must not scroll while zooming
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container || !wheelZoom) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = container.getBoundingClientRect();
+            const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+            zoomAt(viewRef.current.zoom * Math.exp(-delta * 0.002), { x: e.clientX - rect.left, y: e.clientY - rect.top });
+        };
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, [containerRef, wheelZoom, zoomAt]);
+
+    // Effect for spacebar panning
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.target as HTMLElement).tagName.match(/INPUT|TEXTAREA/)) return;
+            if (e.code === 'Space' && !isSpacebarDownRef.current) {
+                e.preventDefault();
+                isSpacebarDownRef.current = true;
+                if (!isPanningRef.current) {
+                    container.style.cursor = 'grab';
+                }
+            }
+        };
+
+        const handleKeyUp = (e: KeyboardEvent) => {
+            if (e.code === 'Space') {
+                isSpacebarDownRef.current = false;
+                if (!isPanningRef.current) {
+                    container.style.cursor = '';
+                }
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        window.addEventListener('keyup', handleKeyUp);
+
+        return () => {
+            window.removeEventListener('keydown', handleKeyDown);
+            window.removeEventListener('keyup', handleKeyUp);
+            if (container) container.style.cursor = '';
+        };
+    }, [containerRef]);
+
+    const startPan = (e: React.MouseEvent) => {
+        e.preventDefault();
+        e.stopPropagation();
+        isPanningRef.current = true;
+        lastMousePosRef.current = { x: e.clientX, y: e.clientY };
+        (e.currentTarget as HTMLElement).style.cursor = 'grabbing';
+    };
+
+    const handleMouseDownCapture = (e: React.MouseEvent) => {
+        if (isSpacebarDownRef.current) startPan(e);
+    };
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        if (!isPanningRef.current) return;
+        const dx = e.clientX - lastMousePosRef.current.x;
+        const dy = e.clientY - lastMousePosRef.current.y;
+        setPan(prev => ({ x: prev.x + dx, y: prev.y + dy }));
+        lastMousePosRef.current = { x: e.clientX, y: e.clientY };
+    };
+
+    const handleMouseUp = (e: React.MouseEvent) => {
+        if (isPanningRef.current) {
+            isPanningRef.current = false;
+            (e.currentTarget as HTMLElement).style.cursor = isSpacebarDownRef.current ? 'grab' : '';
+        }
+    };
+
+    return {
+        zoom,
+        pan,
+        setPan,
+        viewport,
+        fitContent,
+        handleZoom,
+        zoomToLevel,
+        startPan,
+        panHandlers: { onMouseDownCapture: handleMouseDownCapture, onMouseMove: handleMouseMove, onMouseUp: handleMouseUp, onMouseLeave: handleMouseUp },
+    };
+};
+
+/**
+ * Undo/redo for montage layer operations, kept separately for each background image.
+ * Pointer gestures (drag, resize) are recorded as a single step between begin and end.
+ */
+const useLayerHistory = (editState: EditState, setEditState: React.Dispatch<React.SetStateAction<EditState>>, isEnabled: boolean): LayerHistory => {
+    const stacksRef = useRef(new Map<string, LayerHistoryStack>());
+    const pendingGestureRef = useRef<{ type: LayerCommandType; layerId: string; before: ReferenceLayer[] } | null>(null);
+    const [, setVersion] = useState(0);
+
+    // Pointer events can fire between renders, so always read the latest references from a ref
+    const referencesRef = useRef(editState.references);
+    referencesRef.current = editState.references;
+    const backgroundKey = editState.backgroundPreviewUrl;
+    const backgroundKeyRef = useRef(backgroundKey);
+    backgroundKeyRef.current = backgroundKey;
+
+    const getStack = (key: string) => {
+        let stack = stacksRef.current.get(key);
+        if (!stack) {
+            stack = { undo: [], redo: [] };
+            stacksRef.current.set(key, stack);
+        }
+        return stack;
+    };
+
+    const record = useCallback((command: Omit<LayerCommand, 'timestamp'>) => {
+        const key = backgroundKeyRef.current;
+        if (!key || command.before === command.after) return;
+        const stack = getStack(key);
+        const last = stack.undo[stack.undo.length - 1];
+        const now = Date.now();
+        if (command.mergeable && last?.mergeable && last.type === command.type && last.layerId === command.layerId && now - last.timestamp < LAYER_MERGE_WINDOW_MS) {
+            stack.undo[stack.undo.length - 1] = { ...last, after: command.after, timestamp: now };
+        } else {
+            stack.undo.push({ ...command, timestamp: now });
+            if (stack.undo.length > LAYER_HISTORY_LIMIT) stack.undo.shift();
+        }
+        stack.redo = [];
+        setVersion(v => v + 1);
+    }, []);
+
+    const applyReferences = useCallback((references: ReferenceLayer[]) => {
+        referencesRef.current = references;
+        setEditState(s => ({
+            ...s,
+            references,
+            activeReferenceId: references.some(r => r.id === s.activeReferenceId) ? s.activeReferenceId : null,
+        }));
+    }, [setEditState]);
+
+    const commitLayerChange = useCallback<LayerHistory['commitLayerChange']>((type, layerId, updater, options) => {
+        const before = referencesRef.current;
+        const after = updater(before);
+        applyReferences(after);
+        record({ type, layerId, before, after, mergeable: options?.merge ?? false });
+    }, [applyReferences, record]);
+
+    const beginLayerGesture = useCallback((type: LayerCommandType, layerId: string) => {
+        pendingGestureRef.current = { type, layerId, before: referencesRef.current };
+    }, []);
+
+    const endLayerGesture = useCallback(() => {
+        const pending = pendingGestureRef.current;
+        pendingGestureRef.current = null;
+        if (!pending) return;
+        record({ ...pending, after: referencesRef.current, mergeable: false });
+    }, [record]);
+
+    const undo = useCallback(() => {
+        const key = backgroundKeyRef.current;
+        const command = key ? stacksRef.current.get(key)?.undo.pop() : undefined;
+        if (!key || !command) return;
+        getStack(key).redo.push(command);
+        applyReferences(command.before);
+        setVersion(v => v + 1);
+    }, [applyReferences]);
+
+    const redo = useCallback(() => {
+        const key = backgroundKeyRef.current;
+        const command = key ? stacksRef.current.get(key)?.redo.pop() : undefined;
+        if (!key || !command) return;
+        getStack(key).undo.push(command);
+        applyReferences(command.after);
+        setVersion(v => v + 1);
+    }, [applyReferences]);
+
+    useEffect(() => {
+        if (!isEnabled) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if ((e.target as HTMLElement).tagName.match(/INPUT|TEXTAREA/)) return;
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isEnabled, undo, redo]);
+
+    const stack = backgroundKey ? stacksRef.current.get(backgroundKey) : undefined;
+    return {
+        commitLayerChange,
+        beginLayerGesture,
+        endLayerGesture,
+        undo,
+        redo,
+        canUndo: !!stack && stack.undo.length > 0,
+        canRedo: !!stack && stack.redo.length > 0,
+    };
+};
+
+// Surfaces retries and model fallbacks of a generation call in its job's status line
+const createRetryEvents = ({ setDetail }: JobContext): RetryEvents => ({
+    onRetry: ({ attempt, maxRetries, delayMs, error }) => setDetail({
+        key: error.code === 'quota' ? 'jobs.retryQuota' : 'jobs.retryTransient',
+        params: { attempt, maxRetries, seconds: Math.ceil(delayMs / 1000) },
+    }),
+    onFallback: () => setDetail({ key: 'jobs.fallback' }),
+});
+
+/**
+ * Runs generation jobs in the background, at most JOB_CONCURRENCY at a time.
+ * Each job gets its own AbortSignal; cancelling a queued job just drops it.
+ */
+const useJobQueue = (onError: (error: unknown) => void): JobQueue => {
+    const [jobs, setJobs] = useState<GenerationJob[]>([]);
+    // Definitions are kept after a failure so the job can be retried or moved to another model
+    const definitionsRef = useRef(new Map<string, { run: (context: JobContext) => Promise<void>; options: JobOptions }>());
+    const pendingRef = useRef<string[]>([]);
+    const controllersRef = useRef(new Map<string, AbortController>());
+    const onErrorRef = useRef(onError);
+    onErrorRef.current = onError;
+
+    const updateJob = useCallback((id: string, changes: Partial<GenerationJob>) => {
+        setJobs(prev => prev.map(job => job.id === id ? { ...job, ...changes } : job));
+    }, []);
+
+    const pump = useCallback(() => {
+        while (controllersRef.current.size < JOB_CONCURRENCY && pendingRef.current.length > 0) {
+            const id = pendingRef.current.shift()!;
+            const definition = definitionsRef.current.get(id);
+            if (!definition) continue;
+            const controller = new AbortController();
+            controllersRef.current.set(id, controller);
+            updateJob(id, { status: 'running', startedAt: Date.now() });
+
+            definition.run({
+                signal: controller.signal,
+                setProgress: (progress) => updateJob(id, { progress }),
+                setDetail: (detail) => updateJob(id, { detail }),
+            })
+                .then(() => {
+                    definitionsRef.current.delete(id);
+                    updateJob(id, { status: 'done', progress: 1, detail: undefined, finishedAt: Date.now() });
+                })
+                .catch((e: any) => {
+                    if (controller.signal.aborted) {
+                        definitionsRef.current.delete(id);
+                        updateJob(id, { status: 'cancelled', detail: undefined, finishedAt: Date.now() });
+                        return;
+                    }
+                    // Errors that aren't typed (e.g. a missing background) are worth another try as well
+                    const isTyped = e instanceof GenerationError;
+                    updateJob(id, {
+                        status: 'failed',
+                        error: e,
+                        detail: undefined,
+                        finishedAt: Date.now(),
+                        canRetry: !isTyped || e.retryable || e.code === 'unknown',
+                        canSwitchModel: !!definition.options.switchModel && (!isTyped || !['safety', 'invalid_request', 'configuration'].includes(e.code)),
+                    });
+                    onErrorRef.current(e);
+                })
+                .finally(() => {
+                    controllersRef.current.delete(id);
+                    pump();
+                });
+        }
+    }, [updateJob]);
+
+    const enqueue = useCallback((kind: Mode, label: Message, run: (context: JobContext) => Promise<void>, options: JobOptions = {}) => {
+        const id = `job-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+        setJobs(prev => [...prev, { id, kind, label, status: 'queued', progress: null, createdAt: Date.now() }]);
+        definitionsRef.current.set(id, { run, options });
+        pendingRef.current.push(id);
+        pump();
+    }, [pump]);
+
+    const cancel = useCallback((id: string) => {
+        const controller = controllersRef.current.get(id);
+        if (controller) {
+            controller.abort();
+            return;
+        }
+        pendingRef.current = pendingRef.current.filter(pendingId => pendingId !== id);
+        definitionsRef.current.delete(id);
+        updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+    }, [updateJob]);
+
+    const retry = useCallback((id: string) => {
+        if (!definitionsRef.current.has(id) || controllersRef.current.has(id) || pendingRef.current.includes(id)) return;
+        updateJob(id, { status: 'queued', progress: null, error: undefined, canRetry: false, canSwitchModel: false, startedAt: undefined, finishedAt: undefined });
+        pendingRef.current.push(id);
+        pump();
+    }, [pump, updateJob]);
+
+    const switchModel = useCallback((id: string) => {
+        const definition = definitionsRef.current.get(id);
+        if (!definition?.options.switchModel) return;
+        definitionsRef.current.delete(id);
+        setJobs(prev => prev.filter(job => job.id !== id));
+        definition.options.switchModel();
+    }, []);
+
+    const clearFinished = useCallback(() => {
+        const isActive = (job: GenerationJob) => job.status === 'queued' || job.status === 'running';
+        jobs.filter(job => !isActive(job)).forEach(job => definitionsRef.current.delete(job.id));
+        setJobs(prev => prev.filter(isActive));
+    }, [jobs]);
+
+    // Abort whatever is still running if the app unmounts
+    useEffect(() => () => controllersRef.current.forEach(controller => controller.abort()), []);
+
+    const activeCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+    return { jobs, enqueue, cancel, retry, switchModel, clearFinished, activeCount };
+};
+
 // --- Child Components ---
 const ToolbarButton: React.FC<{ 'data-function': string; isActive: boolean; onClick: (func: any) => void; icon: React.ReactNode; name: string; }> = ({ 'data-function': dataFunction, isActive, onClick, icon, name }) => (
     <button 
@@ -76,10 +619,11 @@ const ToolbarButton: React.FC<{ 'data-function': string; isActive: boolean; onCl
 );
 
 const PanelSection: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode; defaultOpen?: boolean; className?: string; }> = ({ title, icon, children, defaultOpen = true, className }) => {
+    const { t } = useI18n();
     const [isOpen, setIsOpen] = useState(defaultOpen);
     return (
         <div className={`border-b border-zinc-800/50 ${className ?? ''}`.trim()}>
-            <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between p-3 text-xs font-bold text-zinc-300 hover:bg-zinc-800/30 transition-colors" aria-expanded={isOpen} title={`Expandir/recolher ${title}`}>
+            <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between p-3 text-xs font-bold text-zinc-300 hover:bg-zinc-800/30 transition-colors" aria-expanded={isOpen} title={t('panel.toggle', { title })}>
                 <div className="flex items-center gap-2 text-blue-400">{icon}<span className="uppercase tracking-wider text-zinc-300">{title}</span></div>
                 <Icons.ChevronDown className={`transition-transform duration-200 text-base ${isOpen ? 'rotate-180' : ''}`} />
             </button>
@@ -89,6 +633,7 @@ const PanelSection: React.FC<{ title: string; icon: React.ReactNode; children: R
 };
 
 const ImageUploadSlot: React.FC<{ id: string; label: string; icon: React.ReactNode; imagePreviewUrl: string | null; onUpload: (file: File) => void; onRemove?: () => void; className?: string; isMultiple?: boolean; }> = ({ id, label, icon, imagePreviewUrl, onUpload, onRemove, className = '', isMultiple = false }) => {
+    const { t } = useI18n();
     const [isDragging, setIsDragging] = useState(false);
     const dragCounter = useRef(0);
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => { if (e.target.files) { Array.from(e.target.files).forEach(onUpload); e.target.value = ''; } };
@@ -103,7 +648,7 @@ const ImageUploadSlot: React.FC<{ id: string; label: string; icon: React.ReactNo
                     <img src={imagePreviewUrl} alt={label} className="max-w-full max-h-full object-contain min-w-0" />
                 </div>
                 <div className="absolute inset-0 bg-black/60 flex items-center justify-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity duration-200 backdrop-blur-sm">
-                    <button onClick={onRemove} className="p-2 bg-zinc-800 text-red-400 rounded-full hover:bg-zinc-700 transition-colors border border-zinc-600" title="Remover Imagem"><Icons.Close /></button>
+                    <button onClick={onRemove} className="p-2 bg-zinc-800 text-red-400 rounded-full hover:bg-zinc-700 transition-colors border border-zinc-600" title={t('upload.remove')}><Icons.Close /></button>
                 </div>
             </div>
         );
@@ -120,140 +665,780 @@ const ImageUploadSlot: React.FC<{ id: string; label: string; icon: React.ReactNo
     );
 };
 
+// Accepts image files dropped anywhere on the workspace; other drags pass through untouched
+const FileDropZone: React.FC<{ label: string; onDropFile: (file: File) => void; children: React.ReactNode; }> = ({ label, onDropFile, children }) => {
+    const [isDragging, setIsDragging] = useState(false);
+    const dragCounter = useRef(0);
+    const hasFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+    const handleDragEnter = (e: React.DragEvent<HTMLDivElement>) => { if (!hasFiles(e)) return; e.preventDefault(); dragCounter.current++; setIsDragging(true); };
+    const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => { if (!hasFiles(e)) return; dragCounter.current--; if (dragCounter.current === 0) setIsDragging(false); };
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setIsDragging(false);
+        dragCounter.current = 0;
+        const file = e.dataTransfer.files[0];
+        if (file) onDropFile(file);
+    };
 
-const HistoryCard: React.FC<{ entry: HistoryEntry; index: number; isActive: boolean; onClick: (index: number) => void; }> = ({ entry, index, isActive, onClick }) => (
-    <button
-        key={entry.id}
-        onClick={() => onClick(index)}
-        className={`relative w-full aspect-square rounded-lg overflow-hidden ring-2 transition-all duration-200 ${isActive ? 'ring-blue-500 scale-95 shadow-md' : 'ring-transparent hover:ring-zinc-600 hover:scale-[0.98]'}`}
-        aria-label={`Histórico item ${index + 1}`}
-    >
-        {(entry.mode === 'create' || entry.mode === 'edit') && <img src={entry.imageUrl} alt={entry.prompt} className="w-full h-full object-cover" />}
-        {entry.mode === 'video' && (
-            entry.startFramePreviewUrl ? (
-                <img src={entry.startFramePreviewUrl} alt={entry.prompt} className="w-full h-full object-cover" />
-            ) : (
-                <div className="w-full h-full bg-zinc-900 flex items-center justify-center flex-col gap-1">
-                    <Icons.Video className="text-zinc-600 text-2xl" />
-                    <span className="text-[10px] text-zinc-600 font-mono">VEO 3.1</span>
+    return (
+        <div className="relative w-full h-full" onDragEnter={handleDragEnter} onDragLeave={handleDragLeave} onDragOver={(e) => { if (hasFiles(e)) e.preventDefault(); }} onDrop={handleDrop}>
+            {children}
+            {isDragging && (
+                <div className="absolute inset-3 z-40 flex items-center justify-center rounded-xl border-2 border-dashed border-blue-500 bg-blue-500/10 backdrop-blur-sm pointer-events-none">
+                    <span className="flex items-center gap-2 py-2 px-4 text-sm font-semibold text-blue-100 bg-zinc-900/90 rounded-full"><Icons.FileUpload /> {label}</span>
                 </div>
-            )
-        )}
-        <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-transparent to-transparent opacity-60"></div>
-        <span className="absolute bottom-1 right-1 text-[10px] font-bold text-white bg-zinc-900/80 px-1.5 py-0.5 rounded border border-zinc-700">{index + 1}</span>
-    </button>
-);
+            )}
+        </div>
+    );
+};
+
+const HistoryThumbnail: React.FC<{ entry: HistoryEntry }> = ({ entry }) => {
+    if (entry.mode === 'video') {
+        return entry.startFramePreviewUrl ? (
+            <img src={entry.startFramePreviewUrl} alt={entry.prompt} className="w-full h-full object-cover" />
+        ) : (
+            <div className="w-full h-full bg-zinc-900 flex items-center justify-center">
+                <Icons.Video className="text-zinc-600" />
+            </div>
+        );
+    }
+    return <img src={entry.imageUrl} alt={entry.prompt} className="w-full h-full object-cover" />;
+};
 
+const SETTING_LABEL_KEYS: Record<string, MessageKey> = {
+    prompt: 'history.diff.prompt',
+    mode: 'history.diff.mode',
+    createFunction: 'history.diff.function',
+    editFunction: 'history.diff.function',
+    videoFunction: 'history.diff.function',
+    model: 'create.model',
+    aspectRatio: 'create.aspectRatio',
+    resolution: 'create.resolution',
+    videoResolution: 'video.resolution',
+    durationSeconds: 'video.duration',
+    styleModifier: 'create.style',
+    cameraAngle: 'create.cameraAngle',
+    lightingStyle: 'create.lighting',
+    comicColorPalette: 'create.palette',
+    count: 'create.variations',
+    negativePrompt: 'history.diff.negativePrompt',
+    referenceImages: 'history.diff.references',
+    references: 'edit.layers',
+    upscaledTo: 'upscale.title',
+};
+// Free text would not fit a chip, so only the fact that it changed is shown
+const TEXT_SETTINGS = new Set(['prompt', 'negativePrompt']);
 
-// --- Sidebar Component ---
-const Sidebar: React.FC<{
-    mode: Mode;
-    createState: CreateState;
-    setCreateState: React.Dispatch<React.SetStateAction<CreateState>>;
-    videoState: VideoState;
-    setVideoState: React.Dispatch<React.SetStateAction<VideoState>>;
-    editState: EditState;
-    setEditState: React.Dispatch<React.SetStateAction<EditState>>;
-    prompt: string;
-    setPrompt: (p: string) => void;
-    isLoading: boolean;
-    error: string | null;
-    setError: (e: string | null) => void;
-    history: HistoryEntry[];
-    historyIndex: number;
-    handleHistoryNavigation: (index: number) => void;
-    handleSubmit: (e: React.FormEvent) => void;
-    processSingleFile: (file: File, callback: (image: UploadedImage, previewUrl: string) => void) => void;
-    preMontageState: PreMontageState;
-    setPreMontageState: (state: PreMontageState) => void;
-}> = (props) => {
-    const { mode, createState, setCreateState, videoState, setVideoState, editState, setEditState, prompt, setPrompt, isLoading, error, setError, history, historyIndex, handleHistoryNavigation, handleSubmit, processSingleFile } = props;
+const SettingChangeChip: React.FC<{ change: SettingChange }> = ({ change }) => {
+    const { t } = useI18n();
+    const labelKey = SETTING_LABEL_KEYS[change.key];
+    const label = labelKey ? t(labelKey) : change.key;
+    const shorten = (value: string) => (value.length > 18 ? `${value.slice(0, 17)}…` : value || '—');
+    return (
+        <span className="inline-block max-w-full truncate px-1 rounded bg-zinc-800 text-[9px] text-zinc-400" title={`${change.from} → ${change.to}`}>
+            {TEXT_SETTINGS.has(change.key) ? label : `${label}: ${shorten(change.from)} → ${shorten(change.to)}`}
+        </span>
+    );
+};
 
-    const textareaRef = useAutoResizeTextarea(prompt);
-    
-    const negativePromptValue = mode === 'create' ? createState.negativePrompt : (mode === 'edit' ? editState.negativePrompt : '');
-    const negativeTextareaRef = useAutoResizeTextarea(negativePromptValue);
-    const handleNegativePromptChange = (value: string) => {
-        if (mode === 'create') setCreateState(s => ({ ...s, negativePrompt: value }));
-        else if (mode === 'edit') setEditState(s => ({ ...s, negativePrompt: value }));
-    };
+/**
+ * History as a tree of generations. A run of single children stays at the same
+ * indentation so a linear session reads as a plain list; only real branches,
+ * where several results were generated from the same entry, are indented.
+ */
+const HistoryTreeView: React.FC<{ history: HistoryEntry[]; mode: Mode; activeIndex: number; onSelect: (index: number) => void; }> = ({ history, mode, activeIndex, onSelect }) => {
+    const { t } = useI18n();
+    // The tree is built from every entry so links across modes survive, then shows only this mode's entries
+    const roots = useMemo(() => filterHistoryTree(buildHistoryTree(history), entry => entry.mode === mode), [history, mode]);
 
-    const renderCreateControls = () => {
-        const { createFunction, aspectRatio, resolution, styleModifier, cameraAngle, lightingStyle, comicColorPalette, model } = createState;
+    const renderNode = (node: HistoryTreeNode): React.ReactNode => {
+        const { entry, index } = node;
+        const isActive = index === activeIndex;
         return (
-            <div className="space-y-4">
-                {/* Model Selection */}
-                 <div className="bg-zinc-900/50 p-2 rounded-lg border border-zinc-800">
-                     <label className="block text-xs font-medium text-blue-400 mb-1.5">Modelo de IA</label>
-                     <div className="flex bg-zinc-800 rounded-lg p-1 gap-1 mb-2">
-                        <button 
-                            type="button"
-                            onClick={() => setCreateState(s => ({ ...s, model: 'flash' }))}
-                            className={`flex-1 py-1.5 text-[10px] font-bold rounded-md transition-all ${model === 'flash' ? 'bg-blue-600 text-white shadow-sm' : 'text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}
-                        >
-                            Flash 2.5
-                            <span className="block font-normal opacity-70">Padrão</span>
-                        </button>
-                        <button 
-                            type="button"
-                            onClick={() => setCreateState(s => ({ ...s, model: 'pro' }))}
-                            className={`flex-1 py-1.5 text-[10px] font-bold rounded-md transition-all ${model === 'pro' ? 'bg-purple-600 text-white shadow-sm' : 'text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}
-                        >
-                            Gemini 3
-                            <span className="block font-normal opacity-70">Ultra</span>
-                        </button>
-                     </div>
-                     
-                     {model === 'pro' && (
-                         <>
-                            <div className="h-px bg-zinc-800 my-2"></div>
-                            <label className="block text-xs font-medium text-purple-400 mb-1.5">Resolução (Gemini 3)</label>
-                            <div className="custom-select-wrapper">
-                                <select value={resolution} onChange={(e) => setCreateState(s => ({ ...s, resolution: e.target.value as any }))} className="custom-select" aria-label="Resolução">
-                                    {IMAGE_RESOLUTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
-                                </select>
-                            </div>
-                        </>
-                     )}
+            <button
+                key={entry.id}
+                onClick={() => onSelect(index)}
+                className={`w-full flex items-start gap-2 p-1 rounded-md text-left transition-colors ${isActive ? 'bg-blue-900/40 ring-1 ring-blue-500' : 'hover:bg-zinc-800/70'}`}
+                aria-label={t('history.item', { label: index + 1 })}
+            >
+                <div className="relative w-10 h-10 shrink-0 rounded overflow-hidden bg-zinc-900">
+                    <HistoryThumbnail entry={entry} />
+                    <span className="absolute bottom-0 right-0 px-1 text-[9px] font-bold text-white bg-zinc-900/80 rounded-tl">{index + 1}</span>
+                </div>
+                <div className="min-w-0 flex-1">
+                    <p className="text-[11px] text-zinc-300 truncate">
+                        {entry.restoredFromId !== undefined && <span className="mr-1 text-[9px] font-bold uppercase text-emerald-300">{t('history.restored')}</span>}
+                        {entry.prompt || t(`mode.${entry.mode}`)}
+                    </p>
+                    {entry.settingsDiff && entry.settingsDiff.length > 0 && (
+                        <div className="flex flex-wrap gap-0.5 mt-0.5">
+                            {entry.settingsDiff.slice(0, 3).map(change => <SettingChangeChip key={change.key} change={change} />)}
+                            {entry.settingsDiff.length > 3 && <span className="text-[9px] text-zinc-500">{t('history.diff.more', { count: entry.settingsDiff.length - 3 })}</span>}
+                        </div>
+                    )}
+                </div>
+            </button>
+        );
+    };
+
+    const renderChain = (node: HistoryTreeNode): React.ReactNode[] => {
+        const rows = [renderNode(node)];
+        if (node.children.length === 1) return [...rows, ...renderChain(node.children[0])];
+        if (node.children.length > 1) {
+            rows.push(
+                <div key={`${node.entry.id}-branches`} className="ml-3 pl-2 border-l border-zinc-700 space-y-1">
+                    {node.children.map(child => (
+                        <div key={child.entry.id} className="relative space-y-1 before:absolute before:-left-2 before:top-5 before:w-2 before:border-t before:border-zinc-700">
+                            {renderChain(child)}
+                        </div>
+                    ))}
+                </div>
+            );
+        }
+        return rows;
+    };
+
+    return <div className="space-y-1">{roots.flatMap(renderChain)}</div>;
+};
+
+const SessionBar: React.FC<{
+    sessions: HistorySession[];
+    activeSessionId: string | null;
+    onSelect: (id: string) => void;
+    onCreate: () => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+}> = ({ sessions, activeSessionId, onSelect, onCreate, onRename, onDelete }) => {
+    const { t } = useI18n();
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [draftName, setDraftName] = useState('');
+    const activeSession = sessions.find(s => s.id === activeSessionId);
+
+    const startRename = () => {
+        if (!activeSession) return;
+        setDraftName(activeSession.name);
+        setIsRenaming(true);
+    };
+
+    const commitRename = () => {
+        const name = draftName.trim();
+        if (activeSession && name && name !== activeSession.name) onRename(activeSession.id, name);
+        setIsRenaming(false);
+    };
+
+    return (
+        <div className="flex items-center gap-1">
+            {isRenaming ? (
+                <input
+                    autoFocus
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setIsRenaming(false); }}
+                    className="flex-1 min-w-0 bg-zinc-800 border border-blue-500 rounded-md px-2 py-1 text-sm text-zinc-200 focus:outline-none"
+                    aria-label={t('session.name')}
+                />
+            ) : (
+                <div className="custom-select-wrapper flex-1 min-w-0">
+                    <select value={activeSessionId ?? ''} onChange={(e) => onSelect(e.target.value)} className="custom-select" aria-label={t('session.label')}>
+                        {sessions.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                </div>
+            )}
+            <button onClick={onCreate} title={t('session.new')} className="p-1.5 hover:bg-zinc-700 rounded text-zinc-400 hover:text-zinc-200"><Icons.Add className="!text-base" /></button>
+            <button onClick={startRename} disabled={!activeSession} title={t('session.rename')} className="p-1.5 hover:bg-zinc-700 rounded text-zinc-400 hover:text-zinc-200 disabled:opacity-40"><Icons.Edit className="!text-base" /></button>
+            <button onClick={() => activeSession && onDelete(activeSession.id)} disabled={!activeSession} title={t('session.delete')} className="p-1.5 text-zinc-500 hover:text-red-400 hover:bg-zinc-700 rounded disabled:opacity-40"><Icons.Delete className="!text-base" /></button>
+        </div>
+    );
+};
+
+
+const PresetLibrary: React.FC<{
+    presets: PromptPreset[];
+    onApply: (preset: PromptPreset) => void;
+    onSave: (name: string) => void;
+    onDelete: (id: string) => void;
+    onExport: () => void;
+    onImport: (file: File) => void;
+}> = ({ presets, onApply, onSave, onDelete, onExport, onImport }) => {
+    const { t } = useI18n();
+    const [selectedId, setSelectedId] = useState('');
+    const [newName, setNewName] = useState('');
+    const selected = presets.find(p => p.id === selectedId);
+
+    const handleSave = () => {
+        const name = newName.trim();
+        if (!name) return;
+        onSave(name);
+        setNewName('');
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-1">
+                <div className="custom-select-wrapper flex-1 min-w-0">
+                    <select value={selected ? selectedId : ''} onChange={(e) => { setSelectedId(e.target.value); const preset = presets.find(p => p.id === e.target.value); if (preset) onApply(preset); }} className="custom-select" aria-label={t('preset.label')}>
+                        <option value="" disabled>{presets.length > 0 ? t('preset.apply') : t('preset.none')}</option>
+                        {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                    </select>
+                </div>
+                <button onClick={() => selected && onDelete(selected.id)} disabled={!selected} title={t('preset.delete')} className="p-1.5 text-zinc-500 hover:text-red-400 hover:bg-zinc-700 rounded disabled:opacity-40"><Icons.Delete className="!text-base" /></button>
+            </div>
+            {selected && <p className="text-[11px] text-zinc-500 font-mono break-words">{selected.promptTemplate || t('preset.noPrompt')}</p>}
+            <div className="flex items-center gap-1">
+                <input value={newName} onChange={(e) => setNewName(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }} placeholder={t('preset.newName')} className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1 text-sm text-zinc-200 placeholder-zinc-500 focus:outline-none focus:border-blue-500" />
+                <button onClick={handleSave} disabled={!newName.trim()} title={t('preset.save')} className="p-1.5 hover:bg-zinc-700 rounded text-zinc-400 hover:text-zinc-200 disabled:opacity-40"><Icons.Add className="!text-base" /></button>
+            </div>
+            <div className="flex gap-2">
+                <button onClick={onExport} disabled={presets.length === 0} className="flex-1 flex items-center justify-center gap-1 py-1 text-xs font-semibold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded-md transition-colors disabled:opacity-40"><Icons.Save className="!text-base" /> {t('common.export')}</button>
+                <label className="flex-1 flex items-center justify-center gap-1 py-1 text-xs font-semibold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded-md transition-colors cursor-pointer">
+                    <Icons.FileUpload className="!text-base" /> {t('common.import')}
+                    <input type="file" accept="application/json,.json" className="hidden" onChange={(e) => { const file = e.target.files?.[0]; if (file) onImport(file); e.target.value = ''; }} />
+                </label>
+            </div>
+        </div>
+    );
+};
+
+// Inputs for the {{variables}} of the current prompt template
+const TemplateVariablesForm: React.FC<{
+    variables: string[];
+    values: Record<string, string>;
+    onChange: (name: string, value: string) => void;
+}> = ({ variables, values, onChange }) => (
+    <div className="grid grid-cols-2 gap-2 p-2 bg-zinc-900 border border-zinc-800 rounded-lg">
+        {variables.map(name => (
+            <label key={name} className={variables.length === 1 ? 'col-span-2' : ''}>
+                <span className="block text-[10px] font-bold text-blue-400 mb-0.5 font-mono">{`{{${name}}}`}</span>
+                <input value={values[name] ?? ''} onChange={(e) => onChange(name, e.target.value)} className="w-full bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1 text-xs text-zinc-200 focus:outline-none focus:border-blue-500" />
+            </label>
+        ))}
+    </div>
+);
+
+const SettingsModal: React.FC<{
+    settings: ProviderSettings;
+    onSave: (settings: ProviderSettings, locale: Locale) => void;
+    onClose: () => void;
+}> = ({ settings, onSave, onClose }) => {
+    const { t, locale } = useI18n();
+    const [draft, setDraft] = useState(settings);
+    const [draftLocale, setDraftLocale] = useState(locale);
+    const updateHttp = (changes: Partial<HttpProviderSettings>) => setDraft(d => ({ ...d, http: { ...d.http, ...changes } }));
+    const updateRetry = (changes: Partial<RetryPolicy>) => setDraft(d => ({ ...d, retry: { ...d.retry, ...changes } }));
+    const inputClass = "w-full bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1.5 text-sm text-zinc-200 placeholder-zinc-500 focus:outline-none focus:border-blue-500";
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-zinc-900 rounded-lg p-6 w-full max-w-md border border-zinc-700 shadow-2xl space-y-4 max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-zinc-100">{t('settings.title')}</h2>
+                    <button onClick={onClose} className="p-1 text-zinc-400 hover:text-white rounded"><Icons.Close /></button>
+                </div>
+                <label className="block">
+                    <span className="block text-xs font-semibold text-zinc-400 mb-1">{t('settings.language')}</span>
+                    <div className="custom-select-wrapper">
+                        <select value={draftLocale} onChange={(e) => setDraftLocale(e.target.value as Locale)} className="custom-select">
+                            {LOCALE_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                        </select>
+                    </div>
+                </label>
+                <h3 className="text-xs font-bold uppercase tracking-wider text-zinc-300 pt-2 border-t border-zinc-800">{t('settings.providers')}</h3>
+                <label className="block">
+                    <span className="block text-xs font-semibold text-zinc-400 mb-1">{t('settings.imageProvider')}</span>
+                    <div className="custom-select-wrapper">
+                        <select value={draft.imageProvider} onChange={(e) => setDraft(d => ({ ...d, imageProvider: e.target.value as ProviderId }))} className="custom-select">
+                            {IMAGE_PROVIDER_OPTIONS.map(o => <option key={o.id} value={o.id}>{t(o.labelKey)}</option>)}
+                        </select>
+                    </div>
+                </label>
+                <label className="block">
+                    <span className="block text-xs font-semibold text-zinc-400 mb-1">{t('settings.videoProvider')}</span>
+                    <div className="custom-select-wrapper">
+                        <select value={draft.videoProvider} onChange={(e) => setDraft(d => ({ ...d, videoProvider: e.target.value as ProviderSettings['videoProvider'] }))} className="custom-select">
+                            {VIDEO_PROVIDER_OPTIONS.map(o => <option key={o.id} value={o.id}>{t(o.labelKey)}</option>)}
+                        </select>
+                    </div>
+                </label>
+                {draft.imageProvider === 'http' && (
+                    <div className="space-y-3 p-3 bg-zinc-950 border border-zinc-800 rounded-lg">
+                        <div className="flex gap-2">
+                            {(['openai', 'comfyui'] as const).map(flavor => (
+                                <button key={flavor} onClick={() => updateHttp({ flavor })} className={`flex-1 py-1 text-xs font-semibold rounded-md transition-colors ${draft.http.flavor === flavor ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}>{flavor === 'openai' ? t('settings.http.openai') : 'ComfyUI'}</button>
+                            ))}
+                        </div>
+                        <input value={draft.http.baseUrl} onChange={(e) => updateHttp({ baseUrl: e.target.value })} placeholder={draft.http.flavor === 'openai' ? t('settings.http.baseUrlPlaceholder') : 'http://127.0.0.1:8188'} className={inputClass} />
+                        {draft.http.flavor === 'openai' ? (
+                            <>
+                                <input type="password" value={draft.http.apiKey} onChange={(e) => updateHttp({ apiKey: e.target.value })} placeholder={t('settings.http.apiKey')} className={inputClass} />
+                                <input value={draft.http.model} onChange={(e) => updateHttp({ model: e.target.value })} placeholder={t('settings.http.model')} className={inputClass} />
+                            </>
+                        ) : (
+                            <>
+                                <textarea value={draft.http.workflow} onChange={(e) => updateHttp({ workflow: e.target.value })} rows={6} placeholder={t('settings.http.workflow')} className={`${inputClass} font-mono text-xs`} />
+                                <p className="text-[11px] text-zinc-500">{t('settings.http.workflowHint')}</p>
+                            </>
+                        )}
+                    </div>
+                )}
+                <div className="space-y-2 p-3 bg-zinc-950 border border-zinc-800 rounded-lg">
+                    <span className="block text-xs font-semibold text-zinc-400">{t('settings.retry.title')}</span>
+                    <div className="grid grid-cols-3 gap-2">
+                        {([
+                            [t('settings.retry.maxRetries'), draft.retry.maxRetries, 1, (value: number) => updateRetry({ maxRetries: Math.max(0, Math.min(10, Math.round(value))) })],
+                            [t('settings.retry.baseDelay'), draft.retry.baseDelayMs / 1000, 0.5, (value: number) => updateRetry({ baseDelayMs: Math.max(0, value) * 1000 })],
+                            [t('settings.retry.maxDelay'), draft.retry.maxDelayMs / 1000, 1, (value: number) => updateRetry({ maxDelayMs: Math.max(0, value) * 1000 })],
+                        ] as const).map(([label, value, step, onChange]) => (
+                            <label key={label} className="block">
+                                <span className="block text-[10px] text-zinc-500 mb-0.5">{label}</span>
+                                <input type="number" min={0} step={step} value={value} onChange={(e) => { const parsed = parseFloat(e.target.value); if (!Number.isNaN(parsed)) onChange(parsed); }} className={inputClass} />
+                            </label>
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-zinc-300">
+                        <input type="checkbox" checked={draft.retry.fallbackToFlash} onChange={(e) => updateRetry({ fallbackToFlash: e.target.checked })} className="accent-blue-600" />
+                        {t('settings.retry.fallback')}
+                    </label>
+                </div>
+                <p className="text-[11px] text-zinc-500">{t('settings.mockHint')}</p>
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="py-2 px-4 text-sm font-semibold text-zinc-300 hover:bg-zinc-800 rounded-md">{t('common.cancel')}</button>
+                    <button onClick={() => onSave(draft, draftLocale)} className="py-2 px-4 text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white rounded-md">{t('common.save')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const TransformNumberField: React.FC<{ label: string; value: number; onChange: (value: number) => void; step?: number; suffix?: string; }> = ({ label, value, onChange, step = 1, suffix }) => (
+    <label className="flex items-center gap-1 bg-zinc-900 border border-zinc-700 rounded-md px-1.5 focus-within:border-blue-500">
+        <span className="text-[10px] font-bold text-zinc-500 w-3">{label}</span>
+        <input
+            type="number"
+            step={step}
+            value={Math.round(value * 10) / 10}
+            onChange={(e) => { const parsed = parseFloat(e.target.value); if (!Number.isNaN(parsed)) onChange(parsed); }}
+            className="w-full min-w-0 bg-transparent py-1 text-xs text-zinc-200 focus:outline-none"
+        />
+        {suffix && <span className="text-[10px] text-zinc-500">{suffix}</span>}
+    </label>
+);
+
+// Numeric transform controls for a single montage layer
+const LayerTransformPanel: React.FC<{
+    layer: ReferenceLayer;
+    onChange: (type: LayerCommandType, updates: Partial<ReferenceLayer>, merge: boolean) => void;
+}> = ({ layer, onChange }) => {
+    const { t } = useI18n();
+    return (
+        <div className="space-y-2 p-2 bg-zinc-900/50 rounded-lg border border-zinc-800 animate-fadeIn">
+            <div className="grid grid-cols-2 gap-1.5">
+                <TransformNumberField label="X" value={layer.x} onChange={x => onChange('move', { x }, true)} />
+                <TransformNumberField label="Y" value={layer.y} onChange={y => onChange('move', { y }, true)} />
+                <TransformNumberField label={t('layer.widthShort')} value={layer.width} onChange={width => onChange('resize', { width: Math.max(MIN_LAYER_SIZE, width) }, true)} />
+                <TransformNumberField label={t('layer.heightShort')} value={layer.height} onChange={height => onChange('resize', { height: Math.max(MIN_LAYER_SIZE, height) }, true)} />
+            </div>
+            <div className="flex items-center gap-1.5">
+                <div className="flex-1"><TransformNumberField label="R" value={layer.rotation} suffix="°" onChange={rotation => onChange('rotate', { rotation: normalizeRotation(rotation) }, true)} /></div>
+                <button onClick={() => onChange('rotate', { rotation: normalizeRotation(layer.rotation + 90) }, false)} title={t('layer.rotate90')} className="p-1 hover:bg-zinc-700 rounded text-zinc-400 hover:text-zinc-200"><Icons.RotateRight className="!text-base" /></button>
+                <button onClick={() => onChange('flip', { flipX: !layer.flipX }, false)} title={t('layer.flipX')} className={`px-1.5 py-1 text-[10px] font-bold rounded transition-colors ${layer.flipX ? 'bg-blue-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}>↔</button>
+                <button onClick={() => onChange('flip', { flipY: !layer.flipY }, false)} title={t('layer.flipY')} className={`px-1.5 py-1 text-[10px] font-bold rounded transition-colors ${layer.flipY ? 'bg-blue-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}>↕</button>
+            </div>
+            <div className="flex items-center gap-2">
+                <span className="text-[10px] font-bold text-zinc-500">{t('layer.opacity')}</span>
+                <input type="range" min={0} max={100} value={Math.round(layer.opacity * 100)} onChange={(e) => onChange('opacity', { opacity: Number(e.target.value) / 100 }, true)} className="flex-1 accent-blue-500" aria-label={t('layer.opacity')} />
+                <span className="text-[10px] text-zinc-400 w-8 text-right">{Math.round(layer.opacity * 100)}%</span>
+            </div>
+        </div>
+    );
+};
+
+type AdjustmentSliderKey = 'exposure' | 'contrast' | 'saturation' | 'temperature' | 'sharpen' | 'vignette';
+const ADJUSTMENT_GROUPS: { titleKey: MessageKey; min: number; sliders: { key: AdjustmentSliderKey; labelKey: MessageKey }[] }[] = [
+    { titleKey: 'adjust.tone', min: -100, sliders: [
+        { key: 'exposure', labelKey: 'adjust.exposure' },
+        { key: 'contrast', labelKey: 'adjust.contrast' },
+        { key: 'saturation', labelKey: 'adjust.saturation' },
+        { key: 'temperature', labelKey: 'adjust.temperature' },
+    ] },
+    { titleKey: 'adjust.detail', min: 0, sliders: [
+        { key: 'sharpen', labelKey: 'adjust.sharpen' },
+        { key: 'vignette', labelKey: 'adjust.vignette' },
+    ] },
+];
+
+// Non-AI adjustments of the edit background; double-clicking a slider sets it back to zero
+const AdjustmentsPanel: React.FC<{
+    adjustments: ImageAdjustments;
+    onChange: (updates: Partial<ImageAdjustments>) => void;
+}> = ({ adjustments, onChange }) => {
+    const { t } = useI18n();
+    const toggleClass = (isActive: boolean) => `px-2 py-1 text-xs font-bold rounded transition-colors ${isActive ? 'bg-blue-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`;
+    const renderSlider = (labelKey: MessageKey, value: number, min: number, max: number, step: number, onValue: (value: number) => void, suffix = '') => (
+        <label key={labelKey} className="block">
+            <span className="flex justify-between text-xs text-zinc-400 mb-0.5">{t(labelKey)}<span className="text-zinc-500">{value > 0 && min < 0 ? '+' : ''}{value}{suffix}</span></span>
+            <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onValue(Number(e.target.value))} onDoubleClick={() => onValue(0)} className="w-full accent-blue-500" />
+        </label>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-start justify-between gap-2">
+                <p className="text-[11px] text-zinc-500">{t('adjust.hint')}</p>
+                <button onClick={() => onChange(DEFAULT_ADJUSTMENTS)} disabled={!hasAdjustments(adjustments)} className="shrink-0 py-1 px-2 text-xs font-semibold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded-md transition-colors disabled:opacity-40">{t('adjust.reset')}</button>
+            </div>
+            <div className="space-y-2">
+                <h4 className="text-xs font-medium text-zinc-400">{t('adjust.geometry')}</h4>
+                <div className="flex items-center gap-1.5">
+                    <div className="custom-select-wrapper flex-1 min-w-0">
+                        <select value={adjustments.cropAspectRatio} onChange={(e) => onChange({ cropAspectRatio: e.target.value })} className="custom-select" aria-label={t('adjust.crop')}>
+                            <option value="original">{t('adjust.cropOriginal')}</option>
+                            {ALL_SUPPORTED_ASPECT_RATIOS.map((group) => (
+                                <optgroup label={t(group.labelKey)} key={group.labelKey}>{group.options.map((ratio) => <option key={ratio} value={ratio}>{ratio}</option>)}</optgroup>
+                            ))}
+                        </select>
+                    </div>
+                    <button onClick={() => onChange({ quarterTurns: (adjustments.quarterTurns + 3) % 4 })} title={t('adjust.rotateLeft')} className="p-1 hover:bg-zinc-700 rounded text-zinc-400 hover:text-zinc-200"><Icons.RotateLeft className="!text-base" /></button>
+                    <button onClick={() => onChange({ quarterTurns: (adjustments.quarterTurns + 1) % 4 })} title={t('adjust.rotateRight')} className="p-1 hover:bg-zinc-700 rounded text-zinc-400 hover:text-zinc-200"><Icons.RotateRight className="!text-base" /></button>
+                    <button onClick={() => onChange({ flipX: !adjustments.flipX })} title={t('adjust.flipX')} className={toggleClass(adjustments.flipX)}>↔</button>
+                    <button onClick={() => onChange({ flipY: !adjustments.flipY })} title={t('adjust.flipY')} className={toggleClass(adjustments.flipY)}>↕</button>
+                </div>
+                {renderSlider('adjust.straighten', adjustments.straighten, -45, 45, 0.5, straighten => onChange({ straighten }), '°')}
+            </div>
+            {ADJUSTMENT_GROUPS.map(group => (
+                <div key={group.titleKey} className="space-y-2">
+                    <h4 className="text-xs font-medium text-zinc-400">{t(group.titleKey)}</h4>
+                    {group.sliders.map(slider => renderSlider(slider.labelKey, adjustments[slider.key], group.min, 100, 1, value => onChange({ [slider.key]: value })))}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+// Where the background sits on the extended canvas, from the top-left to the bottom-right corner
+const CANVAS_ANCHORS = [0, 0.5, 1];
+const MAX_CANVAS_SIZE = 8192;
+
+// Target of the extend-canvas edit: an aspect ratio to pad to, or an exact size in pixels
+const CanvasExtensionPanel: React.FC<{
+    extension: CanvasExtension;
+    onChange: (updates: Partial<CanvasExtension>) => void;
+}> = ({ extension, onChange }) => {
+    const { t } = useI18n();
+    const clampSize = (value: number) => Math.max(1, Math.min(MAX_CANVAS_SIZE, Math.round(value)));
+
+    return (
+        <div className="space-y-3">
+            <p className="text-[11px] text-zinc-500">{t('extend.hint')}</p>
+            <div className="space-y-2">
+                <h4 className="text-xs font-medium text-zinc-400">{t('extend.target')}</h4>
+                <div className="flex gap-2">
+                    {(['ratio', 'size'] as const).map(target => (
+                        <button key={target} onClick={() => onChange({ target })} className={`flex-1 py-1 text-xs font-semibold rounded-md transition-colors ${extension.target === target ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}>{t(target === 'ratio' ? 'extend.ratio' : 'extend.size')}</button>
+                    ))}
+                </div>
+                {extension.target === 'ratio' ? (
+                    <div className="custom-select-wrapper">
+                        <select value={extension.aspectRatio} onChange={(e) => onChange({ aspectRatio: e.target.value })} className="custom-select" aria-label={t('extend.ratio')}>
+                            {ALL_SUPPORTED_ASPECT_RATIOS.map((group) => (
+                                <optgroup label={t(group.labelKey)} key={group.labelKey}>{group.options.map((ratio) => <option key={ratio} value={ratio}>{ratio}</option>)}</optgroup>
+                            ))}
+                        </select>
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-2 gap-1.5">
+                        <TransformNumberField label="W" value={extension.width} onChange={(width) => onChange({ width: clampSize(width) })} suffix="px" />
+                        <TransformNumberField label="H" value={extension.height} onChange={(height) => onChange({ height: clampSize(height) })} suffix="px" />
+                    </div>
+                )}
+            </div>
+            <div className="space-y-2">
+                <h4 className="text-xs font-medium text-zinc-400">{t('extend.anchor')}</h4>
+                <div className="grid grid-cols-3 gap-1 w-20">
+                    {CANVAS_ANCHORS.map(anchorY => CANVAS_ANCHORS.map(anchorX => {
+                        const isActive = extension.anchorX === anchorX && extension.anchorY === anchorY;
+                        return <button key={`${anchorX}-${anchorY}`} onClick={() => onChange({ anchorX, anchorY })} aria-pressed={isActive} className={`h-6 rounded transition-colors ${isActive ? 'bg-blue-600' : 'bg-zinc-800 hover:bg-zinc-700'}`} />;
+                    }))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// --- Sidebar Component ---
+const Sidebar: React.FC<{
+    mode: Mode;
+    createState: CreateState;
+    setCreateState: React.Dispatch<React.SetStateAction<CreateState>>;
+    videoState: VideoState;
+    setVideoState: React.Dispatch<React.SetStateAction<VideoState>>;
+    editState: EditState;
+    setEditState: React.Dispatch<React.SetStateAction<EditState>>;
+    prompt: string;
+    setPrompt: (p: string) => void;
+    activeJobCount: number;
+    error: unknown;
+    setError: (e: unknown) => void;
+    history: HistoryEntry[];
+    historyIndex: number;
+    handleHistoryNavigation: (index: number) => void;
+    handleSubmit: (e: React.FormEvent) => void;
+    processSingleFile: (file: File, callback: (image: UploadedImage, previewUrl: string) => void) => void;
+    preMontageState: PreMontageState;
+    setPreMontageState: (state: PreMontageState) => void;
+    sessions: HistorySession[];
+    activeSessionId: string | null;
+    handleSessionSelect: (id: string) => void;
+    handleSessionCreate: () => void;
+    handleSessionRename: (id: string, name: string) => void;
+    handleSessionDelete: (id: string) => void;
+    layerHistory: LayerHistory;
+    presets: PromptPreset[];
+    templateValues: Record<string, string>;
+    setTemplateValues: React.Dispatch<React.SetStateAction<Record<string, string>>>;
+    handlePresetApply: (preset: PromptPreset) => void;
+    handlePresetSave: (name: string) => void;
+    handlePresetDelete: (id: string) => void;
+    handlePresetsExport: () => void;
+    handlePresetsImport: (file: File) => void;
+    isComicPageMode: boolean;
+    setIsComicPageMode: (isPageMode: boolean) => void;
+    comicProject: ComicProject;
+    setComicProject: React.Dispatch<React.SetStateAction<ComicProject>>;
+    activeComicPageIndex: number;
+    generatingPanelIds: string[];
+    handleGenerateComicPanel: (panelIndex: number) => void;
+    storyboardShots: StoryboardShot[];
+    setStoryboardShots: React.Dispatch<React.SetStateAction<StoryboardShot[]>>;
+    generatingShotIds: string[];
+    handleGenerateShot: (shotId: string) => void;
+}> = (props) => {
+    const { mode, createState, setCreateState, videoState, setVideoState, editState, setEditState, prompt, setPrompt, activeJobCount, error, setError, history, historyIndex, handleHistoryNavigation, handleSubmit, processSingleFile, sessions, activeSessionId, handleSessionSelect, handleSessionCreate, handleSessionRename, handleSessionDelete, layerHistory, presets, templateValues, setTemplateValues, handlePresetApply, handlePresetSave, handlePresetDelete, handlePresetsExport, handlePresetsImport, isComicPageMode, setIsComicPageMode, comicProject, setComicProject, activeComicPageIndex, generatingPanelIds, handleGenerateComicPanel, storyboardShots, setStoryboardShots, generatingShotIds, handleGenerateShot } = props;
+    const { t } = useI18n();
+    const isComicPage = mode === 'create' && createState.createFunction === 'comic' && isComicPageMode;
+    // Layers on the canvas turn the edit into a montage, where the prompt is optional
+    const isMontage = mode === 'edit' && editState.references.length > 0;
+    const isStoryboard = mode === 'video' && videoState.videoFunction === 'storyboard';
+    // Adjustments need no prompt: they are applied in the browser
+    const isAdjusting = mode === 'edit' && editState.editFunction === 'adjust';
+    // Extending the canvas works without a prompt: the model continues the scene
+    const isExtending = mode === 'edit' && editState.editFunction === 'extend';
+    const templateVariables = mode === 'create' ? extractTemplateVariables(prompt) : [];
+
+    // History is shared by all modes; each mode only shows its own entries
+
+    const textareaRef = useAutoResizeTextarea(prompt);
+    const [transformLayerId, setTransformLayerId] = useState<string | null>(null);
+    
+    const negativePromptValue = mode === 'create' ? createState.negativePrompt : (mode === 'edit' ? editState.negativePrompt : videoState.negativePrompt);
+    const negativeTextareaRef = useAutoResizeTextarea(negativePromptValue);
+    const handleNegativePromptChange = (value: string) => {
+        if (mode === 'create') setCreateState(s => ({ ...s, negativePrompt: value }));
+        else if (mode === 'edit') setEditState(s => ({ ...s, negativePrompt: value }));
+        else setVideoState(s => ({ ...s, negativePrompt: value }));
+    };
+
+    const renderComicPageControls = () => {
+        const page = comicProject.pages[activeComicPageIndex];
+        const updatePage = (update: (page: ComicPage) => ComicPage) => {
+            setComicProject(p => ({ ...p, pages: p.pages.map((pg, i) => i === activeComicPageIndex ? update(pg) : pg) }));
+        };
+        return (
+            <div className="space-y-4">
+                <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-1">{t('comic.layout')}</label>
+                    <div className="custom-select-wrapper">
+                        <select value={page.layoutId} onChange={(e) => updatePage(pg => applyComicLayout(pg, e.target.value))} className="custom-select" aria-label={t('comic.layout')}>
+                            {COMIC_LAYOUTS.map(layout => <option key={layout.id} value={layout.id}>{t(layout.labelKey)}</option>)}
+                        </select>
+                    </div>
+                </div>
+                <div>
+                    <label className="flex justify-between text-xs font-medium text-zinc-400 mb-1"><span>{t('comic.gutter')}</span><span className="text-zinc-500">{comicProject.gutter}px</span></label>
+                    <input type="range" min={0} max={120} step={4} value={comicProject.gutter} onChange={(e) => setComicProject(p => ({ ...p, gutter: Number(e.target.value) }))} className="w-full accent-blue-500" aria-label={t('comic.gutter')} />
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-1">{t('comic.script', { page: activeComicPageIndex + 1 })}</label>
+                    <div className="space-y-2">
+                        {page.panels.map((panel, i) => (
+                            <div key={panel.id} className="flex gap-2 items-start">
+                                <div className="flex-1">
+                                    <span className="block text-[10px] font-semibold text-zinc-500 mb-0.5">{t('comic.panel', { index: i + 1 })}</span>
+                                    <textarea value={panel.script} onChange={(e) => updatePage(pg => ({ ...pg, panels: pg.panels.map(pn => pn.id === panel.id ? { ...pn, script: e.target.value } : pn) }))} placeholder={t('comic.panelPlaceholder')} rows={2} className="w-full bg-zinc-800 rounded-md p-2 text-xs text-zinc-200 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-600/50 resize-none" />
+                                </div>
+                                <button type="button" onClick={() => handleGenerateComicPanel(i)} disabled={!panel.script.trim() || generatingPanelIds.includes(panel.id)} title={t('comic.generatePanel')} className="mt-4 p-1.5 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700 rounded disabled:opacity-40">
+                                    {generatingPanelIds.includes(panel.id) ? <Icons.Spinner className="h-4 w-4" /> : <Icons.Sparkles className="!text-base" />}
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    const renderStoryboardControls = () => {
+        const updateShot = (id: string, updates: Partial<StoryboardShot>) => {
+            setStoryboardShots(shots => shots.map(shot => shot.id === id ? { ...shot, ...updates } : shot));
+        };
+        return (
+            <div>
+                <label className="block text-xs font-medium text-zinc-400 mb-1">{t('storyboard.shots')}</label>
+                <div className="space-y-2">
+                    {storyboardShots.map((shot, i) => (
+                        <div key={shot.id} className="flex gap-2 items-start">
+                            <div className="flex-1">
+                                <span className="block text-[10px] font-semibold text-zinc-500 mb-0.5">{t('storyboard.shot', { index: i + 1 })}</span>
+                                <textarea value={shot.prompt} onChange={(e) => updateShot(shot.id, { prompt: e.target.value })} placeholder={i === 0 ? t('storyboard.firstShotPlaceholder') : t('storyboard.shotPlaceholder')} rows={2} className="w-full bg-zinc-800 rounded-md p-2 text-xs text-zinc-200 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-600/50 resize-none" />
+                            </div>
+                            <div className="mt-4 flex flex-col">
+                                <button type="button" onClick={() => handleGenerateShot(shot.id)} disabled={!shot.prompt.trim() || generatingShotIds.includes(shot.id)} title={t('storyboard.generateShot')} className="p-1.5 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700 rounded disabled:opacity-40">
+                                    {generatingShotIds.includes(shot.id) ? <Icons.Spinner className="h-4 w-4" /> : <Icons.Sparkles className="!text-base" />}
+                                </button>
+                                <button type="button" onClick={() => setStoryboardShots(shots => shots.filter(s => s.id !== shot.id))} disabled={storyboardShots.length <= 1 || generatingShotIds.includes(shot.id)} title={t('storyboard.removeShot')} className="p-1.5 text-zinc-500 hover:text-red-400 hover:bg-zinc-700 rounded disabled:opacity-40">
+                                    <Icons.Delete className="!text-base" />
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+                <button type="button" onClick={() => setStoryboardShots(shots => [...shots, createStoryboardShot()])} className="mt-2 w-full flex items-center justify-center gap-1.5 py-1.5 text-xs font-semibold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded-md transition-colors">
+                    <Icons.Add className="!text-base" /> {t('storyboard.addShot')}
+                </button>
+            </div>
+        );
+    };
+
+    const renderCreateControls = () => {
+        const { createFunction, aspectRatio, resolution, styleModifier, cameraAngle, lightingStyle, comicColorPalette, model, count, referenceImages } = createState;
+        const handleAddReferenceImage = (image: UploadedImage, previewUrl: string) => {
+            setCreateState(s => s.referenceImages.length >= MAX_REFERENCE_IMAGES ? s : {
+                ...s,
+                referenceImages: [...s.referenceImages, { id: `cref-${Date.now()}-${s.referenceImages.length}`, role: 'subject', image, previewUrl }],
+            });
+        };
+        const updateReferenceImages = (update: (refs: ReferenceImage[]) => ReferenceImage[]) => {
+            setCreateState(s => ({ ...s, referenceImages: update(s.referenceImages) }));
+        };
+        return (
+            <div className="space-y-4">
+                {/* Model Selection */}
+                 <div className="bg-zinc-900/50 p-2 rounded-lg border border-zinc-800">
+                     <label className="block text-xs font-medium text-blue-400 mb-1.5">{t('create.model')}</label>
+                     <div className="flex bg-zinc-800 rounded-lg p-1 gap-1 mb-2">
+                        <button 
+                            type="button"
+                            onClick={() => setCreateState(s => ({ ...s, model: 'flash' }))}
+                            className={`flex-1 py-1.5 text-[10px] font-bold rounded-md transition-all ${model === 'flash' ? 'bg-blue-600 text-white shadow-sm' : 'text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}
+                        >
+                            Flash 2.5
+                            <span className="block font-normal opacity-70">{t('common.default')}</span>
+                        </button>
+                        <button 
+                            type="button"
+                            onClick={() => setCreateState(s => ({ ...s, model: 'pro' }))}
+                            className={`flex-1 py-1.5 text-[10px] font-bold rounded-md transition-all ${model === 'pro' ? 'bg-purple-600 text-white shadow-sm' : 'text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}
+                        >
+                            Gemini 3
+                            <span className="block font-normal opacity-70">Ultra</span>
+                        </button>
+                     </div>
+                     
+                     {model === 'pro' && (
+                         <>
+                            <div className="h-px bg-zinc-800 my-2"></div>
+                            <label className="block text-xs font-medium text-purple-400 mb-1.5">{t('create.resolutionPro')}</label>
+                            <div className="custom-select-wrapper">
+                                <select value={resolution} onChange={(e) => setCreateState(s => ({ ...s, resolution: e.target.value as any }))} className="custom-select" aria-label={t('create.resolution')}>
+                                    {IMAGE_RESOLUTIONS.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
+                                </select>
+                            </div>
+                        </>
+                     )}
+                </div>
+
+                {createFunction === 'comic' && (
+                    <div>
+                        <label className="block text-xs font-medium text-zinc-400 mb-1">{t('comic.format')}</label>
+                        <div className="flex bg-zinc-800 rounded-md p-1 gap-1">
+                            {([[false, 'comic.format.panel'], [true, 'comic.format.page']] as const).map(([isPage, labelKey]) => (
+                                <button key={labelKey} type="button" onClick={() => setIsComicPageMode(isPage)} className={`flex-1 py-1 text-xs font-semibold rounded transition-colors ${isComicPageMode === isPage ? 'bg-zinc-600 text-white' : 'text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}>{t(labelKey)}</button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                {isComicPage && renderComicPageControls()}
+
+                <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-1">{t('create.referenceImages', { count: referenceImages.length, max: MAX_REFERENCE_IMAGES })}</label>
+                    {referenceImages.length > 0 && (
+                        <ul className="space-y-1 mb-2">
+                            {referenceImages.map(ref => (
+                                <li key={ref.id} className="flex items-center gap-2 p-1.5 rounded-md bg-zinc-800">
+                                    <img src={ref.previewUrl} className="w-8 h-8 object-cover rounded bg-zinc-950" alt={t('create.referenceThumbnail')} />
+                                    <div className="custom-select-wrapper flex-1 min-w-0">
+                                        <select value={ref.role} onChange={(e) => { const role = e.target.value as ReferenceRole; updateReferenceImages(refs => refs.map(r => r.id === ref.id ? { ...r, role } : r)); }} className="custom-select" aria-label={t('create.referenceRole')}>
+                                            {REFERENCE_ROLE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
+                                        </select>
+                                    </div>
+                                    <button type="button" onClick={() => updateReferenceImages(refs => refs.filter(r => r.id !== ref.id))} title={t('common.remove')} className="p-1 text-zinc-500 hover:text-red-400 hover:bg-zinc-600 rounded"><Icons.Delete className="!text-base" /></button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {referenceImages.length < MAX_REFERENCE_IMAGES && (
+                        <div className="h-16">
+                            <ImageUploadSlot id="create-ref-upload" label={t('create.addReference')} icon={<Icons.AddPhoto className="text-xl" />} imagePreviewUrl={null} onUpload={(file) => processSingleFile(file, handleAddReferenceImage)} className="h-full" isMultiple={true} />
+                        </div>
+                    )}
                 </div>
 
                 {STYLE_OPTIONS[createFunction].length > 0 && (
                     <div>
-                        <label className="block text-xs font-medium text-zinc-400 mb-1">Estilo</label>
+                        <label className="block text-xs font-medium text-zinc-400 mb-1">{t('create.style')}</label>
                         <div className="custom-select-wrapper">
-                            <select value={styleModifier} onChange={(e) => setCreateState(s => ({ ...s, styleModifier: e.target.value }))} className="custom-select" aria-label="Estilo">
-                                <option value="default" disabled>Selecione um Estilo</option>
-                                {STYLE_OPTIONS[createFunction].map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                            <select value={styleModifier} onChange={(e) => setCreateState(s => ({ ...s, styleModifier: e.target.value }))} className="custom-select" aria-label={t('create.style')}>
+                                <option value="default" disabled>{t('create.selectStyle')}</option>
+                                {STYLE_OPTIONS[createFunction].map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
                             </select>
                         </div>
                     </div>
                 )}
-                 <div>
-                    <label className="block text-xs font-medium text-zinc-400 mb-1">Proporção</label>
+                {!isComicPage && <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-1">{t('create.variations')}</label>
+                    <div className="flex bg-zinc-800 rounded-md p-1 gap-1">
+                        {BATCH_SIZE_OPTIONS.map(option => (
+                            <button key={option} type="button" onClick={() => setCreateState(s => ({ ...s, count: option }))} className={`flex-1 py-1 text-xs font-semibold rounded transition-colors ${count === option ? 'bg-zinc-600 text-white' : 'text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}>{option}</button>
+                        ))}
+                    </div>
+                </div>}
+                {!isComicPage && <div>
+                    <label className="block text-xs font-medium text-zinc-400 mb-1">{t('create.aspectRatio')}</label>
                     <div className="custom-select-wrapper">
-                        <select value={aspectRatio} onChange={(e) => setCreateState(s => ({ ...s, aspectRatio: e.target.value }))} className="custom-select" aria-label="Proporção">
+                        <select value={aspectRatio} onChange={(e) => setCreateState(s => ({ ...s, aspectRatio: e.target.value }))} className="custom-select" aria-label={t('create.aspectRatio')}>
                             {ALL_SUPPORTED_ASPECT_RATIOS.map((group) => (
-                                <optgroup label={group.label} key={group.label}>{group.options.map((ratio) => <option key={ratio} value={ratio}>{ratio}</option>)}</optgroup>
+                                <optgroup label={t(group.labelKey)} key={group.labelKey}>{group.options.map((ratio) => <option key={ratio} value={ratio}>{ratio}</option>)}</optgroup>
                             ))}
                         </select>
                     </div>
-                </div>
+                </div>}
                 {(createFunction === 'free' || createFunction === 'comic') && (
                     <div className="grid grid-cols-2 gap-3 pt-2 border-t border-zinc-800/50">
                         <div className="col-span-2">
-                            <label className="block text-xs font-medium text-zinc-400 mb-1">Iluminação</label>
-                            <div className="custom-select-wrapper"><select value={lightingStyle} onChange={(e) => setCreateState(s => ({ ...s, lightingStyle: e.target.value }))} className="custom-select" aria-label="Iluminação">{LIGHTING_STYLE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}</select></div>
+                            <label className="block text-xs font-medium text-zinc-400 mb-1">{t('create.lighting')}</label>
+                            <div className="custom-select-wrapper"><select value={lightingStyle} onChange={(e) => setCreateState(s => ({ ...s, lightingStyle: e.target.value }))} className="custom-select" aria-label={t('create.lighting')}>{LIGHTING_STYLE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}</select></div>
                         </div>
                         <div className={createFunction === 'comic' ? '' : 'col-span-2'}>
-                            <label className="block text-xs font-medium text-zinc-400 mb-1">Ângulo</label>
-                            <div className="custom-select-wrapper"><select value={cameraAngle} onChange={(e) => setCreateState(s => ({ ...s, cameraAngle: e.target.value }))} className="custom-select" aria-label="Ângulo da Câmera">{CAMERA_ANGLE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}</select></div>
+                            <label className="block text-xs font-medium text-zinc-400 mb-1">{t('create.angle')}</label>
+                            <div className="custom-select-wrapper"><select value={cameraAngle} onChange={(e) => setCreateState(s => ({ ...s, cameraAngle: e.target.value }))} className="custom-select" aria-label={t('create.cameraAngle')}>{CAMERA_ANGLE_OPTIONS.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}</select></div>
                         </div>
                         {createFunction === 'comic' && (
                            <div>
-                               <label className="block text-xs font-medium text-zinc-400 mb-1">Paleta</label>
+                               <label className="block text-xs font-medium text-zinc-400 mb-1">{t('create.palette')}</label>
                                <div className="flex items-center h-[calc(100%-1.125rem)] gap-1 bg-zinc-800 p-1 rounded-md">
-                                   <button onClick={() => setCreateState(s => ({ ...s, comicColorPalette: 'vibrant' }))} className={`w-1/2 text-center text-xs font-semibold py-1 rounded transition-colors ${comicColorPalette === 'vibrant' ? 'bg-zinc-600 text-white' : 'hover:bg-zinc-700 text-zinc-300'}`}>Vibrante</button>
-                                   <button onClick={() => setCreateState(s => ({ ...s, comicColorPalette: 'noir' }))} className={`w-1/2 text-center text-xs font-semibold py-1 rounded transition-colors ${comicColorPalette === 'noir' ? 'bg-zinc-600 text-white' : 'hover:bg-zinc-700 text-zinc-300'}`}>Noir</button>
+                                   <button onClick={() => setCreateState(s => ({ ...s, comicColorPalette: 'vibrant' }))} className={`w-1/2 text-center text-xs font-semibold py-1 rounded transition-colors ${comicColorPalette === 'vibrant' ? 'bg-zinc-600 text-white' : 'hover:bg-zinc-700 text-zinc-300'}`}>{t('create.palette.vibrant')}</button>
+                                   <button onClick={() => setCreateState(s => ({ ...s, comicColorPalette: 'noir' }))} className={`w-1/2 text-center text-xs font-semibold py-1 rounded transition-colors ${comicColorPalette === 'noir' ? 'bg-zinc-600 text-white' : 'hover:bg-zinc-700 text-zinc-300'}`}>{t('create.palette.noir')}</button>
                                </div>
                            </div>
                        )}
@@ -264,68 +1449,98 @@ const Sidebar: React.FC<{
     };
 
     const handleAddReference = (image: UploadedImage, previewUrl: string) => {
-        const newRef: ReferenceLayer = {
-            id: `ref-${Date.now()}`,
-            image,
-            previewUrl,
-            x: 50, y: 50,
-            width: 200, height: 200,
-            rotation: 0,
-            zIndex: editState.references.length,
-        };
-        setEditState(s => ({ ...s, references: [...s.references, newRef], activeReferenceId: newRef.id }));
+        // Layers are drawn stretched to their box, so start with the image's own proportions
+        loadImage(previewUrl).then(img => {
+            const newRef: Omit<ReferenceLayer, 'zIndex'> = {
+                id: `ref-${Date.now()}`,
+                image,
+                previewUrl,
+                x: 50, y: 50,
+                width: 200, height: img.naturalWidth > 0 ? 200 * img.naturalHeight / img.naturalWidth : 200,
+                rotation: 0,
+                flipX: false,
+                flipY: false,
+                opacity: 1,
+                instruction: '',
+            };
+            layerHistory.commitLayerChange('add', newRef.id, refs => [...refs, { ...newRef, zIndex: Math.max(-1, ...refs.map(r => r.zIndex)) + 1 }]);
+            setEditState(s => ({ ...s, activeReferenceId: newRef.id }));
+        }).catch(setError);
     };
 
     const handleRemoveReference = (id: string) => {
-        setEditState(s => ({...s, references: s.references.filter(r => r.id !== id) }));
+        layerHistory.commitLayerChange('delete', id, refs => refs.filter(r => r.id !== id));
     }
 
+    const handleLayerTransform = (id: string, type: LayerCommandType, updates: Partial<ReferenceLayer>, merge: boolean) => {
+        layerHistory.commitLayerChange(type, id, refs => refs.map(r => r.id === id ? { ...r, ...updates } : r), { merge });
+    };
+
     const handleBringToFront = (id: string) => {
-        const maxZ = Math.max(-1, ...editState.references.map(r => r.zIndex));
-        setEditState(s => ({
-            ...s,
-            references: s.references.map(r => r.id === id ? { ...r, zIndex: maxZ + 1 } : r)
-        }));
+        layerHistory.commitLayerChange('reorder', id, refs => {
+            const maxZ = Math.max(-1, ...refs.map(r => r.zIndex));
+            return refs.map(r => r.id === id ? { ...r, zIndex: maxZ + 1 } : r);
+        });
     };
 
     const renderEditControls = () => {
-        const { backgroundPreviewUrl, references } = editState;
+        const { backgroundPreviewUrl, references, editFunction } = editState;
+        const transformLayer = references.find(r => r.id === transformLayerId);
         const handleBackgroundUpload = (file: File) => {
             processSingleFile(file, (img, url) => {
-                setEditState(s => ({ ...s, background: img, backgroundPreviewUrl: url, references: [] }));
+                setEditState(s => ({ ...s, background: img, backgroundPreviewUrl: url, references: [], mask: null, adjustments: DEFAULT_ADJUSTMENTS }));
             });
         };
         const handleBackgroundRemove = () => {
-            setEditState(s => ({ ...s, background: null, backgroundPreviewUrl: null, references: [] }));
+            setEditState(s => ({ ...s, background: null, backgroundPreviewUrl: null, references: [], mask: null, adjustments: DEFAULT_ADJUSTMENTS }));
         };
         
         return (
              <div className="space-y-4">
                 <div>
-                    <label className="block text-xs font-medium text-zinc-400 mb-1">Imagens de Base</label>
+                    <label className="block text-xs font-medium text-zinc-400 mb-1">{t('edit.baseImages')}</label>
                     <div className="flex items-stretch gap-3 h-24">
-                        <div className="w-1/2">
-                            <ImageUploadSlot id="bg-upload" label="Fundo" icon={<Icons.Wallpaper className="text-2xl" />} imagePreviewUrl={backgroundPreviewUrl} onUpload={handleBackgroundUpload} onRemove={handleBackgroundRemove} className="h-full" />
-                        </div>
-                        <div className="w-1/2">
-                            <ImageUploadSlot id="ref-upload" label="Referência" icon={<Icons.AddPhoto className="text-2xl" />} imagePreviewUrl={null} onUpload={(file) => processSingleFile(file, handleAddReference)} className="h-full" isMultiple={true}/>
+                        <div className={editFunction === 'montage' ? 'w-1/2' : 'w-full'}>
+                            <ImageUploadSlot id="bg-upload" label={t('edit.background')} icon={<Icons.Wallpaper className="text-2xl" />} imagePreviewUrl={backgroundPreviewUrl} onUpload={handleBackgroundUpload} onRemove={handleBackgroundRemove} className="h-full" />
                         </div>
+                        {editFunction === 'montage' && (
+                            <div className="w-1/2">
+                                <ImageUploadSlot id="ref-upload" label={t('edit.reference')} icon={<Icons.AddPhoto className="text-2xl" />} imagePreviewUrl={null} onUpload={(file) => processSingleFile(file, handleAddReference)} className="h-full" isMultiple={true}/>
+                            </div>
+                        )}
                     </div>
                 </div>
+                {editFunction === 'inpaint' && backgroundPreviewUrl && (
+                    <p className={`text-xs ${editState.mask ? 'text-zinc-400' : 'text-amber-400'}`}>
+                        {editState.mask ? t('edit.maskReady') : t('edit.maskHint')}
+                    </p>
+                )}
+                {editFunction === 'adjust' && backgroundPreviewUrl && (
+                    <AdjustmentsPanel adjustments={editState.adjustments} onChange={updates => setEditState(s => ({ ...s, adjustments: { ...s.adjustments, ...updates } }))} />
+                )}
+                {editFunction === 'extend' && backgroundPreviewUrl && (
+                    <CanvasExtensionPanel extension={editState.extension} onChange={updates => setEditState(s => ({ ...s, extension: { ...s.extension, ...updates } }))} />
+                )}
                 
                 {references.length > 0 && (
                     <div className="space-y-2">
-                        <h4 className="text-xs font-medium text-zinc-400">Camadas</h4>
-                        <ul className="max-h-32 overflow-y-auto space-y-1 pr-1 custom-scrollbar">
+                        <h4 className="text-xs font-medium text-zinc-400">{t('edit.layers')}</h4>
+                        <ul className="max-h-56 overflow-y-auto space-y-1 pr-1 custom-scrollbar">
                             {references.slice().sort((a,b) => b.zIndex - a.zIndex).map(ref => (
-                                <li key={ref.id} className={`flex items-center gap-2 p-1.5 rounded-md transition-colors border border-transparent ${editState.activeReferenceId === ref.id ? 'bg-blue-900/30 border-blue-800' : 'bg-zinc-800 hover:bg-zinc-700'}`}>
-                                    <img src={ref.previewUrl} className="w-8 h-8 object-cover rounded bg-zinc-950" alt="ref thumbnail"/>
-                                    <span className="flex-1 text-xs text-zinc-300 truncate">Camada {ref.zIndex}</span>
-                                    <button onClick={() => handleBringToFront(ref.id)} title="Trazer para frente" className="p-1 hover:bg-zinc-600 rounded text-zinc-400 hover:text-zinc-200"><Icons.BringToFront className="!text-base" /></button>
-                                    <button onClick={() => handleRemoveReference(ref.id)} title="Remover" className="p-1 text-zinc-500 hover:text-red-400 hover:bg-zinc-600 rounded"><Icons.Delete className="!text-base" /></button>
+                                <li key={ref.id} className={`p-1.5 space-y-1.5 rounded-md transition-colors border border-transparent ${editState.activeReferenceId === ref.id ? 'bg-blue-900/30 border-blue-800' : 'bg-zinc-800 hover:bg-zinc-700'}`}>
+                                    <div className="flex items-center gap-2">
+                                        <img src={ref.previewUrl} className="w-8 h-8 object-cover rounded bg-zinc-950" alt={t('edit.layerThumbnail')}/>
+                                        <span className="flex-1 text-xs text-zinc-300 truncate">{t('edit.layer', { index: ref.zIndex })}</span>
+                                        <button onClick={() => { setTransformLayerId(id => id === ref.id ? null : ref.id); setEditState(s => ({ ...s, activeReferenceId: ref.id })); }} title={t('edit.transform')} className={`p-1 hover:bg-zinc-600 rounded ${transformLayerId === ref.id ? 'text-blue-400' : 'text-zinc-400 hover:text-zinc-200'}`}><Icons.Transform className="!text-base" /></button>
+                                        <button onClick={() => handleBringToFront(ref.id)} title={t('edit.bringToFront')} className="p-1 hover:bg-zinc-600 rounded text-zinc-400 hover:text-zinc-200"><Icons.BringToFront className="!text-base" /></button>
+                                        <button onClick={() => handleRemoveReference(ref.id)} title={t('common.remove')} className="p-1 text-zinc-500 hover:text-red-400 hover:bg-zinc-600 rounded"><Icons.Delete className="!text-base" /></button>
+                                    </div>
+                                    {/* Typing is merged into one undo step per pause, like the transform fields */}
+                                    <input type="text" value={ref.instruction} onChange={(e) => handleLayerTransform(ref.id, 'instruction', { instruction: e.target.value }, true)} placeholder={t('edit.layerInstruction')} aria-label={t('edit.layerInstruction')} className="w-full bg-zinc-900/70 rounded px-2 py-1 text-xs text-zinc-200 placeholder-zinc-500 focus:outline-none focus:ring-1 focus:ring-blue-600/50" />
                                 </li>
                             ))}
                         </ul>
+                        {transformLayer && <LayerTransformPanel layer={transformLayer} onChange={(type, updates, merge) => handleLayerTransform(transformLayer.id, type, updates, merge)} />}
                     </div>
                 )}
             </div>
@@ -335,58 +1550,89 @@ const Sidebar: React.FC<{
     return (
         <aside className="app-sidebar bg-zinc-950 border-l border-zinc-800 flex flex-col overflow-hidden shadow-xl z-10">
             <div className="flex-1 overflow-y-auto min-h-0 custom-scrollbar">
-                <PanelSection title="Configurações" icon={<Icons.Settings />} defaultOpen={true}>
+                <PanelSection title={t('sidebar.settings')} icon={<Icons.Settings />} defaultOpen={true}>
                     {mode === 'create' && renderCreateControls()}
                     {mode === 'edit' && renderEditControls()}
                     {mode === 'video' && (
                         <div className="space-y-4">
                              <div className="bg-zinc-900/50 p-2 rounded-lg border border-zinc-800">
-                                <label className="block text-xs font-medium text-blue-400 mb-1.5">Qualidade (Veo 3.1)</label>
+                                <label className="block text-xs font-medium text-blue-400 mb-1.5">{t('video.quality')}</label>
                                 <div className="custom-select-wrapper">
-                                    <select value={videoState.videoResolution} onChange={(e) => setVideoState(s => ({ ...s, videoResolution: e.target.value as any }))} className="custom-select !bg-zinc-900 !border-zinc-700 focus:!border-blue-500" aria-label="Resolução de Vídeo">
-                                        {VIDEO_RESOLUTIONS.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                                    <select value={videoState.videoResolution} onChange={(e) => setVideoState(s => ({ ...s, videoResolution: e.target.value as any }))} className="custom-select !bg-zinc-900 !border-zinc-700 focus:!border-blue-500" aria-label={t('video.resolution')}>
+                                        {VIDEO_RESOLUTIONS.map(opt => <option key={opt.value} value={opt.value}>{t(opt.labelKey)}</option>)}
                                     </select>
                                 </div>
                             </div>
-                            {videoState.videoFunction === 'animation' && (
-                                <div className="h-32">
-                                    <ImageUploadSlot id="start-frame-upload" label="Imagem Inicial" icon={<Icons.UploadCloud className="text-3xl" />} imagePreviewUrl={videoState.startFramePreviewUrl} onUpload={(file) => processSingleFile(file, (img, url) => setVideoState(s => ({ ...s, startFrame: img, startFramePreviewUrl: url })))} onRemove={() => setVideoState(s => ({ ...s, startFrame: null, startFramePreviewUrl: null }))} className="h-full" />
+                            <div>
+                                <label className="block text-xs font-medium text-zinc-400 mb-1">{t('video.aspectRatio')}</label>
+                                <div className="flex bg-zinc-800 rounded-md p-1 gap-1">
+                                    {VIDEO_ASPECT_RATIOS.map(option => (
+                                        <button key={option.value} type="button" onClick={() => setVideoState(s => ({ ...s, aspectRatio: option.value }))} className={`flex-1 py-1 text-xs font-semibold rounded transition-colors ${videoState.aspectRatio === option.value ? 'bg-zinc-600 text-white' : 'text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}>{t(option.labelKey)}</button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-medium text-zinc-400 mb-1">{t('video.duration')}</label>
+                                <div className="flex bg-zinc-800 rounded-md p-1 gap-1">
+                                    {VIDEO_DURATIONS.map(seconds => (
+                                        <button key={seconds} type="button" onClick={() => setVideoState(s => ({ ...s, durationSeconds: seconds }))} className={`flex-1 py-1 text-xs font-semibold rounded transition-colors ${videoState.durationSeconds === seconds ? 'bg-zinc-600 text-white' : 'text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}>{t('video.seconds', { seconds })}</button>
+                                    ))}
                                 </div>
+                            </div>
+                            {!isStoryboard && <div>
+                                <label className="block text-xs font-medium text-zinc-400 mb-1">{t('video.takes')}</label>
+                                <div className="flex bg-zinc-800 rounded-md p-1 gap-1">
+                                    {VIDEO_TAKE_OPTIONS.map(option => (
+                                        <button key={option} type="button" onClick={() => setVideoState(s => ({ ...s, count: option }))} className={`flex-1 py-1 text-xs font-semibold rounded transition-colors ${videoState.count === option ? 'bg-zinc-600 text-white' : 'text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}>{option}</button>
+                                    ))}
+                                </div>
+                            </div>}
+                            {isStoryboard && renderStoryboardControls()}
+                            {videoState.videoFunction === 'animation' && (
+                                <>
+                                    <div className="grid grid-cols-2 gap-2 h-32">
+                                        <ImageUploadSlot id="start-frame-upload" label={t('video.startFrame')} icon={<Icons.UploadCloud className="text-3xl" />} imagePreviewUrl={videoState.startFramePreviewUrl} onUpload={(file) => processSingleFile(file, (img, url) => setVideoState(s => ({ ...s, startFrame: img, startFramePreviewUrl: url })))} onRemove={() => setVideoState(s => ({ ...s, startFrame: null, startFramePreviewUrl: null }))} className="h-full" />
+                                        <ImageUploadSlot id="end-frame-upload" label={t('video.endFrame')} icon={<Icons.UploadCloud className="text-3xl" />} imagePreviewUrl={videoState.endFramePreviewUrl} onUpload={(file) => processSingleFile(file, (img, url) => setVideoState(s => ({ ...s, endFrame: img, endFramePreviewUrl: url })))} onRemove={() => setVideoState(s => ({ ...s, endFrame: null, endFramePreviewUrl: null }))} className="h-full" />
+                                    </div>
+                                    <p className="text-[10px] text-zinc-500">{t('video.endFrameHint')}</p>
+                                </>
                             )}
                         </div>
                     )}
                 </PanelSection>
-                {history.length > 0 && (
-                     <PanelSection title="Histórico" icon={<Icons.History />} defaultOpen={true}>
-                         <div className="grid grid-cols-4 gap-2">
-                             {history.map((entry, index) => (
-                                 <HistoryCard 
-                                    key={entry.id}
-                                    entry={entry}
-                                    index={index}
-                                    isActive={index === historyIndex}
-                                    onClick={handleHistoryNavigation}
-                                 />
-                             ))}
-                         </div>
+                {mode === 'create' && (
+                    <PanelSection title={t('sidebar.presets')} icon={<Icons.Bookmark />} defaultOpen={false}>
+                        <PresetLibrary presets={presets} onApply={handlePresetApply} onSave={handlePresetSave} onDelete={handlePresetDelete} onExport={handlePresetsExport} onImport={handlePresetsImport} />
+                    </PanelSection>
+                )}
+                {sessions.length > 0 && (
+                     <PanelSection title={t('sidebar.history')} icon={<Icons.History />} defaultOpen={true}>
+                         <SessionBar sessions={sessions} activeSessionId={activeSessionId} onSelect={handleSessionSelect} onCreate={handleSessionCreate} onRename={handleSessionRename} onDelete={handleSessionDelete} />
+                         {history.some(entry => entry.mode === mode) ? (
+                             <HistoryTreeView history={history} mode={mode} activeIndex={historyIndex} onSelect={handleHistoryNavigation} />
+                         ) : (
+                             <p className="text-xs text-zinc-500">{t('sidebar.historyEmpty')}</p>
+                         )}
                      </PanelSection>
                  )}
             </div>
             <div className="shrink-0 border-t border-zinc-800 bg-zinc-900/50 p-3 space-y-3">
-                {(mode === 'create' || mode === 'edit') && (
+                {!isAdjusting && (
                     <div className="relative">
-                        <div className="absolute -top-2 left-2 bg-zinc-950 px-1 text-[10px] font-bold text-zinc-500">NEGATIVO</div>
-                         <textarea ref={negativeTextareaRef} value={negativePromptValue} onChange={(e) => handleNegativePromptChange(e.target.value)} placeholder="O que evitar..." rows={1} className="w-full bg-zinc-900 border border-zinc-800 rounded-lg p-2 text-xs text-zinc-300 placeholder-zinc-600 focus:outline-none focus:ring-1 focus:ring-red-900 focus:border-red-900 resize-none transition-all" disabled={isLoading} />
+                        <div className="absolute -top-2 left-2 bg-zinc-950 px-1 text-[10px] font-bold text-zinc-500">{t('sidebar.negative')}</div>
+                         <textarea ref={negativeTextareaRef} value={negativePromptValue} onChange={(e) => handleNegativePromptChange(e.target.value)} placeholder={t('sidebar.negativePlaceholder')} rows={1} className="w-full bg-zinc-900 border border-zinc-800 rounded-lg p-2 text-xs text-zinc-300 placeholder-zinc-600 focus:outline-none focus:ring-1 focus:ring-red-900 focus:border-red-900 resize-none transition-all" />
                     </div>
                 )}
                 <div>
                      <form onSubmit={handleSubmit} className="space-y-3">
-                        <textarea ref={textareaRef} value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder={ mode === 'create' ? "Descreva sua imaginação em detalhes..." : (mode === 'edit' ? "Descreva as alterações..." : "Descreva a cena do vídeo...") } rows={3} className="w-full bg-zinc-800 rounded-lg p-3 text-sm text-zinc-200 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-600/50 resize-none transition-shadow shadow-inner" disabled={isLoading} />
-                         <button type="submit" disabled={isLoading || (mode === 'edit' && editState.references.length > 0) || !prompt.trim()} className={`w-full flex items-center justify-center gap-2 py-3 px-3 bg-gradient-to-r rounded-lg text-white font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-blue-900/30 active:scale-[0.98] ${mode === 'create' && createState.model === 'pro' ? 'from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500' : 'from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500'}`}>
-                             {isLoading ? <Icons.Spinner /> : <Icons.Sparkles className="!text-lg" />}<span>{mode === 'create' ? (createState.model === 'pro' ? 'Gerar Ultra' : 'Gerar Flash') : (mode === 'video' ? 'Gerar Veo' : 'Editar')}</span>
+                        {templateVariables.length > 0 && <TemplateVariablesForm variables={templateVariables} values={templateValues} onChange={(name, value) => setTemplateValues(v => ({ ...v, [name]: value }))} />}
+                        {!isAdjusting && <textarea ref={textareaRef} value={prompt} onChange={(e) => setPrompt(e.target.value)} placeholder={ mode === 'create' ? (isComicPage ? t('sidebar.prompt.comicPage') : t('sidebar.prompt.create')) : (mode === 'edit' ? (isMontage ? t('sidebar.prompt.montage') : editState.editFunction === 'inpaint' ? t('sidebar.prompt.inpaint') : isExtending ? t('sidebar.prompt.extend') : t('sidebar.prompt.edit')) : (isStoryboard ? t('sidebar.prompt.storyboard') : t('sidebar.prompt.video'))) } rows={3} className="w-full bg-zinc-800 rounded-lg p-3 text-sm text-zinc-200 placeholder-zinc-500 focus:outline-none focus:ring-2 focus:ring-blue-600/50 resize-none transition-shadow shadow-inner" />}
+                         <button type="submit" disabled={isAdjusting ? !hasAdjustments(editState.adjustments) : !prompt.trim() && !isComicPage && !isMontage && !isStoryboard && !isExtending} className={`w-full flex items-center justify-center gap-2 py-3 px-3 bg-gradient-to-r rounded-lg text-white font-bold transition-all disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-blue-900/30 active:scale-[0.98] ${mode === 'create' && createState.model === 'pro' ? 'from-purple-600 to-indigo-600 hover:from-purple-500 hover:to-indigo-500' : 'from-blue-600 to-cyan-600 hover:from-blue-500 hover:to-cyan-500'}`}>
+                             <Icons.Sparkles className="!text-lg" /><span>{mode === 'create' ? (isComicPage ? t('sidebar.submit.comicPage') : createState.model === 'pro' ? t('sidebar.submit.ultra') : t('sidebar.submit.flash')) : (mode === 'video' ? (isStoryboard ? t('sidebar.submit.storyboard') : t('sidebar.submit.video')) : isMontage ? t('sidebar.submit.montage') : isAdjusting ? t('sidebar.submit.adjust') : isExtending ? t('sidebar.submit.extend') : t('sidebar.submit.edit'))}</span>
+                             {activeJobCount > 0 && <span className="flex items-center gap-1 text-[10px] font-semibold bg-black/25 px-1.5 py-0.5 rounded-full"><Icons.Spinner className="!h-3 !w-3" />{t('sidebar.queued', { count: activeJobCount })}</span>}
                          </button>
                     </form>
-                     {error && <div className="mt-2 p-2 bg-red-950/50 border border-red-900/50 text-red-300 text-xs rounded-lg flex items-start gap-2 animate-fadeIn"><Icons.AlertCircle className="shrink-0 mt-0.5 !text-base text-red-500" /><span>{error}</span><button onClick={() => setError(null)} className="ml-auto p-0.5 text-red-400 hover:text-white"><Icons.Close className="!text-base" /></button></div>}
+                     {!!error && <div className="mt-2 p-2 bg-red-950/50 border border-red-900/50 text-red-300 text-xs rounded-lg flex items-start gap-2 animate-fadeIn"><Icons.AlertCircle className="shrink-0 mt-0.5 !text-base text-red-500" /><span>{describeError(t, error)}</span><button onClick={() => setError(null)} className="ml-auto p-0.5 text-red-400 hover:text-white"><Icons.Close className="!text-base" /></button></div>}
                 </div>
             </div>
         </aside>
@@ -397,15 +1643,24 @@ const Sidebar: React.FC<{
 const ReferenceItem: React.FC<{
     item: ReferenceLayer;
     isSelected: boolean;
+    zoom: number;
     onSelect: (id: string, e: React.MouseEvent) => void;
     onUpdate: (id: string, updates: Partial<ReferenceLayer>) => void;
-}> = ({ item, isSelected, onSelect, onUpdate }) => {
+    onGestureStart: (type: LayerCommandType, id: string) => void;
+    onGestureEnd: () => void;
+}> = ({ item, isSelected, zoom, onSelect, onUpdate, onGestureStart, onGestureEnd }) => {
+    const { t } = useI18n();
     const ref = useRef<HTMLDivElement>(null);
     // Use a ref to hold the latest item state to avoid stale closures in event listeners
     const itemStateRef = useRef(item);
     useEffect(() => {
         itemStateRef.current = item;
     }, [item]);
+    // Mouse deltas are in screen pixels; layer coordinates live in the unscaled canvas space
+    const zoomRef = useRef(zoom);
+    useEffect(() => {
+        zoomRef.current = zoom;
+    }, [zoom]);
 
     // Effect for handling dragging logic
     useEffect(() => {
@@ -413,22 +1668,25 @@ const ReferenceItem: React.FC<{
         if (!isSelected || !handle) return;
 
         const onDragMouseDown = (e: MouseEvent) => {
-            // Do not start a drag if a resize handle was the target
-            if ((e.target as HTMLElement).dataset.resizeHandle) return;
+            // Do not start a drag if a resize or rotate handle was the target
+            const target = e.target as HTMLElement;
+            if (target.dataset.resizeHandle || target.dataset.rotateHandle) return;
             e.stopPropagation();
 
             const startMouse = { x: e.clientX, y: e.clientY };
             const initialPos = { x: itemStateRef.current.x, y: itemStateRef.current.y };
+            onGestureStart('move', itemStateRef.current.id);
             
             const onDragMouseMove = (moveEvent: MouseEvent) => {
-                const dx = moveEvent.clientX - startMouse.x;
-                const dy = moveEvent.clientY - startMouse.y;
+                const dx = (moveEvent.clientX - startMouse.x) / zoomRef.current;
+                const dy = (moveEvent.clientY - startMouse.y) / zoomRef.current;
                 onUpdate(itemStateRef.current.id, { x: initialPos.x + dx, y: initialPos.y + dy });
             };
 
             const onDragMouseUp = () => {
                 window.removeEventListener('mousemove', onDragMouseMove);
                 window.removeEventListener('mouseup', onDragMouseUp);
+                onGestureEnd();
             };
 
             window.addEventListener('mousemove', onDragMouseMove);
@@ -440,63 +1698,116 @@ const ReferenceItem: React.FC<{
         return () => {
             handle.removeEventListener('mousedown', onDragMouseDown);
         };
-    }, [isSelected, onUpdate]);
+    }, [isSelected, onUpdate, onGestureStart, onGestureEnd]);
 
-    // Handler for starting a resize operation
+    // Handler for starting a resize operation.
+    // Corner handles keep the aspect ratio, edge handles resize a single axis freely.
     const handleResizeMouseDown = (e: React.MouseEvent, handleName: string) => {
         e.stopPropagation();
         e.preventDefault();
 
         const startMouse = { x: e.clientX, y: e.clientY };
-        const { x, y, width, height } = itemStateRef.current;
+        const { x, y, width, height, rotation } = itemStateRef.current;
         const aspectRatio = width / height;
+        const isCorner = handleName.length === 2;
+        const angle = rotation * Math.PI / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const center = { x: x + width / 2, y: y + height / 2 };
+        onGestureStart('resize', itemStateRef.current.id);
 
         const onResizeMouseMove = (moveEvent: MouseEvent) => {
-            const dx = moveEvent.clientX - startMouse.x;
-            const dy = moveEvent.clientY - startMouse.y;
-            const updates: Partial<ReferenceLayer> = {};
+            const screenDx = (moveEvent.clientX - startMouse.x) / zoomRef.current;
+            const screenDy = (moveEvent.clientY - startMouse.y) / zoomRef.current;
+            // Project the mouse movement onto the layer's own (rotated) axes
+            const dx = screenDx * cos + screenDy * sin;
+            const dy = -screenDx * sin + screenDy * cos;
 
-            let newWidth: number;
+            let newWidth = width;
+            let newHeight = height;
 
-            // Determine new width based on the primary axis of mouse movement to feel natural
-            if (Math.abs(dx) > Math.abs(dy)) {
-                newWidth = width + (handleName.includes('w') ? -dx : dx);
+            if (isCorner) {
+                // Determine new width based on the primary axis of mouse movement to feel natural
+                if (Math.abs(dx) > Math.abs(dy)) {
+                    newWidth = width + (handleName.includes('w') ? -dx : dx);
+                } else {
+                    const heightChange = height + (handleName.includes('n') ? -dy : dy);
+                    newWidth = heightChange * aspectRatio;
+                }
+                newWidth = Math.max(MIN_LAYER_SIZE, newWidth);
+                newHeight = newWidth / aspectRatio;
+            } else if (handleName === 'e' || handleName === 'w') {
+                newWidth = Math.max(MIN_LAYER_SIZE, width + (handleName === 'w' ? -dx : dx));
             } else {
-                const heightChange = height + (handleName.includes('n') ? -dy : dy);
-                newWidth = heightChange * aspectRatio;
+                newHeight = Math.max(MIN_LAYER_SIZE, height + (handleName === 'n' ? -dy : dy));
             }
-            
-            newWidth = Math.max(20, newWidth);
-            const newHeight = newWidth / aspectRatio;
-            
-            updates.width = newWidth;
-            updates.height = newHeight;
 
-            // Adjust position for handles on the top or left edges
-            if (handleName.includes('n')) {
-                updates.y = y + (height - newHeight);
-            }
-            if (handleName.includes('w')) {
-                updates.x = x + (width - newWidth);
-            }
-            
-            onUpdate(itemStateRef.current.id, updates);
-        };
+            // Keep the opposite edge fixed by shifting the center along the rotated axes
+            const localShiftX = handleName.includes('e') ? (newWidth - width) / 2 : handleName.includes('w') ? -(newWidth - width) / 2 : 0;
+            const localShiftY = handleName.includes('s') ? (newHeight - height) / 2 : handleName.includes('n') ? -(newHeight - height) / 2 : 0;
+            const newCenterX = center.x + localShiftX * cos - localShiftY * sin;
+            const newCenterY = center.y + localShiftX * sin + localShiftY * cos;
+
+            onUpdate(itemStateRef.current.id, {
+                width: newWidth,
+                height: newHeight,
+                x: newCenterX - newWidth / 2,
+                y: newCenterY - newHeight / 2,
+            });
+        };
 
         const onResizeMouseUp = () => {
             window.removeEventListener('mousemove', onResizeMouseMove);
             window.removeEventListener('mouseup', onResizeMouseUp);
+            onGestureEnd();
         };
 
         window.addEventListener('mousemove', onResizeMouseMove);
         window.addEventListener('mouseup', onResizeMouseUp);
     };
 
+    // Handler for the rotate handle; holding Shift snaps to 15° steps
+    const handleRotateMouseDown = (e: React.MouseEvent) => {
+        e.stopPropagation();
+        e.preventDefault();
+        const element = ref.current;
+        if (!element) return;
+
+        // The bounding box center of a rotated element is still its rotation center
+        const rect = element.getBoundingClientRect();
+        const center = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+        const startAngle = Math.atan2(e.clientY - center.y, e.clientX - center.x);
+        const initialRotation = itemStateRef.current.rotation;
+        onGestureStart('rotate', itemStateRef.current.id);
+
+        const onRotateMouseMove = (moveEvent: MouseEvent) => {
+            const angle = Math.atan2(moveEvent.clientY - center.y, moveEvent.clientX - center.x);
+            let rotation = initialRotation + (angle - startAngle) * 180 / Math.PI;
+            if (moveEvent.shiftKey) {
+                rotation = Math.round(rotation / ROTATION_SNAP_DEGREES) * ROTATION_SNAP_DEGREES;
+            }
+            onUpdate(itemStateRef.current.id, { rotation: normalizeRotation(rotation) });
+        };
+
+        const onRotateMouseUp = () => {
+            window.removeEventListener('mousemove', onRotateMouseMove);
+            window.removeEventListener('mouseup', onRotateMouseUp);
+            onGestureEnd();
+        };
+
+        window.addEventListener('mousemove', onRotateMouseMove);
+        window.addEventListener('mouseup', onRotateMouseUp);
+    };
+
     const resizeHandles = [
-        { name: 'nw', className: 'cursor-nwse-resize -top-1.5 -left-1.5' },
-        { name: 'ne', className: 'cursor-nesw-resize -top-1.5 -right-1.5' },
-        { name: 'sw', className: 'cursor-nesw-resize -bottom-1.5 -left-1.5' },
-        { name: 'se', className: 'cursor-nwse-resize -bottom-1.5 -right-1.5' },
+        { name: 'nw', className: 'cursor-nwse-resize -top-1.5 -left-1.5 w-3 h-3 rounded-full' },
+        { name: 'ne', className: 'cursor-nesw-resize -top-1.5 -right-1.5 w-3 h-3 rounded-full' },
+        { name: 'sw', className: 'cursor-nesw-resize -bottom-1.5 -left-1.5 w-3 h-3 rounded-full' },
+        { name: 'se', className: 'cursor-nwse-resize -bottom-1.5 -right-1.5 w-3 h-3 rounded-full' },
+        { name: 'n', className: 'cursor-ns-resize -top-1 left-1/2 -translate-x-1/2 w-4 h-2 rounded-sm' },
+        { name: 's', className: 'cursor-ns-resize -bottom-1 left-1/2 -translate-x-1/2 w-4 h-2 rounded-sm' },
+        { name: 'w', className: 'cursor-ew-resize -left-1 top-1/2 -translate-y-1/2 w-2 h-4 rounded-sm' },
+        { name: 'e', className: 'cursor-ew-resize -right-1 top-1/2 -translate-y-1/2 w-2 h-4 rounded-sm' },
     ];
     
     return (
@@ -514,16 +1825,28 @@ const ReferenceItem: React.FC<{
                 cursor: 'pointer',
             }}
         >
-            <img src={item.previewUrl} alt={`ref-${item.id}`} className="w-full h-full object-contain pointer-events-none select-none" />
+            <img
+                src={item.previewUrl}
+                alt={`ref-${item.id}`}
+                className="w-full h-full object-fill pointer-events-none select-none"
+                style={{ opacity: item.opacity, transform: `scale(${item.flipX ? -1 : 1}, ${item.flipY ? -1 : 1})` }}
+            />
             {isSelected && (
                 <>
                     <div className="absolute -inset-0.5 border-2 border-blue-500 pointer-events-none" style={{ cursor: 'move' }}></div>
+                    <div className="absolute left-1/2 -top-6 h-5 w-px bg-blue-500 pointer-events-none"></div>
+                    <div
+                        data-rotate-handle="true"
+                        onMouseDown={handleRotateMouseDown}
+                        title={t('layer.rotateHandle')}
+                        className="absolute -top-8 left-1/2 -translate-x-1/2 w-3.5 h-3.5 bg-blue-500 border-2 border-white rounded-full cursor-grab"
+                    />
                     {resizeHandles.map(handle => (
                          <div
                             key={handle.name}
                             data-resize-handle={handle.name}
                             onMouseDown={(e) => handleResizeMouseDown(e, handle.name)}
-                            className={`absolute w-3 h-3 bg-white border border-blue-500 rounded-full ${handle.className}`}
+                            className={`absolute bg-white border border-blue-500 ${handle.className}`}
                          />
                     ))}
                 </>
@@ -532,19 +1855,151 @@ const ReferenceItem: React.FC<{
     );
 };
 
+// Paintable inpainting mask drawn at the background's natural resolution
+const MaskLayer: React.FC<{
+    backgroundUrl: string;
+    mask: UploadedImage | null;
+    tool: MaskTool;
+    brushSize: number;
+    onMaskChange: (mask: UploadedImage | null) => void;
+}> = ({ backgroundUrl, mask, tool, brushSize, onMaskChange }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const [lassoPoints, setLassoPoints] = useState<{ x: number; y: number }[]>([]);
+    // The last mask emitted by this layer, to tell our own updates apart from history navigation
+    const emittedMaskRef = useRef<UploadedImage | null>(null);
+
+    useEffect(() => {
+        let isCancelled = false;
+        loadImage(backgroundUrl).then(img => {
+            if (!isCancelled) setSize({ width: img.naturalWidth, height: img.naturalHeight });
+        }).catch(e => console.error(e));
+        return () => { isCancelled = true; };
+    }, [backgroundUrl]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || !size || mask === emittedMaskRef.current) return;
+        emittedMaskRef.current = mask;
+        if (mask) {
+            drawUploadedMask(mask, canvas, MASK_COLOR).catch(e => console.error(e));
+        } else {
+            canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+        }
+    }, [mask, size]);
+
+    const toCanvasPoint = (clientX: number, clientY: number) => {
+        const rect = canvasRef.current!.getBoundingClientRect();
+        return {
+            x: (clientX - rect.left) * canvasRef.current!.width / rect.width,
+            y: (clientY - rect.top) * canvasRef.current!.height / rect.height,
+        };
+    };
+
+    const emitMask = () => {
+        const next = paintedMaskToUploadedImage(canvasRef.current!);
+        emittedMaskRef.current = next;
+        onMaskChange(next);
+    };
+
+    const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (e.button !== 0) return;
+        e.preventDefault();
+        const canvas = canvasRef.current!;
+        const ctx = canvas.getContext('2d')!;
+        const start = toCanvasPoint(e.clientX, e.clientY);
+
+        if (tool === 'lasso') {
+            const points = [start];
+            setLassoPoints(points);
+            const onLassoMouseMove = (moveEvent: MouseEvent) => {
+                points.push(toCanvasPoint(moveEvent.clientX, moveEvent.clientY));
+                setLassoPoints([...points]);
+            };
+            const onLassoMouseUp = () => {
+                window.removeEventListener('mousemove', onLassoMouseMove);
+                window.removeEventListener('mouseup', onLassoMouseUp);
+                setLassoPoints([]);
+                if (points.length < 3) return;
+                ctx.globalCompositeOperation = 'source-over';
+                ctx.fillStyle = `rgb(${MASK_COLOR.join(',')})`;
+                ctx.beginPath();
+                points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+                ctx.closePath();
+                ctx.fill();
+                emitMask();
+            };
+            window.addEventListener('mousemove', onLassoMouseMove);
+            window.addEventListener('mouseup', onLassoMouseUp);
+            return;
+        }
+
+        // Brush size is chosen in screen pixels; convert it to the mask's natural resolution
+        const rect = canvas.getBoundingClientRect();
+        const lineWidth = brushSize * canvas.width / rect.width;
+        ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+        ctx.strokeStyle = ctx.fillStyle = `rgb(${MASK_COLOR.join(',')})`;
+        ctx.lineWidth = lineWidth;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.arc(start.x, start.y, lineWidth / 2, 0, Math.PI * 2);
+        ctx.fill();
+
+        let last = start;
+        const onBrushMouseMove = (moveEvent: MouseEvent) => {
+            const point = toCanvasPoint(moveEvent.clientX, moveEvent.clientY);
+            ctx.beginPath();
+            ctx.moveTo(last.x, last.y);
+            ctx.lineTo(point.x, point.y);
+            ctx.stroke();
+            last = point;
+        };
+        const onBrushMouseUp = () => {
+            window.removeEventListener('mousemove', onBrushMouseMove);
+            window.removeEventListener('mouseup', onBrushMouseUp);
+            emitMask();
+        };
+        window.addEventListener('mousemove', onBrushMouseMove);
+        window.addEventListener('mouseup', onBrushMouseUp);
+    };
+
+    if (!size) return null;
+
+    return (
+        <>
+            <canvas
+                ref={canvasRef}
+                width={size.width}
+                height={size.height}
+                onMouseDown={handleMouseDown}
+                className="absolute inset-0 w-full h-full opacity-50"
+                style={{ cursor: 'crosshair' }}
+            />
+            {lassoPoints.length > 1 && (
+                <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${size.width} ${size.height}`} preserveAspectRatio="none">
+                    <polyline points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')} fill="rgba(239,68,68,0.2)" stroke="white" strokeDasharray="6 4" vectorEffect="non-scaling-stroke" />
+                </svg>
+            )}
+        </>
+    );
+};
+
 const InteractiveCanvas: React.FC<{
     editState: EditState;
     setEditState: React.Dispatch<React.SetStateAction<EditState>>;
     canvasRef: React.RefObject<HTMLDivElement>;
+    layerHistory: LayerHistory;
     onConfirm: () => void;
     onCancel: () => void;
-}> = ({ editState, setEditState, canvasRef, onConfirm, onCancel }) => {
-    const [zoom, setZoom] = useState(1);
-    const [pan, setPan] = useState({ x: 0, y: 0 });
+}> = ({ editState, setEditState, canvasRef, layerHistory, onConfirm, onCancel }) => {
+    const { t } = useI18n();
+    const { commitLayerChange, beginLayerGesture, endLayerGesture } = layerHistory;
+    const isInpainting = editState.editFunction === 'inpaint';
+    const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+    const [brushSize, setBrushSize] = useState(40);
     const containerRef = useRef<HTMLDivElement>(null);
-    const isPanningRef = useRef(false);
-    const lastMousePosRef = useRef({ x: 0, y: 0 });
-    const isSpacebarDownRef = useRef(false);
+    const { zoom, pan, setPan, fitContent, handleZoom, panHandlers } = useZoomPan(containerRef);
 
     const handleSelect = (id: string, e: React.MouseEvent) => {
         e.stopPropagation();
@@ -563,95 +2018,14 @@ const InteractiveCanvas: React.FC<{
     }, [setEditState]);
 
     const fitToScreen = useCallback(() => {
-        const container = containerRef.current;
-        const content = canvasRef.current;
-        const bgImage = content?.querySelector('img');
-
-        if (!container || !content || !bgImage || bgImage.clientWidth === 0 || bgImage.clientHeight === 0) {
-            return;
-        }
-
-        const containerWidth = container.clientWidth;
-        const containerHeight = container.clientHeight;
-        const contentWidth = bgImage.clientWidth;
-        const contentHeight = bgImage.clientHeight;
-
-        if (contentWidth === 0 || contentHeight === 0) return;
-
-        const scaleX = containerWidth / contentWidth;
-        const scaleY = containerHeight / contentHeight;
-
-        const newZoom = Math.min(scaleX, scaleY) * 0.9; // 90% padding
-        const newPanX = (containerWidth - contentWidth * newZoom) / 2;
-        const newPanY = (containerHeight - contentHeight * newZoom) / 2;
-
-        setZoom(newZoom);
-        setPan({ x: newPanX, y: newPanY });
-    }, [canvasRef]);
+        const bgImage = canvasRef.current?.querySelector('img');
+        if (bgImage) fitContent(bgImage.clientWidth, bgImage.clientHeight);
+    }, [canvasRef, fitContent]);
 
     useEffect(() => {
         setTimeout(fitToScreen, 50);
     }, [fitToScreen, editState.backgroundPreviewUrl]);
 
-    const handleZoom = (direction: 'in' | 'out') => {
-        const container = containerRef.current;
-        if (!container) return;
-    
-        const { width, height } = container.getBoundingClientRect();
-        const centerX = width / 2;
-        const centerY = height / 2;
-    
-        // Position on content before zoom
-        const contentX = (centerX - pan.x) / zoom;
-        const contentY = (centerY - pan.y) / zoom;
-    
-        const zoomFactor = 1.2;
-        const newZoom = direction === 'in' ? zoom * zoomFactor : zoom / zoomFactor;
-        const clampedZoom = Math.max(0.1, Math.min(newZoom, 10)); // Clamp zoom level
-    
-        // New pan to keep the content point under the cursor
-        const newPanX = centerX - contentX * clampedZoom;
-        const newPanY = centerY - contentY * clampedZoom;
-    
-        setZoom(clampedZoom);
-        setPan({ x: newPanX, y: newPanY });
-    };
-
-    // Effect for spacebar panning
-    useEffect(() => {
-        const container = containerRef.current;
-        if (!container) return;
-
-        const handleKeyDown = (e: KeyboardEvent) => {
-            if ((e.target as HTMLElement).tagName.match(/INPUT|TEXTAREA/)) return;
-            if (e.code === 'Space' && !isSpacebarDownRef.current) {
-                e.preventDefault();
-                isSpacebarDownRef.current = true;
-                if (!isPanningRef.current) {
-                    container.style.cursor = 'grab';
-                }
-            }
-        };
-
-        const handleKeyUp = (e: KeyboardEvent) => {
-            if (e.code === 'Space') {
-                isSpacebarDownRef.current = false;
-                if (!isPanningRef.current) {
-                    container.style.cursor = 'default';
-                }
-            }
-        };
-
-        window.addEventListener('keydown', handleKeyDown);
-        window.addEventListener('keyup', handleKeyUp);
-
-        return () => {
-            window.removeEventListener('keydown', handleKeyDown);
-            window.removeEventListener('keyup', handleKeyUp);
-            if (container) container.style.cursor = 'default';
-        };
-    }, []);
-
     useEffect(() => {
         const handleKeyDown = (e: KeyboardEvent) => {
             if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
@@ -669,13 +2043,9 @@ const InteractiveCanvas: React.FC<{
                         case 'ArrowRight': dx = moveAmount; break;
                     }
                     
-                    const activeRef = editState.references.find(r => r.id === editState.activeReferenceId);
-                    if (activeRef) {
-                        handleUpdate(editState.activeReferenceId, {
-                            x: activeRef.x + dx,
-                            y: activeRef.y + dy,
-                        });
-                    }
+                    const activeId = editState.activeReferenceId;
+                    // Consecutive nudges are merged into a single undo step
+                    commitLayerChange('move', activeId, refs => refs.map(r => r.id === activeId ? { ...r, x: r.x + dx, y: r.y + dy } : r), { merge: true });
                 } else { // Pan canvas if no item is selected
                     const panAmount = e.shiftKey ? 50 : 10;
                     let dx = 0;
@@ -693,105 +2063,1498 @@ const InteractiveCanvas: React.FC<{
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [editState.activeReferenceId, editState.references, handleUpdate]);
+    }, [editState.activeReferenceId, commitLayerChange]);
     
-    const handleMouseDownCapture = (e: React.MouseEvent) => {
-        if (isSpacebarDownRef.current) {
-            e.preventDefault();
-            e.stopPropagation();
-            isPanningRef.current = true;
-            lastMousePosRef.current = { x: e.clientX, y: e.clientY };
-            (e.currentTarget as HTMLElement).style.cursor = 'grabbing';
-        }
-    };
-
-    const handleMouseMove = (e: React.MouseEvent) => {
-        if (!isPanningRef.current) return;
-        const dx = e.clientX - lastMousePosRef.current.x;
-        const dy = e.clientY - lastMousePosRef.current.y;
-        setPan(prev => ({ x: prev.x + dx, y: prev.y + dy }));
-        lastMousePosRef.current = { x: e.clientX, y: e.clientY };
-    };
-
-    const handleMouseUp = (e: React.MouseEvent) => {
-        if (isPanningRef.current) {
-            isPanningRef.current = false;
-            (e.currentTarget as HTMLElement).style.cursor = isSpacebarDownRef.current ? 'grab' : 'default';
-        }
-    };
-
     return (
         <div
             ref={containerRef}
             className="relative w-full h-full flex items-center justify-center p-4 bg-[#050505] overflow-hidden"
-            onMouseDownCapture={handleMouseDownCapture}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
+            {...panHandlers}
             onClick={handleDeselect}
         >
             <div className="absolute top-4 right-4 z-10 flex flex-col items-center gap-2 p-1.5 bg-zinc-900/80 rounded-lg backdrop-blur-sm shadow-xl border border-zinc-800">
-                <button onClick={() => handleZoom('in')} className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300" title="Aumentar Zoom"><Icons.ZoomIn /></button>
+                <button onClick={() => handleZoom('in')} className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300" title={t('canvas.zoomIn')}><Icons.ZoomIn /></button>
                 <span className="text-xs font-semibold text-zinc-300 w-12 text-center select-none">{Math.round(zoom * 100)}%</span>
-                <button onClick={() => handleZoom('out')} className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300" title="Diminuir Zoom"><Icons.ZoomOut /></button>
+                <button onClick={() => handleZoom('out')} className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300" title={t('canvas.zoomOut')}><Icons.ZoomOut /></button>
                 <div className="h-px w-5 bg-zinc-700 my-1"></div>
-                <button onClick={fitToScreen} className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300" title="Ajustar à Tela"><Icons.FitScreen /></button>
+                <button onClick={fitToScreen} className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300" title={t('canvas.fit')}><Icons.FitScreen /></button>
+                {!isInpainting && (
+                    <>
+                        <div className="h-px w-5 bg-zinc-700 my-1"></div>
+                        <button onClick={layerHistory.undo} disabled={!layerHistory.canUndo} className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300 disabled:opacity-40 disabled:hover:bg-transparent" title={t('canvas.undo')}><Icons.Undo /></button>
+                        <button onClick={layerHistory.redo} disabled={!layerHistory.canRedo} className="p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300 disabled:opacity-40 disabled:hover:bg-transparent" title={t('canvas.redo')}><Icons.Redo /></button>
+                    </>
+                )}
             </div>
             <div
                 className="transition-transform duration-100 ease-out"
                 style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}
             >
                 <div ref={canvasRef} className="relative select-none" style={{ touchAction: 'none' }} onMouseDown={e => e.stopPropagation()} onClick={e => e.stopPropagation()}>
-                    <img src={editState.backgroundPreviewUrl!} alt="Fundo" className="block max-w-full max-h-full object-contain pointer-events-none select-none" />
+                    <img src={editState.backgroundPreviewUrl!} alt={t('edit.background')} className="block max-w-full max-h-full object-contain pointer-events-none select-none" />
                     {editState.references.map(ref => (
                         <ReferenceItem
                             key={ref.id}
                             item={ref}
                             isSelected={editState.activeReferenceId === ref.id}
+                            zoom={zoom}
                             onSelect={handleSelect}
                             onUpdate={handleUpdate}
+                            onGestureStart={beginLayerGesture}
+                            onGestureEnd={endLayerGesture}
                         />
                     ))}
+                    {isInpainting && (
+                        <MaskLayer
+                            backgroundUrl={editState.backgroundPreviewUrl!}
+                            mask={editState.mask}
+                            tool={maskTool}
+                            brushSize={brushSize}
+                            onMaskChange={mask => setEditState(s => ({ ...s, mask }))}
+                        />
+                    )}
+                </div>
+            </div>
+            {isInpainting ? (
+                <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex items-center justify-center gap-2 py-2 px-4 bg-zinc-900/90 rounded-full backdrop-blur-md shadow-2xl border border-zinc-800/50" onClick={e => e.stopPropagation()}>
+                    {([
+                        { id: 'brush', labelKey: 'mask.brush', icon: <Icons.Brush /> },
+                        { id: 'eraser', labelKey: 'mask.eraser', icon: <Icons.Eraser /> },
+                        { id: 'lasso', labelKey: 'mask.lasso', icon: <Icons.Lasso /> },
+                    ] as { id: MaskTool; labelKey: MessageKey; icon: React.ReactNode }[]).map(tool => (
+                        <button key={tool.id} onClick={() => setMaskTool(tool.id)} title={t(tool.labelKey)} className={`p-2 rounded-full transition-colors ${maskTool === tool.id ? 'bg-blue-600 text-white' : 'text-zinc-300 hover:bg-zinc-800'}`}>{tool.icon}</button>
+                    ))}
+                    <div className="w-px h-6 bg-zinc-700 mx-1"></div>
+                    <input type="range" min={4} max={200} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} disabled={maskTool === 'lasso'} className="w-28 accent-blue-500 disabled:opacity-40" aria-label={t('mask.brushSize')} />
+                    <span className="text-xs text-zinc-400 w-10 text-right">{brushSize}px</span>
+                    <div className="w-px h-6 bg-zinc-700 mx-1"></div>
+                    <button onClick={() => setEditState(s => ({ ...s, mask: null }))} disabled={!editState.mask} className="py-1.5 px-3 text-sm font-semibold text-zinc-300 hover:bg-zinc-800 rounded-full transition-colors flex items-center gap-1.5 disabled:opacity-40"><Icons.ClearAll /> {t('mask.clear')}</button>
+                </div>
+            ) : (
+                <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex items-center justify-center gap-4 py-3 px-5 bg-zinc-900/90 rounded-full backdrop-blur-md shadow-2xl border border-zinc-800/50">
+                    <button onClick={onCancel} className="py-2 px-4 text-sm font-semibold text-zinc-300 hover:bg-zinc-800 rounded-full transition-colors flex items-center gap-2"><Icons.Close /> {t('common.cancel')}</button>
+                    <button onClick={onConfirm} className="py-2 px-6 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-500 rounded-full transition-colors flex items-center gap-2 shadow-lg shadow-blue-900/50 disabled:opacity-50 disabled:cursor-not-allowed"><Icons.Check /> {t('canvas.confirmMontage')}</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Saves a URL as a file, with a user-friendly filename built from the given text
+const downloadUrl = (url: string, name: string, extension = 'png') => {
+    const link = document.createElement('a');
+    link.href = url;
+    const filename = name
+        .toLowerCase()
+        .replace(/[^a-z0-9\s-]/g, '') // remove special chars
+        .replace(/\s+/g, '-') // replace spaces with hyphens
+        .slice(0, 50); // limit length
+    link.download = `${filename || 'nano-banana-studio'}.${extension}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+const downloadBlob = (blob: Blob, name: string, extension: string) => {
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, name, extension);
+    URL.revokeObjectURL(url);
+};
+
+// Re-encodes the shown image with a chosen format, size and background, embedding its generation settings
+const ExportModal: React.FC<{ imageUrl: string; prompt: string; metadata: ImageMetadata | null; onClose: () => void; }> = ({ imageUrl, prompt, metadata, onClose }) => {
+    const { t } = useI18n();
+    const [options, setOptions] = useState<ExportOptions>(() => {
+        const stored = loadExportOptions();
+        return isExportFormatSupported(stored.format) ? stored : { ...stored, format: DEFAULT_EXPORT_OPTIONS.format };
+    });
+    const [sourceSize, setSourceSize] = useState<{ width: number; height: number } | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const [error, setError] = useState<unknown>(null);
+    const format = EXPORT_FORMATS.find(f => f.id === options.format)!;
+    const isBackgroundRequired = !format.hasAlpha;
+
+    useEffect(() => {
+        let isCurrent = true;
+        loadImage(imageUrl)
+            .then(img => { if (isCurrent) setSourceSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+            .catch(e => { if (isCurrent) setError(e); });
+        return () => { isCurrent = false; };
+    }, [imageUrl]);
+
+    const updateOptions = (updates: Partial<ExportOptions>) => setOptions(o => ({ ...o, ...updates }));
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError(null);
+        try {
+            saveExportOptions(options);
+            downloadBlob(await exportImage(imageUrl, options, metadata), prompt || t('display.defaultFilename'), format.extension);
+            onClose();
+        } catch (e) {
+            setError(e);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const exportSize = sourceSize && getExportSize(sourceSize.width, sourceSize.height, options.scale);
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-zinc-900 rounded-lg p-6 w-full max-w-md border border-zinc-700 shadow-2xl space-y-4 max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-zinc-100">{t('export.title')}</h2>
+                    <button onClick={onClose} className="p-1 text-zinc-400 hover:text-white rounded"><Icons.Close /></button>
+                </div>
+                <div>
+                    <span className="block text-xs font-semibold text-zinc-400 mb-1">{t('export.format')}</span>
+                    <div className="flex bg-zinc-800 rounded-md p-1 gap-1">
+                        {EXPORT_FORMATS.map(f => {
+                            const isSupported = isExportFormatSupported(f.id);
+                            return (
+                                <button key={f.id} type="button" onClick={() => updateOptions({ format: f.id })} disabled={!isSupported} title={isSupported ? undefined : t('export.formatUnavailable', { format: t(f.labelKey) })} className={`flex-1 py-1 text-xs font-semibold rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${options.format === f.id ? 'bg-zinc-600 text-white' : 'text-zinc-400 hover:bg-zinc-700 hover:text-zinc-200'}`}>{t(f.labelKey)}</button>
+                            );
+                        })}
+                    </div>
+                </div>
+                {options.format !== 'png' && (
+                    <label className="block">
+                        <span className="flex justify-between text-xs font-semibold text-zinc-400 mb-1">{t('export.quality')}<span className="text-zinc-500 font-normal">{options.quality}</span></span>
+                        <input type="range" min={1} max={100} value={options.quality} onChange={(e) => updateOptions({ quality: Number(e.target.value) })} className="w-full accent-blue-500" />
+                    </label>
+                )}
+                <label className="block">
+                    <span className="flex justify-between text-xs font-semibold text-zinc-400 mb-1">{t('export.scale')}<span className="text-zinc-500 font-normal">{options.scale}%{exportSize && ` · ${t('export.size', exportSize)}`}</span></span>
+                    <input type="range" min={10} max={200} step={5} value={options.scale} onChange={(e) => updateOptions({ scale: Number(e.target.value) })} className="w-full accent-blue-500" />
+                </label>
+                <div className="space-y-1">
+                    <div className="flex items-center gap-2 text-xs text-zinc-300">
+                        <input type="checkbox" id="export-fill-background" checked={isBackgroundRequired || options.background !== null} disabled={isBackgroundRequired} onChange={(e) => updateOptions({ background: e.target.checked ? DEFAULT_EXPORT_BACKGROUND : null })} className="accent-blue-600" />
+                        <label htmlFor="export-fill-background" className="flex-1">{t('export.fillBackground')}</label>
+                        <input type="color" value={options.background ?? DEFAULT_EXPORT_BACKGROUND} onChange={(e) => updateOptions({ background: e.target.value })} disabled={!isBackgroundRequired && options.background === null} className="w-8 h-6 bg-transparent rounded cursor-pointer disabled:opacity-40" aria-label={t('export.fillBackground')} />
+                    </div>
+                    {isBackgroundRequired && <p className="text-[11px] text-zinc-500">{t('export.backgroundRequired')}</p>}
+                </div>
+                {metadata && (
+                    <div className="space-y-1">
+                        <label className="flex items-center gap-2 text-xs text-zinc-300">
+                            <input type="checkbox" checked={options.embedMetadata} disabled={!canEmbedMetadata(options.format)} onChange={(e) => updateOptions({ embedMetadata: e.target.checked })} className="accent-blue-600" />
+                            {t('export.embedMetadata')}
+                        </label>
+                        <p className="text-[11px] text-zinc-500">{canEmbedMetadata(options.format) ? t('export.metadataHint') : t('export.metadataUnsupported')}</p>
+                    </div>
+                )}
+                {!!error && <p className="text-xs text-red-400">{describeError(t, error)}</p>}
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="py-2 px-4 text-sm font-semibold text-zinc-300 hover:bg-zinc-800 rounded-md">{t('common.cancel')}</button>
+                    <button onClick={handleExport} disabled={isExporting} className="flex items-center gap-2 py-2 px-4 text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed">
+                        {isExporting ? <Icons.Spinner className="h-4 w-4" /> : <Icons.Save className="!text-base" />} {isExporting ? t('export.exporting') : t('export.download', { format: t(format.labelKey) })}
+                    </button>
                 </div>
             </div>
-            <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex items-center justify-center gap-4 py-3 px-5 bg-zinc-900/90 rounded-full backdrop-blur-md shadow-2xl border border-zinc-800/50">
-                <button onClick={onCancel} className="py-2 px-4 text-sm font-semibold text-zinc-300 hover:bg-zinc-800 rounded-full transition-colors flex items-center gap-2"><Icons.Close /> Cancelar</button>
-                <button onClick={onConfirm} className="py-2 px-6 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-500 rounded-full transition-colors flex items-center gap-2 shadow-lg shadow-blue-900/50 disabled:opacity-50 disabled:cursor-not-allowed"><Icons.Check /> Confirmar Montagem</button>
+        </div>
+    );
+};
+
+const ADJUSTMENT_PREVIEW_SIZE = 1280;
+
+// Live preview of the adjustments, rendered on a scaled-down copy of the background
+const AdjustmentPreview: React.FC<{
+    imageUrl: string;
+    adjustments: ImageAdjustments;
+    onReset: () => void;
+    onApply: () => void;
+}> = ({ imageUrl, adjustments, onReset, onApply }) => {
+    const { t } = useI18n();
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const [isShowingOriginal, setIsShowingOriginal] = useState(false);
+
+    // Slider drags change the adjustments many times a second, so rendering waits for a short pause
+    useEffect(() => {
+        let isCurrent = true;
+        const timer = setTimeout(() => {
+            applyAdjustments(imageUrl, adjustments, ADJUSTMENT_PREVIEW_SIZE)
+                .then(url => { if (isCurrent) { setPreviewUrl(url); setError(null); } })
+                .catch(e => { if (isCurrent) setError(e); });
+        }, 100);
+        return () => { isCurrent = false; clearTimeout(timer); };
+    }, [imageUrl, adjustments]);
+
+    return (
+        <div className="relative w-full h-full flex items-center justify-center p-6 bg-[#09090b]">
+            <img src={isShowingOriginal || !previewUrl ? imageUrl : previewUrl} alt={t('edit.background')} className="max-w-full max-h-full object-contain rounded-lg shadow-2xl ring-1 ring-white/10" />
+            {!!error && <p className="absolute top-4 left-1/2 -translate-x-1/2 py-1.5 px-3 text-xs text-red-300 bg-red-950/80 border border-red-900/50 rounded-lg">{describeError(t, error)}</p>}
+            <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex items-center justify-center gap-2 py-2 px-4 bg-zinc-900/90 rounded-full backdrop-blur-md shadow-2xl border border-zinc-800/50">
+                <button
+                    onMouseDown={() => setIsShowingOriginal(true)}
+                    onMouseUp={() => setIsShowingOriginal(false)}
+                    onMouseLeave={() => setIsShowingOriginal(false)}
+                    className="py-2 px-4 text-sm font-semibold text-zinc-300 hover:bg-zinc-800 rounded-full transition-colors flex items-center gap-2 select-none"
+                >
+                    <Icons.Compare /> {t('adjust.showOriginal')}
+                </button>
+                <button onClick={onReset} className="py-2 px-4 text-sm font-semibold text-zinc-300 hover:bg-zinc-800 rounded-full transition-colors flex items-center gap-2"><Icons.Undo /> {t('adjust.reset')}</button>
+                <button onClick={onApply} className="py-2 px-6 text-sm font-semibold text-white bg-blue-600 hover:bg-blue-500 rounded-full transition-colors flex items-center gap-2 shadow-lg shadow-blue-900/50"><Icons.Check /> {t('sidebar.submit.adjust')}</button>
             </div>
         </div>
     );
 };
 
-const ImageDisplayWithActions: React.FC<{ imageUrl: string; prompt: string; }> = ({ imageUrl, prompt }) => {
-    const handleDownload = () => {
-        const link = document.createElement('a');
-        link.href = imageUrl;
-        // Create a user-friendly filename from the prompt
-        const filename = (prompt || 'imagem')
-            .toLowerCase()
-            .replace(/[^a-z0-9\s]/g, '') // remove special chars
-            .replace(/\s+/g, '-') // replace spaces with hyphens
-            .slice(0, 50); // limit length
-        link.download = `${filename || 'nano-banana-studio'}.png`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+// The background on its extended canvas, with the borders the model will fill outlined
+const ExtendCanvasPreview: React.FC<{
+    imageUrl: string;
+    extension: CanvasExtension;
+    fallback: React.ReactNode;
+}> = ({ imageUrl, extension, fallback }) => {
+    const { t } = useI18n();
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        setSize(null);
+        loadImage(imageUrl)
+            .then(img => { if (isCurrent) setSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+            .catch(() => { /* The fallback view reports images that fail to load */ });
+        return () => { isCurrent = false; };
+    }, [imageUrl]);
+
+    const layout = size ? getCanvasLayout(size.width, size.height, extension) : null;
+    if (!size || !layout || !isCanvasExtended(layout)) return <>{fallback}</>;
+
+    return (
+        <div className="relative w-full h-full flex items-center justify-center p-6 bg-[#09090b]">
+            <svg viewBox={`0 0 ${layout.width} ${layout.height}`} className="max-w-full max-h-full rounded-lg shadow-2xl" style={{ aspectRatio: `${layout.width} / ${layout.height}` }}>
+                <rect width={layout.width} height={layout.height} fill="#27272a" />
+                <image href={imageUrl} x={layout.x} y={layout.y} width={layout.imageWidth} height={layout.imageHeight} preserveAspectRatio="none" />
+                <rect x={0} y={0} width={layout.width} height={layout.height} fill="none" stroke="#3b82f6" strokeWidth={Math.max(layout.width, layout.height) / 200} strokeDasharray={`${Math.max(layout.width, layout.height) / 60}`} />
+            </svg>
+            <p className="absolute bottom-8 left-1/2 -translate-x-1/2 py-1.5 px-4 text-xs font-semibold text-zinc-300 bg-zinc-900/90 rounded-full backdrop-blur-md border border-zinc-800/50">
+                {t('extend.preview', { from: `${size.width} × ${size.height}`, to: `${layout.width} × ${layout.height}` })}
+            </p>
+        </div>
+    );
+};
+
+const MINIMAP_SIZE = 160;
+
+// Thumbnail of the whole image with the visible part outlined; clicking or dragging centers the view there
+const Minimap: React.FC<{
+    imageUrl: string;
+    size: { width: number; height: number };
+    viewport: { width: number; height: number };
+    zoom: number;
+    pan: { x: number; y: number };
+    onNavigate: (x: number, y: number) => void;
+}> = ({ imageUrl, size, viewport, zoom, pan, onNavigate }) => {
+    const { t } = useI18n();
+    const [isDragging, setIsDragging] = useState(false);
+    const mapRef = useRef<HTMLDivElement>(null);
+    const scale = MINIMAP_SIZE / Math.max(size.width, size.height);
+
+    const navigateTo = useCallback((clientX: number, clientY: number) => {
+        const rect = mapRef.current?.getBoundingClientRect();
+        if (rect) onNavigate((clientX - rect.left) / scale, (clientY - rect.top) / scale);
+    }, [onNavigate, scale]);
+
+    useEffect(() => {
+        if (!isDragging) return;
+        const handleMove = (e: MouseEvent) => navigateTo(e.clientX, e.clientY);
+        const handleUp = () => setIsDragging(false);
+        window.addEventListener('mousemove', handleMove);
+        window.addEventListener('mouseup', handleUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMove);
+            window.removeEventListener('mouseup', handleUp);
+        };
+    }, [isDragging, navigateTo]);
+
+    // The visible part of the image, in image pixels, clipped to the image
+    const left = Math.max(0, -pan.x / zoom);
+    const top = Math.max(0, -pan.y / zoom);
+    const right = Math.min(size.width, (viewport.width - pan.x) / zoom);
+    const bottom = Math.min(size.height, (viewport.height - pan.y) / zoom);
+
+    return (
+        <div
+            ref={mapRef}
+            className="relative cursor-pointer rounded border border-zinc-700 shadow-xl overflow-hidden"
+            style={{ width: size.width * scale, height: size.height * scale, ...CHECKERBOARD_STYLE }}
+            title={t('viewer.minimap')}
+            onMouseDown={(e) => { e.stopPropagation(); e.preventDefault(); navigateTo(e.clientX, e.clientY); setIsDragging(true); }}
+        >
+            <img src={imageUrl} alt="" draggable={false} className="block w-full h-full pointer-events-none" />
+            {right > left && bottom > top && (
+                <div className="absolute border-2 border-blue-400 bg-blue-400/10 pointer-events-none" style={{ left: left * scale, top: top * scale, width: (right - left) * scale, height: (bottom - top) * scale }} />
+            )}
+        </div>
+    );
+};
+
+type PickedColor = { x: number; y: number; rgba: [number, number, number, number] };
+
+// Zoomable, pannable view of a result, with a 1:1 view, a minimap and a pixel colour picker
+const ImageDisplayWithActions: React.FC<{ imageUrl: string; prompt: string; entry?: CreateHistoryEntry | EditHistoryEntry | null; actions?: React.ReactNode; }> = ({ imageUrl, prompt, entry, actions }) => {
+    const { t } = useI18n();
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const [isPicking, setIsPicking] = useState(false);
+    const [pickedColor, setPickedColor] = useState<PickedColor | null>(null);
+    const [isCopied, setIsCopied] = useState(false);
+    const samplerRef = useRef<((x: number, y: number) => [number, number, number, number] | null) | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const { zoom, pan, setPan, viewport, fitContent, handleZoom, zoomToLevel, startPan, panHandlers } = useZoomPan(containerRef, { wheelZoom: true });
+    const metadata = entry ? metadataFromEntry(entry) : null;
+    // The quick download stays a full-size PNG, now with the generation settings embedded
+    const handleDownload = async () => {
+        const name = prompt || t('display.defaultFilename');
+        try {
+            downloadBlob(await exportImage(imageUrl, DEFAULT_EXPORT_OPTIONS, metadata), name, 'png');
+        } catch {
+            // An image the browser cannot re-encode is still downloaded as it is
+            downloadUrl(imageUrl, name);
+        }
+    };
+
+    const fitToScreen = useCallback(() => {
+        if (size) fitContent(size.width, size.height);
+    }, [size, fitContent]);
+
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const { naturalWidth, naturalHeight } = e.currentTarget;
+        setSize({ width: naturalWidth, height: naturalHeight });
+        fitContent(naturalWidth, naturalHeight);
+    };
+
+    // The picker reads pixels from a full-size copy of the image, drawn only while it is on
+    useEffect(() => {
+        samplerRef.current = null;
+        setPickedColor(null);
+        if (!isPicking) return;
+        let isCurrent = true;
+        createPixelSampler(imageUrl)
+            .then(sampler => { if (isCurrent) samplerRef.current = sampler; })
+            .catch(() => { if (isCurrent) setIsPicking(false); });
+        return () => { isCurrent = false; };
+    }, [isPicking, imageUrl]);
+
+    const sampleAt = (e: React.MouseEvent): PickedColor | null => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect || !samplerRef.current) return null;
+        const x = Math.floor((e.clientX - rect.left - pan.x) / zoom);
+        const y = Math.floor((e.clientY - rect.top - pan.y) / zoom);
+        const rgba = samplerRef.current(x, y);
+        return rgba ? { x, y, rgba } : null;
+    };
+
+    const handlePick = (e: React.MouseEvent) => {
+        const color = sampleAt(e);
+        if (!color) return;
+        setPickedColor(color);
+        navigator.clipboard?.writeText(toHexColor(color.rgba[0], color.rgba[1], color.rgba[2])).then(() => {
+            setIsCopied(true);
+            setTimeout(() => setIsCopied(false), 1500);
+        }, () => {});
+    };
+
+    const handleNavigate = (x: number, y: number) => {
+        setPan({ x: viewport.width / 2 - x * zoom, y: viewport.height / 2 - y * zoom });
+    };
+
+    const isOverflowing = !!size && (size.width * zoom > viewport.width || size.height * zoom > viewport.height);
+    // Past 2x, single pixels stay sharp instead of being smoothed together
+    const imageRendering = zoom >= 2 ? 'pixelated' : 'auto';
+    const zoomButtonClass = "p-2 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300";
+
+    return (
+        <>
+            <div
+                ref={containerRef}
+                className={`relative w-full h-full overflow-hidden group bg-[#09090b] ${isPicking ? 'cursor-crosshair' : 'cursor-grab'}`}
+                {...panHandlers}
+                onMouseDown={isPicking ? undefined : startPan}
+                onMouseMove={(e) => {
+                    panHandlers.onMouseMove(e);
+                    const color = isPicking ? sampleAt(e) : null;
+                    if (color) setPickedColor(color);
+                }}
+                onClick={isPicking ? handlePick : undefined}
+            >
+                 <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-zinc-900/40 to-zinc-950 pointer-events-none"></div>
+                <div className="absolute top-0 left-0 z-10" style={{ width: size?.width, height: size?.height, transformOrigin: '0 0', transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}>
+                    <img
+                        key={imageUrl}
+                        src={imageUrl}
+                        alt={prompt}
+                        onLoad={handleImageLoad}
+                        draggable={false}
+                        className={`block w-full h-full shadow-2xl ring-1 ring-white/10 pointer-events-none select-none ${size ? '' : 'invisible'}`}
+                        style={{ imageRendering }}
+                    />
+                </div>
+                <div className="absolute top-4 right-4 z-20 flex flex-col items-center gap-2 p-1.5 bg-zinc-900/80 rounded-lg backdrop-blur-sm shadow-xl border border-zinc-800" onMouseDown={e => e.stopPropagation()} onClick={e => e.stopPropagation()}>
+                    <button onClick={() => handleZoom('in')} className={zoomButtonClass} title={t('canvas.zoomIn')}><Icons.ZoomIn /></button>
+                    <span className="text-xs font-semibold text-zinc-300 w-12 text-center select-none">{Math.round(zoom * 100)}%</span>
+                    <button onClick={() => handleZoom('out')} className={zoomButtonClass} title={t('canvas.zoomOut')}><Icons.ZoomOut /></button>
+                    <div className="h-px w-5 bg-zinc-700 my-1"></div>
+                    <button onClick={fitToScreen} className={zoomButtonClass} title={t('canvas.fit')}><Icons.FitScreen /></button>
+                    <button onClick={() => zoomToLevel(1)} className={zoomButtonClass} title={t('viewer.actualSize')}><Icons.ActualSize /></button>
+                    <div className="h-px w-5 bg-zinc-700 my-1"></div>
+                    <button onClick={() => setIsPicking(p => !p)} className={`p-2 rounded-md transition-colors ${isPicking ? 'bg-blue-600 text-white' : 'text-zinc-300 hover:bg-zinc-700'}`} title={t('viewer.picker')}><Icons.Colorize /></button>
+                </div>
+                {isPicking && pickedColor && (
+                    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 py-2 px-3 bg-zinc-900/90 rounded-lg backdrop-blur-sm shadow-xl border border-zinc-800 pointer-events-none">
+                        <span className="w-8 h-8 rounded border border-zinc-600" style={{ backgroundColor: `rgba(${pickedColor.rgba.slice(0, 3).join(', ')}, ${pickedColor.rgba[3] / 255})` }} />
+                        <div className="font-mono text-xs text-zinc-200 leading-relaxed">
+                            <div>{toHexColor(pickedColor.rgba[0], pickedColor.rgba[1], pickedColor.rgba[2])} {isCopied && <span className="ml-1 font-sans text-green-400">{t('viewer.copied')}</span>}</div>
+                            <div>RGB {pickedColor.rgba.slice(0, 3).join(', ')}{pickedColor.rgba[3] < 255 && ` · A ${pickedColor.rgba[3]}`}</div>
+                            <div className="text-zinc-500">{t('viewer.pixel', { x: pickedColor.x, y: pickedColor.y })}</div>
+                        </div>
+                    </div>
+                )}
+                {size && isOverflowing && (
+                    <div className="absolute bottom-4 right-4 z-20">
+                        <Minimap imageUrl={imageUrl} size={size} viewport={viewport} zoom={zoom} pan={pan} onNavigate={handleNavigate} />
+                    </div>
+                )}
+                <div className="absolute bottom-8 left-1/2 -translate-x-1/2 flex items-center gap-3 opacity-0 group-hover:opacity-100 transition-all duration-300 z-20 translate-y-4 group-hover:translate-y-0" onMouseDown={e => e.stopPropagation()} onClick={e => e.stopPropagation()}>
+                    <button 
+                        onClick={handleDownload}
+                        className="flex items-center gap-2 py-2.5 px-6 bg-white text-black font-semibold rounded-full hover:bg-zinc-200 transition-colors shadow-xl transform hover:scale-105"
+                        title={t('display.download')}
+                    >
+                        <Icons.Save className="text-black" />
+                        <span>{t('display.downloadOriginal')}</span>
+                    </button>
+                    <button onClick={() => setIsExportOpen(true)} className="flex items-center gap-2 py-2.5 px-6 bg-zinc-900/90 text-zinc-100 font-semibold rounded-full hover:bg-zinc-800 border border-zinc-700 transition-colors shadow-xl">
+                        <Icons.Settings /> <span>{t('export.open')}</span>
+                    </button>
+                    {actions}
+                </div>
+            </div>
+            {isExportOpen && <ExportModal imageUrl={imageUrl} prompt={prompt} metadata={metadata} onClose={() => setIsExportOpen(false)} />}
+        </>
+    );
+};
+
+// Cuts a sticker result out of its background, and lays several cut-outs on a printable sheet
+const StickerModal: React.FC<{
+    entry: CreateHistoryEntry;
+    stickerEntries: CreateHistoryEntry[];
+    onClose: () => void;
+}> = ({ entry, stickerEntries, onClose }) => {
+    const { t } = useI18n();
+    const [options, setOptions] = useState<StickerOptions>(DEFAULT_STICKER_OPTIONS);
+    const [cutoutUrl, setCutoutUrl] = useState<string | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [error, setError] = useState<unknown>(null);
+    const [sheetIds, setSheetIds] = useState<string[]>([entry.id]);
+    const [columns, setColumns] = useState(3);
+    const [isBuildingSheet, setIsBuildingSheet] = useState(false);
+
+    // Sliders fire on every step, so the cut-out only runs once they settle
+    useEffect(() => {
+        let isCurrent = true;
+        setIsProcessing(true);
+        const timer = setTimeout(() => {
+            cutOutSticker(entry.imageUrl, options)
+                .then(url => { if (isCurrent) { setCutoutUrl(url); setError(null); } })
+                .catch(e => { if (isCurrent) { setCutoutUrl(null); setError(e); } })
+                .finally(() => { if (isCurrent) setIsProcessing(false); });
+        }, 200);
+        return () => { isCurrent = false; clearTimeout(timer); };
+    }, [entry.imageUrl, options]);
+
+    const toggleSheetEntry = (id: string) => setSheetIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+
+    const handleDownloadSheet = async () => {
+        setIsBuildingSheet(true);
+        try {
+            const urls: string[] = [];
+            // One at a time: each cut-out holds several full-size buffers
+            for (const sticker of stickerEntries.filter(e => sheetIds.includes(e.id))) {
+                urls.push(await cutOutSticker(sticker.imageUrl, options));
+            }
+            downloadUrl(await buildStickerSheet(urls, columns), t('sticker.sheetFilename'));
+        } catch (e) {
+            setError(e);
+        } finally {
+            setIsBuildingSheet(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-zinc-900 rounded-lg p-6 w-full max-w-3xl border border-zinc-700 shadow-2xl space-y-4 max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-zinc-100">{t('sticker.title')}</h2>
+                    <button onClick={onClose} className="p-1 text-zinc-400 hover:text-white rounded"><Icons.Close /></button>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="relative aspect-square rounded-lg border border-zinc-700 overflow-hidden flex items-center justify-center p-2" style={CHECKERBOARD_STYLE}>
+                        {cutoutUrl && <img src={cutoutUrl} alt={entry.prompt} className="max-w-full max-h-full object-contain" />}
+                        {isProcessing && (
+                            <div className="absolute inset-0 flex items-center justify-center gap-2 bg-black/40 text-xs text-zinc-200"><Icons.Spinner className="h-5 w-5" /> {t('sticker.processing')}</div>
+                        )}
+                    </div>
+                    <div className="space-y-3">
+                        {([
+                            ['sticker.tolerance', options.tolerance, 128, (value: number) => setOptions(o => ({ ...o, tolerance: value }))],
+                            ['sticker.outline', options.outlineWidth, 40, (value: number) => setOptions(o => ({ ...o, outlineWidth: value }))],
+                        ] as const).map(([labelKey, value, max, onChange]) => (
+                            <label key={labelKey} className="block">
+                                <span className="flex justify-between text-xs font-semibold text-zinc-400 mb-1">{t(labelKey)}<span className="text-zinc-500 font-normal">{value}</span></span>
+                                <input type="range" min={0} max={max} value={value} onChange={(e) => onChange(Number(e.target.value))} className="w-full accent-blue-500" />
+                            </label>
+                        ))}
+                        <label className="flex items-center gap-2 text-xs text-zinc-300">
+                            <input type="checkbox" checked={options.shadow} onChange={(e) => setOptions(o => ({ ...o, shadow: e.target.checked }))} className="accent-blue-600" />
+                            {t('sticker.shadow')}
+                        </label>
+                        {!!error && <p className="text-xs text-red-400">{describeError(t, error)}</p>}
+                        <button onClick={() => cutoutUrl && downloadUrl(cutoutUrl, `${t('sticker.filename')} ${entry.prompt}`)} disabled={!cutoutUrl || isProcessing} className="w-full flex items-center justify-center gap-2 py-2 px-4 text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed"><Icons.Save className="!text-base" /> {t('sticker.downloadPng')}</button>
+                    </div>
+                </div>
+                <div className="space-y-2 pt-3 border-t border-zinc-800">
+                    <h3 className="text-xs font-bold uppercase tracking-wider text-zinc-300">{t('sticker.sheet')}</h3>
+                    <p className="text-[11px] text-zinc-500">{t('sticker.sheetHint')}</p>
+                    <div className="grid grid-cols-6 gap-2 max-h-40 overflow-y-auto custom-scrollbar">
+                        {stickerEntries.map(sticker => (
+                            <button key={sticker.id} onClick={() => toggleSheetEntry(sticker.id)} title={sticker.prompt} className={`aspect-square rounded-md overflow-hidden ring-2 transition-all ${sheetIds.includes(sticker.id) ? 'ring-blue-500' : 'ring-transparent opacity-50 hover:opacity-100'}`}>
+                                <img src={sticker.imageUrl} alt={sticker.prompt} className="w-full h-full object-cover" />
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex items-center justify-end gap-3">
+                        <label className="flex items-center gap-2 text-xs text-zinc-400">
+                            {t('sticker.columns')}
+                            <input type="number" min={1} max={6} value={columns} onChange={(e) => { const parsed = parseInt(e.target.value, 10); if (!Number.isNaN(parsed)) setColumns(Math.max(1, Math.min(6, parsed))); }} className="w-14 bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1 text-sm text-zinc-200 focus:outline-none focus:border-blue-500" />
+                        </label>
+                        <button onClick={handleDownloadSheet} disabled={sheetIds.length === 0 || isBuildingSheet} className="flex items-center gap-2 py-2 px-4 text-sm font-semibold text-zinc-200 bg-zinc-800 hover:bg-zinc-700 rounded-md disabled:opacity-50 disabled:cursor-not-allowed">
+                            {isBuildingSheet ? <Icons.Spinner className="h-4 w-4" /> : <Icons.GridView className="!text-base" />} {t('sticker.downloadSheet', { count: sheetIds.length })}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// Traces a logo result into a flat-colour SVG, previewed next to the original raster
+const VectorModal: React.FC<{ entry: CreateHistoryEntry; onClose: () => void; }> = ({ entry, onClose }) => {
+    const { t } = useI18n();
+    const [options, setOptions] = useState<TraceOptions>(DEFAULT_TRACE_OPTIONS);
+    const [result, setResult] = useState<TraceResult | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [error, setError] = useState<unknown>(null);
+
+    // Tracing blocks the page for a moment, so it only runs once the sliders settle
+    useEffect(() => {
+        let isCurrent = true;
+        setIsProcessing(true);
+        const timer = setTimeout(() => {
+            traceToSvg(entry.imageUrl, options)
+                .then(traced => { if (isCurrent) { setResult(traced); setError(null); } })
+                .catch(e => { if (isCurrent) { setResult(null); setError(e); } })
+                .finally(() => { if (isCurrent) setIsProcessing(false); });
+        }, 300);
+        return () => { isCurrent = false; clearTimeout(timer); };
+    }, [entry.imageUrl, options]);
+
+    const svgUrl = useMemo(() => result ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(result.svg)}` : null, [result]);
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-zinc-900 rounded-lg p-6 w-full max-w-3xl border border-zinc-700 shadow-2xl space-y-4 max-h-full overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-zinc-100">{t('vector.title')}</h2>
+                    <button onClick={onClose} className="p-1 text-zinc-400 hover:text-white rounded"><Icons.Close /></button>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    {([['vector.raster', entry.imageUrl], ['vector.vector', svgUrl]] as const).map(([labelKey, url]) => (
+                        <figure key={labelKey} className="space-y-1">
+                            <figcaption className="text-xs font-semibold text-zinc-400">{t(labelKey)}</figcaption>
+                            <div className="relative aspect-square rounded-lg border border-zinc-700 overflow-hidden flex items-center justify-center" style={CHECKERBOARD_STYLE}>
+                                {url && <img src={url} alt={entry.prompt} className="max-w-full max-h-full object-contain" />}
+                                {labelKey === 'vector.vector' && isProcessing && (
+                                    <div className="absolute inset-0 flex items-center justify-center gap-2 bg-black/40 text-xs text-zinc-200"><Icons.Spinner className="h-5 w-5" /> {t('vector.processing')}</div>
+                                )}
+                            </div>
+                        </figure>
+                    ))}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    {([
+                        ['vector.paletteSize', options.paletteSize, 2, 16, (value: number) => setOptions(o => ({ ...o, paletteSize: value }))],
+                        ['vector.smoothing', options.smoothing, 0, 10, (value: number) => setOptions(o => ({ ...o, smoothing: value }))],
+                    ] as const).map(([labelKey, value, min, max, onChange]) => (
+                        <label key={labelKey} className="block">
+                            <span className="flex justify-between text-xs font-semibold text-zinc-400 mb-1">{t(labelKey)}<span className="text-zinc-500 font-normal">{value}</span></span>
+                            <input type="range" min={min} max={max} value={value} onChange={(e) => onChange(Number(e.target.value))} className="w-full accent-blue-500" />
+                        </label>
+                    ))}
+                </div>
+                {result && (
+                    <div className="flex items-center gap-3">
+                        <div className="flex gap-1">
+                            {result.palette.map(color => <span key={color} title={color} className="w-5 h-5 rounded border border-zinc-700" style={{ backgroundColor: color }} />)}
+                        </div>
+                        <span className="text-[11px] text-zinc-500">{t('vector.stats', { paths: result.pathCount, size: Math.max(1, Math.round(result.svg.length / 1024)) })}</span>
+                    </div>
+                )}
+                {!!error && <p className="text-xs text-red-400">{describeError(t, error)}</p>}
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="py-2 px-4 text-sm font-semibold text-zinc-300 hover:bg-zinc-800 rounded-md">{t('common.cancel')}</button>
+                    <button onClick={() => svgUrl && downloadUrl(svgUrl, entry.prompt || t('display.defaultFilename'), 'svg')} disabled={!svgUrl || isProcessing} className="flex items-center gap-2 py-2 px-4 text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed"><Icons.Save className="!text-base" /> {t('vector.download')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+type CompareLayout = 'sideBySide' | 'slider' | 'onion';
+const COMPARE_LAYOUTS: { id: CompareLayout; labelKey: MessageKey }[] = [
+    { id: 'sideBySide', labelKey: 'compare.sideBySide' },
+    { id: 'slider', labelKey: 'compare.slider' },
+    { id: 'onion', labelKey: 'compare.onion' },
+];
+const ORIGINAL_SOURCE_ID = 'original';
+const COMPARE_PROMPT_LENGTH = 40;
+
+interface CompareSource { id: string; label: string; url: string; }
+
+// Long edge of each local upscale target; Flash returns about 1K whatever resolution is asked for
+const UPSCALE_TARGETS: { value: UpscaleTarget, longEdge: number, labelKey: MessageKey }[] = [
+    { value: '2K', longEdge: 2048, labelKey: 'resolution.2K' },
+    { value: '4K', longEdge: 4096, labelKey: 'resolution.4K' },
+];
+const DEFAULT_UPSCALE_SHARPEN = 25;
+
+// Enlarges a result in the browser, without the model, to one of the targets above its current size
+const UpscaleModal: React.FC<{
+    entry: CreateHistoryEntry | EditHistoryEntry;
+    onUpscale: (entry: CreateHistoryEntry | EditHistoryEntry, target: UpscaleTarget, longEdge: number, sharpen: number) => void;
+    onClose: () => void;
+}> = ({ entry, onUpscale, onClose }) => {
+    const { t } = useI18n();
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const [target, setTarget] = useState(UPSCALE_TARGETS[0].value);
+    const [sharpen, setSharpen] = useState(DEFAULT_UPSCALE_SHARPEN);
+    const [error, setError] = useState<unknown>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        loadImage(entry.imageUrl)
+            .then(img => { if (isCurrent) setSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+            .catch(e => { if (isCurrent) setError(e); });
+        return () => { isCurrent = false; };
+    }, [entry.imageUrl]);
+
+    const targets = size ? UPSCALE_TARGETS.filter(option => option.longEdge > Math.max(size.width, size.height)) : [];
+    const selected = targets.find(option => option.value === target) ?? targets[0];
+    const upscaledSize = size && selected ? getUpscaledSize(size.width, size.height, selected.longEdge) : null;
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-zinc-900 rounded-lg p-6 w-full max-w-md border border-zinc-700 shadow-2xl space-y-4" onClick={(e) => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-zinc-100">{t('upscale.title')}</h2>
+                    <button onClick={onClose} className="p-1 text-zinc-400 hover:text-white rounded"><Icons.Close /></button>
+                </div>
+                <p className="text-xs text-zinc-500">{t('upscale.hint')}</p>
+                {size && targets.length === 0 && <p className="text-xs text-amber-400">{t('upscale.tooLarge')}</p>}
+                {targets.length > 0 && (
+                    <div className="space-y-1">
+                        <span className="block text-xs font-semibold text-zinc-400">{t('upscale.target')}</span>
+                        <div className="flex gap-2">
+                            {targets.map(option => (
+                                <button key={option.value} onClick={() => setTarget(option.value)} className={`flex-1 py-1.5 text-xs font-semibold rounded-md transition-colors ${option === selected ? 'bg-zinc-100 text-black' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'}`}>{t(option.labelKey)}</button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <label className="block">
+                    <span className="flex justify-between text-xs font-semibold text-zinc-400 mb-1">{t('upscale.sharpen')}<span className="text-zinc-500 font-normal">{sharpen}</span></span>
+                    <input type="range" min={0} max={100} value={sharpen} onChange={(e) => setSharpen(Number(e.target.value))} className="w-full accent-blue-500" />
+                </label>
+                {size && upscaledSize && (
+                    <p className="text-xs text-zinc-400">{t('upscale.size', { from: `${size.width} × ${size.height}`, to: `${upscaledSize.width} × ${upscaledSize.height}` })}</p>
+                )}
+                {!!error && <p className="text-xs text-red-400">{describeError(t, error)}</p>}
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="py-2 px-4 text-sm font-semibold text-zinc-300 hover:bg-zinc-800 rounded-md">{t('common.cancel')}</button>
+                    <button onClick={() => onUpscale(entry, selected.value, selected.longEdge, sharpen)} disabled={!selected} className="py-2 px-4 text-sm font-semibold bg-blue-600 hover:bg-blue-500 text-white rounded-md disabled:opacity-50">{t('upscale.apply')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Shows two images of the history, or the edit background and a result, under one
+ * zoom and pan. B is drawn in A's frame, so results of another size are letterboxed.
+ */
+const CompareModal: React.FC<{
+    history: HistoryEntry[];
+    entry: CreateHistoryEntry | EditHistoryEntry;
+    originalUrl: string | null;
+    onClose: () => void;
+}> = ({ history, entry, originalUrl, onClose }) => {
+    const { t } = useI18n();
+    const sources = useMemo(() => {
+        const list: CompareSource[] = [];
+        if (originalUrl) list.push({ id: ORIGINAL_SOURCE_ID, label: t('compare.original'), url: originalUrl });
+        history.forEach((item, index) => {
+            if (item.mode === 'video') return;
+            const prompt = item.prompt.length > COMPARE_PROMPT_LENGTH ? `${item.prompt.slice(0, COMPARE_PROMPT_LENGTH)}…` : item.prompt;
+            list.push({ id: item.id, label: t('compare.entry', { number: index + 1, prompt }), url: item.imageUrl });
+        });
+        return list;
+    }, [history, originalUrl, t]);
+    // A starts as what B was made from: its parent, else the edit background, else the result before it
+    const [beforeId, setBeforeId] = useState(() => {
+        const parent = history.find(item => item.id === entry.parentId && item.mode !== 'video');
+        if (parent) return parent.id;
+        if (originalUrl) return ORIGINAL_SOURCE_ID;
+        const previous = history.slice(0, history.findIndex(item => item.id === entry.id)).reverse().find(item => item.mode !== 'video');
+        return previous?.id ?? entry.id;
+    });
+    const [afterId, setAfterId] = useState(entry.id);
+    const [layout, setLayout] = useState<CompareLayout>('slider');
+    const [split, setSplit] = useState(0.5);
+    const [isDraggingSplit, setIsDraggingSplit] = useState(false);
+    const [opacity, setOpacity] = useState(0.5);
+    const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const layerRef = useRef<HTMLDivElement>(null);
+    const { zoom, pan, fitContent, handleZoom, startPan, panHandlers } = useZoomPan(containerRef);
+    const before = sources.find(s => s.id === beforeId) ?? sources[0];
+    const after = sources.find(s => s.id === afterId) ?? sources[0];
+
+    const fitToScreen = useCallback(() => {
+        if (size) fitContent(size.width, size.height);
+    }, [size, fitContent]);
+
+    useEffect(fitToScreen, [fitToScreen, layout]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onClose]);
+
+    // The split follows the mouse anywhere on the page until the button is released
+    useEffect(() => {
+        if (!isDraggingSplit) return;
+        const handleMove = (e: MouseEvent) => {
+            const rect = layerRef.current?.getBoundingClientRect();
+            if (rect && rect.width > 0) setSplit(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)));
+        };
+        const handleUp = () => setIsDraggingSplit(false);
+        window.addEventListener('mousemove', handleMove);
+        window.addEventListener('mouseup', handleUp);
+        return () => {
+            window.removeEventListener('mousemove', handleMove);
+            window.removeEventListener('mouseup', handleUp);
+        };
+    }, [isDraggingSplit]);
+
+    const handleSwap = () => {
+        setBeforeId(afterId);
+        setAfterId(beforeId);
+    };
+
+    const handleBeforeLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const { naturalWidth, naturalHeight } = e.currentTarget;
+        setSize(current => current?.width === naturalWidth && current?.height === naturalHeight ? current : { width: naturalWidth, height: naturalHeight });
+    };
+
+    // Content in image pixels; every pane moves it with the same transform
+    const renderLayer = (children: React.ReactNode, ref?: React.Ref<HTMLDivElement>) => (
+        <div ref={ref} className="absolute top-0 left-0" style={{ width: size?.width, height: size?.height, transformOrigin: '0 0', transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }}>
+            {children}
+        </div>
+    );
+    const renderBefore = () => <img key={before.url} src={before.url} alt={before.label} onLoad={handleBeforeLoad} draggable={false} className="block w-full h-full object-contain pointer-events-none select-none" />;
+    const renderAfter = (style?: React.CSSProperties) => <img key={after.url} src={after.url} alt={after.label} draggable={false} className="absolute inset-0 w-full h-full object-contain pointer-events-none select-none" style={style} />;
+    const renderBadge = (label: string, position: string) => <span className={`absolute top-3 ${position} z-10 px-2 py-0.5 text-xs font-bold text-white bg-black/60 rounded pointer-events-none`}>{label}</span>;
+    const paneClass = "relative flex-1 overflow-hidden cursor-grab bg-[#050505]";
+    const sourceSelect = (labelKey: MessageKey, value: string, onChange: (id: string) => void) => (
+        <label className="flex items-center gap-2 min-w-0">
+            <span className="text-xs font-bold text-zinc-400">{t(labelKey)}</span>
+            <div className="custom-select-wrapper w-56 min-w-0">
+                <select value={value} onChange={(e) => onChange(e.target.value)} className="custom-select">
+                    {sources.map(source => <option key={source.id} value={source.id}>{source.label}</option>)}
+                </select>
+            </div>
+        </label>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex flex-col bg-[#050505]">
+            <div className="flex flex-wrap items-center gap-3 p-3 bg-zinc-900 border-b border-zinc-800">
+                <h2 className="flex items-center gap-2 text-sm font-bold text-zinc-100 mr-2"><Icons.Compare /> {t('compare.title')}</h2>
+                {sourceSelect('compare.before', before.id, setBeforeId)}
+                <button onClick={handleSwap} title={t('compare.swap')} className="p-1.5 text-zinc-300 hover:bg-zinc-700 rounded-md transition-colors"><Icons.Swap /></button>
+                {sourceSelect('compare.after', after.id, setAfterId)}
+                <div className="flex bg-zinc-800 rounded-md p-1 gap-1">
+                    {COMPARE_LAYOUTS.map(option => (
+                        <button key={option.id} onClick={() => setLayout(option.id)} className={`px-3 py-1 text-xs font-semibold rounded transition-colors ${layout === option.id ? 'bg-zinc-600 text-white' : 'text-zinc-400 hover:text-white'}`}>{t(option.labelKey)}</button>
+                    ))}
+                </div>
+                {layout === 'onion' && (
+                    <label className="flex items-center gap-2 text-xs text-zinc-400">
+                        {t('compare.opacity')}
+                        <input type="range" min={0} max={1} step={0.01} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} className="w-28 accent-blue-500" />
+                        <span className="w-9 text-right">{Math.round(opacity * 100)}%</span>
+                    </label>
+                )}
+                <div className="flex items-center gap-1 ml-auto">
+                    <button onClick={() => handleZoom('out')} className="p-1.5 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300" title={t('canvas.zoomOut')}><Icons.ZoomOut /></button>
+                    <span className="text-xs font-semibold text-zinc-300 w-12 text-center select-none">{Math.round(zoom * 100)}%</span>
+                    <button onClick={() => handleZoom('in')} className="p-1.5 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300" title={t('canvas.zoomIn')}><Icons.ZoomIn /></button>
+                    <button onClick={fitToScreen} className="p-1.5 hover:bg-zinc-700 rounded-md transition-colors text-zinc-300" title={t('canvas.fit')}><Icons.FitScreen /></button>
+                    <div className="w-px h-5 bg-zinc-700 mx-1"></div>
+                    <button onClick={onClose} className="p-1.5 text-zinc-400 hover:text-white rounded-md"><Icons.Close /></button>
+                </div>
+            </div>
+            <div className="flex-1 flex gap-px bg-zinc-800 min-h-0">
+                <div ref={containerRef} className={paneClass} {...panHandlers} onMouseDown={startPan}>
+                    {renderBadge(t('compare.before'), 'left-3')}
+                    {layout !== 'sideBySide' && renderBadge(t('compare.after'), 'right-3')}
+                    {renderLayer(
+                        <>
+                            {renderBefore()}
+                            {layout === 'slider' && renderAfter({ clipPath: `inset(0 0 0 ${split * 100}%)` })}
+                            {layout === 'onion' && renderAfter({ opacity })}
+                            {layout === 'slider' && (
+                                // Drawn in image space, so the line and knob are scaled back to a constant screen size
+                                <div
+                                    className="absolute inset-y-0 flex justify-center cursor-ew-resize"
+                                    style={{ left: `${split * 100}%`, width: 24 / zoom, marginLeft: -12 / zoom }}
+                                    onMouseDown={(e) => { e.stopPropagation(); e.preventDefault(); setIsDraggingSplit(true); }}
+                                >
+                                    <div className="h-full bg-white shadow-[0_0_4px_rgba(0,0,0,0.6)]" style={{ width: 2 / zoom }} />
+                                    <div className="absolute top-1/2 left-1/2 flex items-center justify-center w-8 h-8 rounded-full bg-white text-black shadow-xl" style={{ transform: `translate(-50%, -50%) scale(${1 / zoom})` }}><Icons.Swap className="!text-lg" /></div>
+                                </div>
+                            )}
+                        </>,
+                        layerRef,
+                    )}
+                </div>
+                {layout === 'sideBySide' && (
+                    <div className={paneClass} {...panHandlers} onMouseDown={startPan}>
+                        {renderBadge(t('compare.after'), 'left-3')}
+                        {renderLayer(renderAfter())}
+                    </div>
+                )}
+            </div>
+            <p className="px-3 py-2 text-[11px] text-zinc-500 bg-zinc-900 border-t border-zinc-800">{t('compare.hint')}</p>
+        </div>
+    );
+};
+
+// Grid of all candidates generated by one batch request
+const BatchGrid: React.FC<{
+    candidates: { entry: CreateHistoryEntry; index: number }[];
+    activeIndex: number;
+    onSelect: (index: number) => void;
+    onToggleFavorite: (id: string) => void;
+    onDiscardUnfavorited: () => void;
+    onMoreLikeThis: (entry: CreateHistoryEntry) => void;
+}> = ({ candidates, activeIndex, onSelect, onToggleFavorite, onDiscardUnfavorited, onMoreLikeThis }) => {
+    const { t } = useI18n();
+    const favoriteCount = candidates.filter(c => c.entry.isFavorite).length;
+    return (
+        <div className="w-full h-full flex flex-col bg-[#09090b] overflow-hidden">
+            <div className="shrink-0 flex items-center justify-between gap-3 px-6 py-3 border-b border-zinc-800/50">
+                <div className="text-sm text-zinc-300">
+                    <span className="font-semibold">{t('batch.count', { count: candidates.length })}</span>
+                    <span className="text-zinc-500 ml-2">{t(favoriteCount === 1 ? 'batch.favoriteOne' : 'batch.favoriteOther', { count: favoriteCount })}</span>
+                </div>
+                <button onClick={onDiscardUnfavorited} disabled={favoriteCount === 0 || favoriteCount === candidates.length} title={t('batch.discardHint')} className="flex items-center gap-1.5 py-1.5 px-3 text-xs font-semibold text-zinc-300 bg-zinc-800 hover:bg-zinc-700 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed"><Icons.Delete className="!text-base" /> {t('batch.discard')}</button>
+            </div>
+            <div className={`flex-1 min-h-0 overflow-y-auto p-6 grid gap-4 content-start ${candidates.length <= 4 ? 'grid-cols-2' : 'grid-cols-4'}`}>
+                {candidates.map(({ entry, index }) => (
+                    <div key={entry.id} className={`relative group rounded-lg overflow-hidden bg-zinc-900 ring-2 transition-all ${index === activeIndex ? 'ring-blue-500' : 'ring-transparent hover:ring-zinc-600'}`}>
+                        <button onClick={() => onSelect(index)} className="block w-full aspect-square" title={t('batch.open')}>
+                            <img src={entry.imageUrl} alt={entry.prompt} className="w-full h-full object-contain" />
+                        </button>
+                        <button onClick={() => onToggleFavorite(entry.id)} title={entry.isFavorite ? t('batch.unfavorite') : t('batch.favorite')} className={`absolute top-2 right-2 p-1.5 rounded-full bg-zinc-900/80 backdrop-blur-sm transition-colors ${entry.isFavorite ? 'text-amber-400' : 'text-zinc-400 hover:text-amber-300'}`}>
+                            <Icons.Star style={{ fontVariationSettings: `'FILL' ${entry.isFavorite ? 1 : 0}` }} />
+                        </button>
+                        <button onClick={() => onMoreLikeThis(entry)} className="absolute bottom-2 left-1/2 -translate-x-1/2 flex items-center gap-1 py-1 px-3 text-xs font-semibold text-black bg-white rounded-full shadow-lg opacity-0 group-hover:opacity-100 transition-opacity"><Icons.Variations className="!text-base" /> {t('batch.moreLikeThis')}</button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const JOB_STATUS_LABELS: Record<JobStatus, MessageKey> = {
+    queued: 'jobs.status.queued',
+    running: 'jobs.status.running',
+    done: 'jobs.status.done',
+    failed: 'jobs.status.failed',
+    cancelled: 'jobs.status.cancelled',
+};
+
+const formatElapsed = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Floating list of background jobs with their progress, elapsed time and a cancel button
+const JobQueuePanel: React.FC<{ queue: JobQueue }> = ({ queue }) => {
+    const { t } = useI18n();
+    const { jobs, cancel, retry, switchModel, clearFinished, activeCount } = queue;
+    const [isCollapsed, setIsCollapsed] = useState(false);
+    const [now, setNow] = useState(Date.now());
+
+    // Re-render every second while something is running so elapsed times stay current
+    useEffect(() => {
+        if (activeCount === 0) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [activeCount]);
+
+    if (jobs.length === 0) return null;
+    const kindIcon = (kind: Mode) => kind === 'video' ? <Icons.Video className="!text-base" /> : (kind === 'edit' ? <Icons.Edit className="!text-base" /> : <Icons.Create className="!text-base" />);
+
+    return (
+        <div className="absolute bottom-4 right-4 z-30 w-80 bg-zinc-900/95 backdrop-blur border border-zinc-700 rounded-lg shadow-2xl text-xs">
+            <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-800">
+                <button onClick={() => setIsCollapsed(c => !c)} className="flex items-center gap-1.5 font-semibold text-zinc-200">
+                    <Icons.Queue className="!text-base" />
+                    {t('jobs.title')} {activeCount > 0 && <span className="px-1.5 rounded-full bg-blue-600 text-white text-[10px]">{activeCount}</span>}
+                    <Icons.ChevronDown className={`!text-base transition-transform ${isCollapsed ? 'rotate-180' : ''}`} />
+                </button>
+                {jobs.length > activeCount && <button onClick={clearFinished} className="text-zinc-500 hover:text-zinc-200">{t('jobs.clearFinished')}</button>}
+            </div>
+            {!isCollapsed && (
+                <ul className="max-h-64 overflow-y-auto divide-y divide-zinc-800">
+                    {[...jobs].reverse().map(job => {
+                        const isActive = job.status === 'queued' || job.status === 'running';
+                        const elapsed = job.startedAt ? (job.finishedAt ?? now) - job.startedAt : 0;
+                        const label = t(job.label.key, job.label.params);
+                        return (
+                            <li key={job.id} className="px-3 py-2 space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <span className="text-zinc-500">{kindIcon(job.kind)}</span>
+                                    <span className="flex-1 min-w-0 truncate text-zinc-200" title={label}>{label}</span>
+                                    {isActive && <button onClick={() => cancel(job.id)} title={t('common.cancel')} className="p-0.5 text-zinc-500 hover:text-red-400 rounded"><Icons.Close className="!text-base" /></button>}
+                                </div>
+                                <div className="flex items-center justify-between text-[10px]">
+                                    <span className={job.status === 'failed' ? 'text-red-400' : (job.status === 'done' ? 'text-green-400' : 'text-zinc-500')}>{t(JOB_STATUS_LABELS[job.status])}</span>
+                                    {job.startedAt && <span className="text-zinc-500 font-mono">{formatElapsed(elapsed)}</span>}
+                                </div>
+                                {job.status === 'running' && (
+                                    <div className="h-1 bg-zinc-800 rounded overflow-hidden">
+                                        {job.progress !== null
+                                            ? <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+                                            : <div className="h-full w-1/3 bg-blue-500 animate-pulse" />}
+                                    </div>
+                                )}
+                                {job.detail && <p className="text-[10px] text-amber-400 break-words">{t(job.detail.key, job.detail.params)}</p>}
+                                {!!job.error && <p className="text-[10px] text-red-400 break-words">{describeError(t, job.error)}</p>}
+                                {job.status === 'failed' && (job.canRetry || job.canSwitchModel) && (
+                                    <div className="flex gap-2 pt-0.5">
+                                        {job.canRetry && <button onClick={() => retry(job.id)} className="flex items-center gap-1 px-2 py-0.5 text-[10px] font-semibold text-zinc-200 bg-zinc-800 hover:bg-zinc-700 rounded"><Icons.Redo className="!text-sm" /> {t('jobs.retry')}</button>}
+                                        {job.canSwitchModel && <button onClick={() => switchModel(job.id)} className="flex items-center gap-1 px-2 py-0.5 text-[10px] font-semibold text-zinc-200 bg-zinc-800 hover:bg-zinc-700 rounded"><Icons.Sparkles className="!text-sm" /> {t('jobs.useFlash')}</button>}
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const COMIC_EXPORT_FORMATS: { id: 'png' | 'pdf' | 'cbz'; labelKey: MessageKey }[] = [
+    { id: 'png', labelKey: 'comic.exportPng' },
+    { id: 'pdf', labelKey: 'comic.exportPdf' },
+    { id: 'cbz', labelKey: 'comic.exportCbz' },
+];
+const MIN_BALLOON_WIDTH = 0.08;
+
+// One balloon or caption over the page preview; positions and sizes are fractions of the page
+const ComicBalloonItem: React.FC<{
+    balloon: ComicBalloon;
+    pageWidth: number;
+    pageHeight: number;
+    isSelected: boolean;
+    onSelect: () => void;
+    onUpdate: (updates: Partial<ComicBalloon>) => void;
+    onDelete: () => void;
+}> = ({ balloon, pageWidth, pageHeight, isSelected, onSelect, onUpdate, onDelete }) => {
+    const { t } = useI18n();
+    const [isEditing, setIsEditing] = useState(false);
+    const strokeWidth = Math.max(1, (5 / COMIC_PAGE_WIDTH) * pageWidth);
+    const textStyle: React.CSSProperties = {
+        fontFamily: BALLOON_FONT_FAMILY,
+        fontSize: BALLOON_FONT_SIZE * pageWidth,
+        lineHeight: 1.25,
+        padding: `${BALLOON_PADDING_Y * pageWidth}px ${BALLOON_PADDING_X * pageWidth}px`,
+        textAlign: balloon.kind === 'speech' ? 'center' : 'left',
+    };
+
+    const startGesture = (e: React.MouseEvent, onMove: (dx: number, dy: number) => void) => {
+        e.preventDefault();
+        e.stopPropagation();
+        onSelect();
+        const start = { x: e.clientX, y: e.clientY };
+        const handleMouseMove = (moveEvent: MouseEvent) => onMove((moveEvent.clientX - start.x) / pageWidth, (moveEvent.clientY - start.y) / pageHeight);
+        const handleMouseUp = () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+    };
+
+    const handleMoveMouseDown = (e: React.MouseEvent) => {
+        if (isEditing) return;
+        const { x, y, width } = balloon;
+        startGesture(e, (dx, dy) => onUpdate({ x: Math.min(Math.max(0, x + dx), 1 - width), y: Math.min(Math.max(0, y + dy), 0.98) }));
+    };
+
+    const handleResizeMouseDown = (e: React.MouseEvent) => {
+        const { x, width } = balloon;
+        startGesture(e, (dx) => onUpdate({ width: Math.min(Math.max(MIN_BALLOON_WIDTH, width + dx), 1 - x) }));
+    };
+
+    return (
+        <div
+            className={`absolute select-none ${isEditing ? '' : 'cursor-move'}`}
+            style={{ left: `${balloon.x * 100}%`, top: `${balloon.y * 100}%`, width: `${balloon.width * 100}%` }}
+            onMouseDown={handleMoveMouseDown}
+            onDoubleClick={() => setIsEditing(true)}
+        >
+            {balloon.kind === 'speech' ? (
+                <>
+                    {/* Same tail geometry as the exported page */}
+                    <svg className="absolute left-0 top-0 w-full h-[145%] overflow-visible pointer-events-none" viewBox="0 0 100 145" preserveAspectRatio="none">
+                        <polygon points="32,80 20,145 48,90" fill="#fff" stroke="#000" strokeWidth={strokeWidth} vectorEffect="non-scaling-stroke" />
+                    </svg>
+                    <div className="absolute inset-0 bg-white rounded-[50%]" style={{ border: `${strokeWidth}px solid #000` }} />
+                </>
+            ) : (
+                <div className="absolute inset-0 bg-amber-100" style={{ border: `${strokeWidth}px solid #000` }} />
+            )}
+            {isEditing ? (
+                <textarea
+                    autoFocus
+                    value={balloon.text}
+                    onChange={(e) => onUpdate({ text: e.target.value })}
+                    onBlur={() => setIsEditing(false)}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    rows={Math.max(1, balloon.text.split('\n').length)}
+                    className="relative block w-full bg-transparent font-bold text-black resize-none focus:outline-none"
+                    style={textStyle}
+                />
+            ) : (
+                <div className="relative font-bold text-black whitespace-pre-wrap break-words" style={textStyle}>{balloon.text || ' '}</div>
+            )}
+            {isSelected && !isEditing && (
+                <>
+                    <div className="absolute inset-0 ring-2 ring-blue-500 ring-offset-1 pointer-events-none" />
+                    <div onMouseDown={handleResizeMouseDown} title={t('comic.resizeBalloon')} className="absolute top-1/2 -right-1.5 w-3 h-6 -translate-y-1/2 bg-blue-500 rounded-sm cursor-ew-resize" />
+                    <button onMouseDown={(e) => e.stopPropagation()} onClick={onDelete} title={t('common.remove')} className="absolute -top-3 -right-3 p-0.5 bg-zinc-900 text-zinc-300 hover:text-red-400 rounded-full border border-zinc-700"><Icons.Delete className="!text-sm" /></button>
+                </>
+            )}
+        </div>
+    );
+};
+
+// Page view of the comic mode: the panels in their layout, with balloons and captions on top
+const ComicPageEditor: React.FC<{
+    project: ComicProject;
+    setProject: React.Dispatch<React.SetStateAction<ComicProject>>;
+    activePageIndex: number;
+    setActivePageIndex: (index: number) => void;
+    generatingPanelIds: string[];
+}> = ({ project, setProject, activePageIndex, setActivePageIndex, generatingPanelIds }) => {
+    const { t } = useI18n();
+    const page = project.pages[activePageIndex];
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [pageWidth, setPageWidth] = useState(0);
+    const [selectedBalloonId, setSelectedBalloonId] = useState<string | null>(null);
+    const [exportingFormat, setExportingFormat] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const pageHeight = pageWidth * COMIC_PAGE_HEIGHT / COMIC_PAGE_WIDTH;
+
+    // The preview keeps the A4 proportions inside whatever room the window leaves
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const observer = new ResizeObserver(([observed]) => {
+            const { width, height } = observed.contentRect;
+            setPageWidth(Math.max(0, Math.min(width, height * COMIC_PAGE_WIDTH / COMIC_PAGE_HEIGHT)));
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    const updatePage = (update: (page: ComicPage) => ComicPage) => {
+        setProject(p => ({ ...p, pages: p.pages.map((pg, i) => i === activePageIndex ? update(pg) : pg) }));
+    };
+    const updateBalloon = (id: string, updates: Partial<ComicBalloon>) => {
+        updatePage(pg => ({ ...pg, balloons: pg.balloons.map(b => b.id === id ? { ...b, ...updates } : b) }));
+    };
+    const deleteBalloon = (id: string) => {
+        updatePage(pg => ({ ...pg, balloons: pg.balloons.filter(b => b.id !== id) }));
+        setSelectedBalloonId(null);
+    };
+    const addBalloon = (kind: ComicBalloon['kind']) => {
+        const balloon: ComicBalloon = kind === 'speech'
+            ? { id: `balloon-${Date.now()}`, kind, text: t('comic.newBalloon'), x: 0.35, y: 0.1, width: 0.3 }
+            : { id: `balloon-${Date.now()}`, kind, text: t('comic.newBalloon'), x: 0.06, y: 0.04, width: 0.4 };
+        updatePage(pg => ({ ...pg, balloons: [...pg.balloons, balloon] }));
+        setSelectedBalloonId(balloon.id);
+    };
+
+    const handleAddPage = () => {
+        setProject(p => ({ ...p, pages: [...p.pages, createComicPage(p.pages[p.pages.length - 1].layoutId)] }));
+        setActivePageIndex(project.pages.length);
+    };
+    const handleDeletePage = () => {
+        setProject(p => ({ ...p, pages: p.pages.filter((_, i) => i !== activePageIndex) }));
+        setActivePageIndex(Math.max(0, activePageIndex - 1));
+    };
+
+    const handleExport = async (format: 'png' | 'pdf' | 'cbz') => {
+        setExportingFormat(format);
+        setError(null);
+        try {
+            const name = t('comic.filename');
+            if (format === 'png') {
+                downloadUrl(await comicPageToPng(page, project.gutter), `${name} ${activePageIndex + 1}`);
+            } else if (format === 'pdf') {
+                downloadBlob(await comicPagesToPdf(project.pages, project.gutter), name, 'pdf');
+            } else {
+                downloadBlob(await comicPagesToCbz(project.pages, project.gutter), name, 'cbz');
+            }
+        } catch (e) {
+            setError(e);
+        } finally {
+            setExportingFormat(null);
+        }
+    };
+
+    const rects = computePanelRects(page.layoutId, project.gutter);
+    const toolbarButtonClass = "flex items-center gap-1.5 py-1.5 px-3 text-xs font-semibold text-zinc-200 bg-zinc-800 hover:bg-zinc-700 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+    return (
+        <div className="w-full h-full flex flex-col bg-[#09090b]">
+            <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-zinc-800 bg-zinc-900/60">
+                {project.pages.map((pg, i) => (
+                    <button key={pg.id} onClick={() => { setActivePageIndex(i); setSelectedBalloonId(null); }} className={`py-1.5 px-3 text-xs font-semibold rounded-full transition-colors ${i === activePageIndex ? 'bg-blue-600 text-white' : 'text-zinc-300 bg-zinc-800 hover:bg-zinc-700'}`}>{t('comic.page', { index: i + 1 })}</button>
+                ))}
+                <button onClick={handleAddPage} title={t('comic.addPage')} className="p-1.5 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-700 rounded-full"><Icons.Add className="!text-base" /></button>
+                <button onClick={handleDeletePage} disabled={project.pages.length <= 1} title={t('comic.deletePage')} className="p-1.5 text-zinc-500 hover:text-red-400 hover:bg-zinc-700 rounded-full disabled:opacity-40"><Icons.Delete className="!text-base" /></button>
+                <div className="w-px h-5 bg-zinc-700 mx-1" />
+                <button onClick={() => addBalloon('speech')} className={toolbarButtonClass}><Icons.Comic className="!text-base" /> {t('comic.addBalloon')}</button>
+                <button onClick={() => addBalloon('caption')} className={toolbarButtonClass}><Icons.Type className="!text-base" /> {t('comic.addCaption')}</button>
+                <div className="flex-1" />
+                {COMIC_EXPORT_FORMATS.map(format => (
+                    <button key={format.id} onClick={() => handleExport(format.id)} disabled={exportingFormat !== null} className={toolbarButtonClass}>
+                        {exportingFormat === format.id ? <Icons.Spinner className="h-4 w-4" /> : <Icons.Save className="!text-base" />} {exportingFormat === format.id ? t('comic.exporting') : t(format.labelKey)}
+                    </button>
+                ))}
+            </div>
+            {error && <p className="px-4 py-2 text-xs text-red-300 bg-red-900/30 border-b border-red-800/50">{describeError(t, error)}</p>}
+            <div ref={containerRef} className="flex-1 min-h-0 m-4 flex items-center justify-center" onMouseDown={() => setSelectedBalloonId(null)}>
+                {pageWidth > 0 && (
+                    <div className="relative bg-white shadow-2xl ring-1 ring-white/10 overflow-hidden" style={{ width: pageWidth, height: pageHeight }}>
+                        {rects.map((rect, i) => {
+                            const panel = page.panels[i];
+                            return (
+                                <div
+                                    key={panel.id}
+                                    className="absolute bg-zinc-100 overflow-hidden flex items-center justify-center"
+                                    style={{
+                                        left: `${rect.x / COMIC_PAGE_WIDTH * 100}%`,
+                                        top: `${rect.y / COMIC_PAGE_HEIGHT * 100}%`,
+                                        width: `${rect.width / COMIC_PAGE_WIDTH * 100}%`,
+                                        height: `${rect.height / COMIC_PAGE_HEIGHT * 100}%`,
+                                        border: `${Math.max(1, (6 / COMIC_PAGE_WIDTH) * pageWidth)}px solid #000`,
+                                    }}
+                                >
+                                    {panel.imageUrl
+                                        ? <img src={panel.imageUrl} alt={panel.script} className="w-full h-full object-cover pointer-events-none" />
+                                        : <span className="text-xs font-semibold text-zinc-400 px-2 text-center">{t('comic.panel', { index: i + 1 })}</span>}
+                                    {generatingPanelIds.includes(panel.id) && (
+                                        <div className="absolute inset-0 flex items-center justify-center bg-black/40"><Icons.Spinner className="h-6 w-6 text-white" /></div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        {page.balloons.map(balloon => (
+                            <ComicBalloonItem
+                                key={balloon.id}
+                                balloon={balloon}
+                                pageWidth={pageWidth}
+                                pageHeight={pageHeight}
+                                isSelected={balloon.id === selectedBalloonId}
+                                onSelect={() => setSelectedBalloonId(balloon.id)}
+                                onUpdate={(updates) => updateBalloon(balloon.id, updates)}
+                                onDelete={() => deleteBalloon(balloon.id)}
+                            />
+                        ))}
+                    </div>
+                )}
+            </div>
+            <p className="pb-3 text-center text-xs text-zinc-500">{t('comic.editHint')}</p>
+        </div>
+    );
+};
+
+type FrameTarget = 'edit' | 'reference' | 'startFrame';
+
+// Player for generated videos with frame stepping; the frame on screen can be saved or handed to another mode
+const VideoFramePlayer: React.FC<{
+    videoUrl: string;
+    prompt: string;
+    onUseFrame: (target: FrameTarget, image: UploadedImage, previewUrl: string) => void;
+}> = ({ videoUrl, prompt, onUseFrame }) => {
+    const { t } = useI18n();
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [duration, setDuration] = useState(0);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [error, setError] = useState<unknown>(null);
+
+    // The element may not know the duration of a recorded WebM, so it is measured separately
+    useEffect(() => {
+        let isCancelled = false;
+        setDuration(0);
+        setError(null);
+        getVideoDuration(videoUrl).then(value => { if (!isCancelled) setDuration(value); }, e => { if (!isCancelled) setError(e); });
+        return () => { isCancelled = true; };
+    }, [videoUrl]);
+
+    const lastFrame = Math.max(0, Math.ceil(duration * VIDEO_FRAME_RATE) - 1);
+    const currentFrame = Math.min(lastFrame, timeToFrame(currentTime));
+
+    const seekToFrame = (frame: number) => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.pause();
+        video.currentTime = frameToTime(Math.max(0, Math.min(lastFrame, frame)));
+    };
+    const togglePlayback = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        if (video.paused) video.play().catch(setError); else video.pause();
+    };
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+            e.preventDefault();
+            seekToFrame(currentFrame + (e.key === 'ArrowLeft' ? -1 : 1) * (e.shiftKey ? VIDEO_FRAME_RATE : 1));
+        } else if (e.key === ' ') {
+            e.preventDefault();
+            togglePlayback();
+        }
+    };
+
+    const captureFrame = () => {
+        const video = videoRef.current!;
+        video.pause();
+        return captureCurrentFrame(video);
+    };
+    const handleUseFrame = (target: FrameTarget) => {
+        const previewUrl = captureFrame();
+        onUseFrame(target, dataUrlToUploadedImage(previewUrl), previewUrl);
+    };
+
+    const actionClass = "flex items-center gap-1.5 py-1.5 px-3 text-xs font-semibold text-zinc-200 bg-zinc-800 hover:bg-zinc-700 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+    const isReady = duration > 0;
+
+    return (
+        <div className="w-full min-h-0 flex-1 flex flex-col items-center gap-3 z-10 outline-none" tabIndex={0} onKeyDown={handleKeyDown}>
+            <video
+                ref={videoRef}
+                key={videoUrl}
+                src={videoUrl}
+                autoPlay
+                loop
+                onClick={togglePlayback}
+                onPlay={() => setIsPlaying(true)}
+                onPause={() => setIsPlaying(false)}
+                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                className="max-w-full min-h-0 flex-1 rounded-lg shadow-2xl ring-1 ring-white/10 cursor-pointer"
+            />
+            <div className="w-full max-w-3xl flex items-center gap-2">
+                <button onClick={togglePlayback} title={isPlaying ? t('frames.pause') : t('frames.play')} className="p-1.5 text-zinc-200 hover:bg-zinc-800 rounded-full">{isPlaying ? <Icons.Pause /> : <Icons.Play />}</button>
+                <button onClick={() => seekToFrame(currentFrame - 1)} disabled={!isReady} title={t('frames.previous')} className="p-1.5 text-zinc-300 hover:bg-zinc-800 rounded-full disabled:opacity-40"><Icons.FramePrevious /></button>
+                <input type="range" min={0} max={lastFrame} step={1} value={currentFrame} disabled={!isReady} onChange={(e) => seekToFrame(Number(e.target.value))} className="flex-1 accent-blue-500" aria-label={t('frames.scrubber')} />
+                <button onClick={() => seekToFrame(currentFrame + 1)} disabled={!isReady} title={t('frames.next')} className="p-1.5 text-zinc-300 hover:bg-zinc-800 rounded-full disabled:opacity-40"><Icons.FrameNext /></button>
+                <span className="w-36 text-right text-[11px] font-mono text-zinc-400">{t('frames.position', { frame: currentFrame + 1, total: lastFrame + 1, time: currentTime.toFixed(2) })}</span>
+            </div>
+            <div className="flex flex-wrap justify-center gap-2">
+                <button onClick={() => downloadUrl(captureFrame(), `${prompt || t('display.defaultFilename')} ${currentFrame + 1}`)} disabled={!isReady} className={actionClass}><Icons.Camera className="!text-base" /> {t('frames.capture')}</button>
+                <button onClick={() => handleUseFrame('edit')} disabled={!isReady} className={actionClass}><Icons.Edit className="!text-base" /> {t('frames.sendToEdit')}</button>
+                <button onClick={() => handleUseFrame('reference')} disabled={!isReady} className={actionClass}><Icons.Reference className="!text-base" /> {t('frames.useAsReference')}</button>
+                <button onClick={() => handleUseFrame('startFrame')} disabled={!isReady} className={actionClass}><Icons.Start className="!text-base" /> {t('frames.useAsStartFrame')}</button>
+            </div>
+            {error && <p className="text-xs text-red-300">{describeError(t, error)}</p>}
+        </div>
+    );
+};
+
+// Timeline of the storyboard video function: preview, reorder and trim the shots, then export them as one video
+const StoryboardEditor: React.FC<{
+    shots: StoryboardShot[];
+    setShots: React.Dispatch<React.SetStateAction<StoryboardShot[]>>;
+    generatingShotIds: string[];
+}> = ({ shots, setShots, generatingShotIds }) => {
+    const { t } = useI18n();
+    const [selectedShotId, setSelectedShotId] = useState<string | null>(null);
+    const [isPlayingAll, setIsPlayingAll] = useState(false);
+    const [exportProgress, setExportProgress] = useState<number | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const draggedShotIdRef = useRef<string | null>(null);
+    const exportAbortRef = useRef<AbortController | null>(null);
+
+    const clips = shots.filter(shot => shot.videoUrl);
+    const selectedShot = shots.find(shot => shot.id === selectedShotId && shot.videoUrl) ?? clips[0] ?? null;
+    const totalLength = clips.reduce((sum, shot) => sum + getShotLength(shot), 0);
+
+    const updateShot = (id: string, updates: Partial<StoryboardShot>) => {
+        setShots(current => current.map(shot => shot.id === id ? { ...shot, ...updates } : shot));
+    };
+
+    // The preview only plays the trimmed part; when playing the whole timeline it moves on to the next clip
+    const handleTimeUpdate = () => {
+        const video = videoRef.current;
+        if (!video || !selectedShot || video.currentTime < selectedShot.duration - selectedShot.trimEnd) return;
+        const next = clips[clips.indexOf(selectedShot) + 1];
+        if (isPlayingAll && next) {
+            setSelectedShotId(next.id);
+        } else {
+            video.pause();
+            video.currentTime = selectedShot.trimStart;
+            setIsPlayingAll(false);
+        }
+    };
+    const handleLoadedMetadata = () => {
+        const video = videoRef.current;
+        if (!video || !selectedShot) return;
+        video.currentTime = selectedShot.trimStart;
+        if (isPlayingAll) video.play().catch(() => setIsPlayingAll(false));
+    };
+    const handlePlayAll = () => {
+        if (clips.length === 0) return;
+        setIsPlayingAll(true);
+        if (selectedShot?.id === clips[0].id && videoRef.current) {
+            videoRef.current.currentTime = clips[0].trimStart;
+            videoRef.current.play().catch(() => setIsPlayingAll(false));
+        } else {
+            setSelectedShotId(clips[0].id);
+        }
+    };
+
+    const handleDrop = (targetIndex: number) => {
+        const draggedId = draggedShotIdRef.current;
+        draggedShotIdRef.current = null;
+        if (draggedId) setShots(current => moveShot(current, draggedId, targetIndex));
+    };
+
+    const handleExport = async () => {
+        const controller = new AbortController();
+        exportAbortRef.current = controller;
+        setError(null);
+        setIsPlayingAll(false);
+        videoRef.current?.pause();
+        setExportProgress(0);
+        try {
+            downloadBlob(await exportStoryboard(shots, setExportProgress, controller.signal), t('storyboard.filename'), 'webm');
+        } catch (e) {
+            if (!controller.signal.aborted) setError(e);
+        } finally {
+            exportAbortRef.current = null;
+            setExportProgress(null);
+        }
     };
 
+    const toolbarButtonClass = "flex items-center gap-1.5 py-1.5 px-3 text-xs font-semibold text-zinc-200 bg-zinc-800 hover:bg-zinc-700 rounded-full transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+    const formatSeconds = (seconds: number) => t('storyboard.seconds', { seconds: seconds.toFixed(1) });
+    // Clips are as wide as their trimmed length, so the strip reads like an editing timeline
+    const getClipWidth = (shot: StoryboardShot) => (shot.videoUrl ? Math.max(96, getShotLength(shot) * 24) : 96);
+
     return (
-        <div className="relative w-full h-full flex items-center justify-center p-6 group bg-[#09090b]">
-             <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-zinc-900/40 to-zinc-950 pointer-events-none"></div>
-            <img key={imageUrl} src={imageUrl} alt={prompt} className="max-w-full max-h-full object-contain rounded-lg shadow-2xl ring-1 ring-white/10 z-10" />
-            <div className="absolute bottom-8 left-1/2 -translate-x-1/2 opacity-0 group-hover:opacity-100 transition-all duration-300 z-20 translate-y-4 group-hover:translate-y-0">
-                <button 
-                    onClick={handleDownload}
-                    className="flex items-center gap-2 py-2.5 px-6 bg-white text-black font-semibold rounded-full hover:bg-zinc-200 transition-colors shadow-xl transform hover:scale-105"
-                    title="Baixar imagem"
-                >
-                    <Icons.Save className="text-black" />
-                    <span>Baixar Original</span>
-                </button>
+        <div className="w-full h-full flex flex-col bg-[#09090b]">
+            <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-zinc-800 bg-zinc-900/60">
+                <button onClick={handlePlayAll} disabled={clips.length === 0 || exportProgress !== null} className={toolbarButtonClass}><Icons.Start className="!text-base" /> {t('storyboard.playAll')}</button>
+                <span className="text-xs text-zinc-500">{t('storyboard.total', { length: formatSeconds(totalLength) })}</span>
+                <div className="flex-1" />
+                {exportProgress !== null ? (
+                    <>
+                        <span className="flex items-center gap-1.5 text-xs text-zinc-300"><Icons.Spinner className="h-4 w-4" /> {t('storyboard.exporting', { percent: Math.round(exportProgress * 100) })}</span>
+                        <button onClick={() => exportAbortRef.current?.abort()} className={toolbarButtonClass}><Icons.Close className="!text-base" /> {t('common.cancel')}</button>
+                    </>
+                ) : (
+                    <button onClick={handleExport} disabled={totalLength === 0} className={toolbarButtonClass}><Icons.Save className="!text-base" /> {t('storyboard.export')}</button>
+                )}
+            </div>
+            {error && <p className="px-4 py-2 text-xs text-red-300 bg-red-900/30 border-b border-red-800/50">{describeError(t, error)}</p>}
+            <div className="flex-1 min-h-0 m-4 flex items-center justify-center">
+                {selectedShot ? (
+                    <video
+                        ref={videoRef}
+                        key={selectedShot.id}
+                        src={selectedShot.videoUrl!}
+                        controls
+                        onLoadedMetadata={handleLoadedMetadata}
+                        onTimeUpdate={handleTimeUpdate}
+                        className="max-w-full max-h-full rounded-lg shadow-2xl ring-1 ring-white/10"
+                    />
+                ) : (
+                    <p className="max-w-sm text-center text-sm text-zinc-500">{t('storyboard.empty')}</p>
+                )}
+            </div>
+            {selectedShot && (
+                <div className="mx-4 mb-3 grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="flex justify-between text-xs font-medium text-zinc-400 mb-1"><span>{t('storyboard.trimStart')}</span><span className="text-zinc-500">{formatSeconds(selectedShot.trimStart)}</span></label>
+                        <input type="range" min={0} max={Math.max(0, selectedShot.duration - selectedShot.trimEnd - MIN_SHOT_LENGTH)} step={0.1} value={selectedShot.trimStart} onChange={(e) => updateShot(selectedShot.id, { trimStart: Number(e.target.value) })} className="w-full accent-blue-500" aria-label={t('storyboard.trimStart')} />
+                    </div>
+                    <div>
+                        <label className="flex justify-between text-xs font-medium text-zinc-400 mb-1"><span>{t('storyboard.trimEnd')}</span><span className="text-zinc-500">{formatSeconds(selectedShot.trimEnd)}</span></label>
+                        <input type="range" min={0} max={Math.max(0, selectedShot.duration - selectedShot.trimStart - MIN_SHOT_LENGTH)} step={0.1} value={selectedShot.trimEnd} onChange={(e) => updateShot(selectedShot.id, { trimEnd: Number(e.target.value) })} className="w-full accent-blue-500" aria-label={t('storyboard.trimEnd')} />
+                    </div>
+                </div>
+            )}
+            <div className="flex gap-2 overflow-x-auto custom-scrollbar px-4 pb-3">
+                {shots.map((shot, i) => (
+                    <button
+                        key={shot.id}
+                        draggable
+                        onDragStart={() => { draggedShotIdRef.current = shot.id; }}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={(e) => { e.preventDefault(); handleDrop(i); }}
+                        onClick={() => { if (shot.videoUrl) { setSelectedShotId(shot.id); setIsPlayingAll(false); } }}
+                        style={{ width: getClipWidth(shot) }}
+                        className={`relative shrink-0 h-20 rounded-md overflow-hidden border-2 bg-zinc-900 cursor-grab transition-colors ${shot.id === selectedShot?.id ? 'border-blue-500' : 'border-zinc-800 hover:border-zinc-600'}`}
+                    >
+                        {shot.videoUrl
+                            ? <video src={`${shot.videoUrl}#t=${shot.trimStart}`} muted preload="metadata" className="w-full h-full object-cover pointer-events-none" />
+                            : <span className="flex h-full items-center justify-center px-2 text-[10px] text-zinc-500">{t('storyboard.notGenerated')}</span>}
+                        <span className="absolute top-1 left-1 px-1.5 rounded bg-black/70 text-[10px] font-semibold text-white">{t('storyboard.shot', { index: i + 1 })}</span>
+                        {shot.videoUrl && <span className="absolute bottom-1 right-1 px-1.5 rounded bg-black/70 text-[10px] text-zinc-200">{formatSeconds(getShotLength(shot))}</span>}
+                        {generatingShotIds.includes(shot.id) && (
+                            <div className="absolute inset-0 flex items-center justify-center bg-black/50"><Icons.Spinner className="h-5 w-5 text-white" /></div>
+                        )}
+                    </button>
+                ))}
             </div>
+            <p className="pb-3 text-center text-xs text-zinc-500">{t('storyboard.editHint')}</p>
         </div>
     );
 };
@@ -805,9 +3568,25 @@ const MainContentDisplay: React.FC<{
     editState: EditState;
     setEditState: React.Dispatch<React.SetStateAction<EditState>>;
     canvasRef: React.RefObject<HTMLDivElement>;
+    layerHistory: LayerHistory;
     onConfirm: () => void;
     onCancel: () => void;
-}> = ({ isLoading, loadingMessage, currentEntry, mode, editState, setEditState, canvasRef, onConfirm, onCancel }) => {
+    history: HistoryEntry[];
+    historyIndex: number;
+    isBatchGridOpen: boolean;
+    setIsBatchGridOpen: (isOpen: boolean) => void;
+    onSelectEntry: (index: number) => void;
+    onToggleFavorite: (id: string) => void;
+    onDiscardUnfavorited: (batchId: string) => void;
+    onMoreLikeThis: (entry: CreateHistoryEntry) => void;
+    onOpenSticker: (entry: CreateHistoryEntry) => void;
+    onOpenVector: (entry: CreateHistoryEntry) => void;
+    onOpenCompare: (entry: CreateHistoryEntry | EditHistoryEntry) => void;
+    onOpenUpscale: (entry: CreateHistoryEntry | EditHistoryEntry) => void;
+    onUseFrame: (target: FrameTarget, image: UploadedImage, previewUrl: string) => void;
+    onApplyAdjustments: () => void;
+}> = ({ isLoading, loadingMessage, currentEntry, mode, editState, setEditState, canvasRef, layerHistory, onConfirm, onCancel, onApplyAdjustments, history, historyIndex, isBatchGridOpen, setIsBatchGridOpen, onSelectEntry, onToggleFavorite, onDiscardUnfavorited, onMoreLikeThis, onOpenSticker, onOpenVector, onOpenCompare, onOpenUpscale, onUseFrame }) => {
+    const { t } = useI18n();
     if (isLoading) {
         return (
             <div className="flex flex-col items-center justify-center h-full text-center text-zinc-400 p-8 bg-zinc-950">
@@ -826,35 +3605,90 @@ const MainContentDisplay: React.FC<{
     }
 
     if (currentEntry?.mode === 'video') {
+        const batchId = currentEntry.batchId;
+        const takes = batchId ? history.map((entry, index) => ({ entry, index })).filter(c => c.entry.mode === 'video' && c.entry.batchId === batchId) : [];
         return (
-            <div className="w-full h-full flex items-center justify-center p-4 bg-[#09090b]">
+            <div className="w-full h-full flex flex-col items-center justify-center gap-3 p-4 bg-[#09090b]">
                  <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-indigo-900/10 via-zinc-950 to-zinc-950 pointer-events-none"></div>
-                <video key={currentEntry.videoUrl} src={currentEntry.videoUrl} controls autoPlay loop className="max-w-full max-h-full rounded-lg shadow-2xl ring-1 ring-white/10 z-10" />
+                <VideoFramePlayer videoUrl={currentEntry.videoUrl} prompt={currentEntry.prompt} onUseFrame={onUseFrame} />
+                {takes.length > 1 && (
+                    <div className="flex bg-zinc-900/90 border border-zinc-700 rounded-full p-1 gap-1 z-10">
+                        {takes.map(({ index }, position) => (
+                            <button key={index} onClick={() => onSelectEntry(index)} className={`px-3 py-1 text-xs font-semibold rounded-full transition-colors ${index === historyIndex ? 'bg-zinc-100 text-black' : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'}`}>{t('video.take', { number: position + 1 })}</button>
+                        ))}
+                    </div>
+                )}
             </div>
         );
     }
     
     const imageToShow = currentEntry?.mode === 'edit' ? currentEntry.imageUrl : (currentEntry?.mode === 'create' ? currentEntry.imageUrl : null);
+    // Post-processing tools offered next to the download button, per create function
+    const resultActionClass = "flex items-center gap-2 py-2.5 px-6 bg-zinc-900/90 text-zinc-100 font-semibold rounded-full hover:bg-zinc-800 border border-zinc-700 transition-colors shadow-xl";
+    let resultActions: React.ReactNode = null;
+    if (currentEntry?.mode === 'create' && currentEntry.createFunction === 'sticker') {
+        resultActions = <button onClick={() => onOpenSticker(currentEntry)} className={resultActionClass}><Icons.Cut /> <span>{t('sticker.open')}</span></button>;
+    } else if (currentEntry?.mode === 'create' && currentEntry.createFunction === 'text') {
+        resultActions = <button onClick={() => onOpenVector(currentEntry)} className={resultActionClass}><Icons.Vector /> <span>{t('vector.open')}</span></button>;
+    }
+    if (imageToShow) {
+        resultActions = (
+            <>
+                {resultActions}
+                <button onClick={() => onOpenCompare(currentEntry)} className={resultActionClass}><Icons.Compare /> <span>{t('compare.open')}</span></button>
+                <button onClick={() => onOpenUpscale(currentEntry)} className={resultActionClass}><Icons.Upscale /> <span>{t('upscale.open')}</span></button>
+            </>
+        );
+    }
 
     if (mode === 'edit' && editState.backgroundPreviewUrl) {
-        if (editState.references.length > 0) {
-            return <InteractiveCanvas editState={editState} setEditState={setEditState} canvasRef={canvasRef} onConfirm={onConfirm} onCancel={onCancel} />;
+        if (editState.editFunction === 'adjust' && hasAdjustments(editState.adjustments)) {
+            return <AdjustmentPreview imageUrl={editState.backgroundPreviewUrl} adjustments={editState.adjustments} onReset={() => setEditState(s => ({ ...s, adjustments: DEFAULT_ADJUSTMENTS }))} onApply={onApplyAdjustments} />;
+        }
+        if (editState.references.length > 0 || editState.editFunction === 'inpaint') {
+            return <InteractiveCanvas editState={editState} setEditState={setEditState} canvasRef={canvasRef} layerHistory={layerHistory} onConfirm={onConfirm} onCancel={onCancel} />;
         }
          // Show the latest generated image if available, otherwise the background.
         const displayUrl = imageToShow || editState.backgroundPreviewUrl;
-        const displayPrompt = currentEntry?.prompt || 'Imagem editada';
-        return <ImageDisplayWithActions imageUrl={displayUrl} prompt={displayPrompt} />;
+        const displayPrompt = currentEntry?.prompt || t('display.editedImage');
+        const display = <ImageDisplayWithActions imageUrl={displayUrl} prompt={displayPrompt} entry={imageToShow && currentEntry?.mode === 'edit' ? currentEntry : null} actions={imageToShow ? resultActions : null} />;
+        if (editState.editFunction === 'extend') {
+            return <ExtendCanvasPreview imageUrl={editState.backgroundPreviewUrl} extension={editState.extension} fallback={display} />;
+        }
+        return display;
+    }
+
+    if (currentEntry?.mode === 'create' && currentEntry.batchId) {
+        const batchId = currentEntry.batchId;
+        const candidates = history
+            .map((entry, index) => ({ entry, index }))
+            .filter((c): c is { entry: CreateHistoryEntry; index: number } => c.entry.mode === 'create' && c.entry.batchId === batchId);
+        if (candidates.length > 1) {
+            if (isBatchGridOpen) {
+                return <BatchGrid candidates={candidates} activeIndex={historyIndex} onSelect={onSelectEntry} onToggleFavorite={onToggleFavorite} onDiscardUnfavorited={() => onDiscardUnfavorited(batchId)} onMoreLikeThis={onMoreLikeThis} />;
+            }
+            return (
+                <div className="relative w-full h-full">
+                    <ImageDisplayWithActions imageUrl={currentEntry.imageUrl} prompt={currentEntry.prompt} entry={currentEntry} actions={resultActions} />
+                    <div className="absolute top-4 left-4 z-30 flex items-center gap-2">
+                        <button onClick={() => setIsBatchGridOpen(true)} className="flex items-center gap-1.5 py-1.5 px-3 text-xs font-semibold text-zinc-200 bg-zinc-900/80 hover:bg-zinc-800 rounded-full backdrop-blur-sm border border-zinc-700 transition-colors"><Icons.GridView className="!text-base" /> {t('batch.showGrid', { count: candidates.length })}</button>
+                        <button onClick={() => onToggleFavorite(currentEntry.id)} title={currentEntry.isFavorite ? t('batch.unfavorite') : t('batch.favorite')} className={`p-1.5 rounded-full bg-zinc-900/80 backdrop-blur-sm border border-zinc-700 transition-colors ${currentEntry.isFavorite ? 'text-amber-400' : 'text-zinc-400 hover:text-amber-300'}`}><Icons.Star className="!text-base" style={{ fontVariationSettings: `'FILL' ${currentEntry.isFavorite ? 1 : 0}` }} /></button>
+                        <button onClick={() => onMoreLikeThis(currentEntry)} className="flex items-center gap-1.5 py-1.5 px-3 text-xs font-semibold text-zinc-200 bg-zinc-900/80 hover:bg-zinc-800 rounded-full backdrop-blur-sm border border-zinc-700 transition-colors"><Icons.Variations className="!text-base" /> {t('batch.moreLikeThis')}</button>
+                    </div>
+                </div>
+            );
+        }
     }
 
     if (imageToShow) {
-        return <ImageDisplayWithActions imageUrl={imageToShow} prompt={currentEntry.prompt} />;
+        return <ImageDisplayWithActions imageUrl={imageToShow} prompt={currentEntry.prompt} entry={currentEntry.mode === 'video' ? null : currentEntry} actions={resultActions} />;
     }
 
-    let placeholderText = "Selecione uma ferramenta à esquerda e descreva sua imagem no painel à direita.";
+    let placeholderText = t('display.placeholder.create');
     if (mode === 'video') {
-        placeholderText = "Crie vídeos impressionantes com Veo 3.1. Selecione uma ferramenta e comece.";
+        placeholderText = t('display.placeholder.video');
     } else if (mode === 'edit') {
-        placeholderText = "Envie uma imagem de fundo e referências, depois descreva as edições no painel à direita.";
+        placeholderText = t('display.placeholder.edit');
     }
 
     return (
@@ -875,20 +3709,60 @@ export default function App() {
     const [mode, setMode] = useState<Mode>('create');
     const [history, setHistory] = useState<HistoryEntry[]>([]);
     const [historyIndex, setHistoryIndex] = useState(-1);
+    const [sessions, setSessions] = useState<HistorySession[]>([]);
+    const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+    // False when the database could not be opened: the session then only lives in memory
+    const [isSessionStored, setIsSessionStored] = useState(true);
     
     const [createState, setCreateState] = useState<CreateState>(INITIAL_CREATE_STATE);
     const [videoState, setVideoState] = useState<VideoState>(INITIAL_VIDEO_STATE);
     const [editState, setEditState] = useState<EditState>(INITIAL_EDIT_STATE);
     const [preMontageState, setPreMontageState] = useState<PreMontageState>(null);
 
-    const [isLoading, setIsLoading] = useState(false);
-    const [loadingMessage, setLoadingMessage] = useState('Gerando sua mídia...');
-    const [error, setError] = useState<string | null>(null);
+    const [isBatchGridOpen, setIsBatchGridOpen] = useState(false);
+    const [presets, setPresets] = useState<PromptPreset[]>(loadPresets);
+    const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+    const [error, setError] = useState<unknown>(null);
     const [showMobileModal, setShowMobileModal] = useState(false);
+    const [providerSettings, setProviderSettingsState] = useState<ProviderSettings>(getProviderSettings);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [stickerEntry, setStickerEntry] = useState<CreateHistoryEntry | null>(null);
+    const [vectorEntry, setVectorEntry] = useState<CreateHistoryEntry | null>(null);
+    const [compareEntry, setCompareEntry] = useState<CreateHistoryEntry | EditHistoryEntry | null>(null);
+    const [upscaleEntry, setUpscaleEntry] = useState<CreateHistoryEntry | EditHistoryEntry | null>(null);
+    const [isComicPageMode, setIsComicPageMode] = useState(false);
+    const [comicProject, setComicProject] = useState<ComicProject>(createComicProject);
+    const [activeComicPageIndex, setActiveComicPageIndex] = useState(0);
+    const [generatingPanelIds, setGeneratingPanelIds] = useState<string[]>([]);
+    const [storyboardShots, setStoryboardShots] = useState<StoryboardShot[]>(() => [createStoryboardShot()]);
+    const [generatingShotIds, setGeneratingShotIds] = useState<string[]>([]);
+    const [locale, setLocaleState] = useState<Locale>(loadLocale);
     const [uploadProgress, setUploadProgress] = useState<UploadProgress[]>([]);
+    // Settings found in an image uploaded to one of the slots, offered for restoring
+    const [restoreOffer, setRestoreOffer] = useState<{ metadata: ImageMetadata; imageUrl: string } | null>(null);
         
+    const t = useCallback<TranslateFn>((key, params) => translate(locale, key, params), [locale]);
+    const setLocale = useCallback((next: Locale) => {
+        saveLocale(next);
+        setLocaleState(next);
+    }, []);
+    const i18n = useMemo(() => ({ locale, setLocale, t }), [locale, setLocale, t]);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
     const currentEntry = history[historyIndex] ?? null;
     const editCanvasRef = useRef<HTMLDivElement>(null);
+    const layerHistory = useLayerHistory(editState, setEditState, mode === 'edit');
+    const jobQueue = useJobQueue(setError);
+    const hasActiveJobs = jobQueue.activeCount > 0;
+    // The newest unfinished job of the current mode, shown in place of an empty workspace
+    const pendingModeJob = [...jobQueue.jobs].reverse().find(job => job.kind === mode && (job.status === 'queued' || job.status === 'running'));
+
+    // Jobs finish after later renders, so results are merged into the latest history, not the one they were queued from
+    const latestHistoryRef = useRef({ history, mode });
+    latestHistoryRef.current = { history, mode };
 
     useEffect(() => {
         if (window.innerWidth < 1024) {
@@ -896,43 +3770,390 @@ export default function App() {
         }
     }, []);
 
+    const applyHistoryEntry = useCallback((entry: HistoryEntry) => {
+        setPreMontageState(null);
+        setPrompt(entry.prompt);
+        setMode(entry.mode);
+        if (entry.mode === 'create') {
+            setCreateState(createStateFromEntry(entry));
+            setVideoState(INITIAL_VIDEO_STATE);
+            setEditState(INITIAL_EDIT_STATE);
+        } else if (entry.mode === 'video') {
+            const { id, videoUrl, batchId, restoredFromId, parentId, settingsDiff, ...rest } = entry;
+            // Entries saved before these settings existed fall back to the defaults
+            setVideoState({ ...INITIAL_VIDEO_STATE, ...rest });
+            setCreateState(INITIAL_CREATE_STATE);
+            setEditState(INITIAL_EDIT_STATE);
+        } else if (entry.mode === 'edit') {
+            // Adjustments recorded on an entry are already part of its image
+            const { id, imageUrl, restoredFromId, parentId, settingsDiff, adjustments, extension, upscaledTo, ...rest } = entry;
+            // Entries saved before layers had instructions lack the field
+            setEditState({ ...INITIAL_EDIT_STATE, ...rest, references: rest.references.map(r => ({ ...r, instruction: r.instruction ?? '' })) });
+            setCreateState(INITIAL_CREATE_STATE);
+            setVideoState(INITIAL_VIDEO_STATE);
+        }
+    }, []);
+
+    // Shows the latest entry of the session (or a blank workspace) after loading it, with its comic and storyboard
+    const showSession = useCallback((entries: HistoryEntry[], workspace: SessionWorkspace | null) => {
+        setComicProject(workspace?.comicProject ?? createComicProject());
+        setActiveComicPageIndex(0);
+        setStoryboardShots(workspace?.storyboardShots ?? [createStoryboardShot()]);
+        setHistory(entries);
+        setHistoryIndex(entries.length - 1);
+        setError(null);
+        if (entries.length > 0) {
+            applyHistoryEntry(entries[entries.length - 1]);
+        } else {
+            setPrompt('');
+            setCreateState(INITIAL_CREATE_STATE);
+            setVideoState(INITIAL_VIDEO_STATE);
+            setEditState(INITIAL_EDIT_STATE);
+            setPreMontageState(null);
+        }
+    }, [applyHistoryEntry]);
+
+    const hasRestoredSessionRef = useRef(false);
+    useEffect(() => {
+        // Guard against StrictMode running the effect twice and creating duplicate sessions
+        if (hasRestoredSessionRef.current) return;
+        hasRestoredSessionRef.current = true;
+        restoreLastSession(t('session.defaultName', { number: 1 }))
+            .then(({ sessions, session, entries, workspace }) => {
+                setSessions(sessions);
+                setActiveSessionId(session.id);
+                setLastSessionId(session.id);
+                showSession(entries, workspace);
+            })
+            .catch(e => {
+                // Keep the app usable on a session that is not stored, and tell the user their work won't be kept
+                const session = createUnsavedSession(t('session.defaultName', { number: 1 }));
+                setIsSessionStored(false);
+                setSessions([session]);
+                setActiveSessionId(session.id);
+                setError(new LocalizedError('error.history.restore', undefined, { cause: e }));
+            });
+    }, [showSession]);
+
+    // Persist every change of the in-memory history into the active session
+    useEffect(() => {
+        if (!activeSessionId || !isSessionStored) return;
+        syncSessionEntries(activeSessionId, history)
+            .catch(e => setError(new LocalizedError('error.history.save', undefined, { cause: e })));
+    }, [activeSessionId, isSessionStored, history]);
+
+    // Scripts and balloons change on every keystroke, so the workspace is saved once typing pauses
+    useEffect(() => {
+        if (!activeSessionId || !isSessionStored) return;
+        const timer = setTimeout(() => {
+            saveSessionWorkspace(activeSessionId, { comicProject, storyboardShots })
+                .catch(e => console.error('Failed to persist session workspace:', e));
+        }, WORKSPACE_SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [activeSessionId, isSessionStored, comicProject, storyboardShots]);
+
+    // Results of running jobs are appended to the active session, so it can't change under them
+    const isBlockedByActiveJobs = () => {
+        if (!hasActiveJobs) return false;
+        setError(new LocalizedError('error.session.busy'));
+        return true;
+    };
+
+    const handleSessionSelect = async (id: string) => {
+        if (id === activeSessionId || isBlockedByActiveJobs()) return;
+        try {
+            const [entries, workspace] = await Promise.all([loadSessionEntries(id), loadSessionWorkspace(id)]);
+            setActiveSessionId(id);
+            setLastSessionId(id);
+            showSession(entries, workspace);
+        } catch (e: any) {
+            setError(e?.message ? e : new LocalizedError('error.session.load'));
+        }
+    };
+
+    const handleSessionCreate = async () => {
+        if (isBlockedByActiveJobs()) return;
+        try {
+            const session = await createSession(t('session.defaultName', { number: sessions.length + 1 }));
+            setSessions(prev => [session, ...prev]);
+            setActiveSessionId(session.id);
+            setLastSessionId(session.id);
+            showSession([], null);
+        } catch (e: any) {
+            setError(e?.message ? e : new LocalizedError('error.session.create'));
+        }
+    };
+
+    const handleSessionRename = async (id: string, name: string) => {
+        const session = sessions.find(s => s.id === id);
+        if (!session) return;
+        try {
+            const renamed = await renameSession(session, name);
+            setSessions(prev => prev.map(s => s.id === id ? renamed : s));
+        } catch (e: any) {
+            setError(e?.message ? e : new LocalizedError('error.session.rename'));
+        }
+    };
+
+    const handleSessionDelete = async (id: string) => {
+        if (isBlockedByActiveJobs()) return;
+        const session = sessions.find(s => s.id === id);
+        if (!session || !window.confirm(t('session.confirmDelete', { name: session.name }))) return;
+        try {
+            await deleteSession(id);
+            const remaining = sessions.filter(s => s.id !== id);
+            if (remaining.length === 0) {
+                remaining.push(await createSession(t('session.defaultName', { number: 1 })));
+            }
+            setSessions(remaining);
+            if (id === activeSessionId) {
+                const next = remaining[0];
+                const [entries, workspace] = await Promise.all([loadSessionEntries(next.id), loadSessionWorkspace(next.id)]);
+                setActiveSessionId(next.id);
+                setLastSessionId(next.id);
+                showSession(entries, workspace);
+            }
+        } catch (e: any) {
+            setError(e?.message ? e : new LocalizedError('error.session.delete'));
+        }
+    };
+
     const handleModeToggle = (newMode: Mode) => {
         if (newMode === mode) return;
-        setMode(newMode);
-        setHistory([]);
-        setHistoryIndex(-1);
         setPrompt('');
         setError(null);
+        // Switching mode only filters the history: resume from the latest entry of the new mode
+        const lastIndex = history.map(entry => entry.mode).lastIndexOf(newMode);
+        setHistoryIndex(lastIndex);
+        if (lastIndex >= 0) {
+            applyHistoryEntry(history[lastIndex]);
+            return;
+        }
+        setMode(newMode);
         setCreateState(INITIAL_CREATE_STATE);
         setVideoState(INITIAL_VIDEO_STATE);
         setEditState(INITIAL_EDIT_STATE);
         setPreMontageState(null);
     };
     
-    const handleHistoryNavigation = useCallback((index: number) => {
-        if (index < 0 || index >= history.length) return;
+    // Hands a frame captured from a video to another mode, as an upload would
+    const handleUseVideoFrame = (target: FrameTarget, image: UploadedImage, previewUrl: string) => {
+        setError(null);
+        if (target === 'startFrame') {
+            setVideoState(s => ({ ...s, videoFunction: 'animation', startFrame: image, startFramePreviewUrl: previewUrl }));
+            return;
+        }
+        // No entry of the new mode is selected, so the main area shows the frame rather than an older result
+        setHistoryIndex(-1);
+        setPrompt('');
         setPreMontageState(null);
-        const entry = history[index];
-        setHistoryIndex(index);
-        setPrompt(entry.prompt);
-        setMode(entry.mode);
-        if (entry.mode === 'create') {
-            const { id, imageUrl, ...rest } = entry;
-            setCreateState(rest);
-            setVideoState(INITIAL_VIDEO_STATE);
-            setEditState(INITIAL_EDIT_STATE);
-        } else if (entry.mode === 'video') {
-            const { id, videoUrl, ...rest } = entry;
-            setVideoState(rest);
+        setVideoState(INITIAL_VIDEO_STATE);
+        if (target === 'edit') {
+            setMode('edit');
             setCreateState(INITIAL_CREATE_STATE);
+            setEditState({ ...INITIAL_EDIT_STATE, background: image, backgroundPreviewUrl: previewUrl });
+        } else {
+            setMode('create');
             setEditState(INITIAL_EDIT_STATE);
-        } else if (entry.mode === 'edit') {
-            const { id, imageUrl, ...rest } = entry;
-            setEditState({ ...INITIAL_EDIT_STATE, ...rest });
-            setCreateState(INITIAL_CREATE_STATE);
-            setVideoState(INITIAL_VIDEO_STATE);
+            setCreateState({ ...INITIAL_CREATE_STATE, referenceImages: [{ id: `cref-${Date.now()}-0`, role: 'subject', image, previewUrl }] });
+        }
+    };
+
+    const handleHistoryNavigation = useCallback((index: number) => {
+        if (index < 0 || index >= history.length) return;
+        setHistoryIndex(index);
+        setIsBatchGridOpen(false);
+        applyHistoryEntry(history[index]);
+    }, [history, applyHistoryEntry]);
+
+    // Appends results to the latest history as children of `parent`, the entry that was selected when
+    // the job was requested. Jobs complete in any order and nothing is ever truncated: generating from
+    // an older entry starts a new branch. The new entries are only selected when the user is still in their mode.
+    const pushHistoryEntry = (parent: HistoryEntry | null, ...entries: HistoryEntry[]) => {
+        if (entries.length === 0) return;
+        const { history: latest, mode: currentMode } = latestHistoryRef.current;
+        const newHistory = [...latest, ...entries.map(entry => linkToParent(entry, parent))];
+        latestHistoryRef.current = { history: newHistory, mode: currentMode };
+        setHistory(newHistory);
+        if (entries[0].mode === currentMode) {
+            setHistoryIndex(newHistory.length - 1);
+            setIsBatchGridOpen(entries.length > 1);
+        }
+    };
+
+    // Generates `settings.count` candidates and returns them as history entries linked by a batch id
+    const generateCreateEntries = async (entryPrompt: string, settings: CreateState, context: JobContext, variationOf?: CreateHistoryEntry): Promise<CreateHistoryEntry[]> => {
+        const count = Math.max(1, settings.count);
+        const batchId = `batch-${Date.now()}`;
+        const results = await generateImageBatch(
+            { prompt: entryPrompt, ...settings, variationOf: variationOf ? dataUrlToUploadedImage(variationOf.imageUrl) : undefined },
+            count,
+            (completed, total) => { if (total > 1) context.setProgress(completed / total); },
+            context.signal,
+            createRetryEvents(context)
+        );
+        const images = results.filter((r): r is GeneratedImage => !(r instanceof GenerationError));
+        const failures = results.filter((r): r is GenerationError => r instanceof GenerationError);
+        if (images.length === 0) throw failures[0];
+        if (failures.length > 0) {
+            setError(new LocalizedError('error.batchPartial', { failed: failures.length, total: count }, { cause: failures[0] }));
+        }
+        // Each entry records the model that actually answered, which differs from the settings after a fallback
+        return images.map(({ imageUrl, model }, i) => ({
+            id: `hist-${Date.now()}-${i}`,
+            prompt: entryPrompt,
+            mode: 'create',
+            imageUrl,
+            ...settings,
+            model,
+            ...(count > 1 && { batchId }),
+            ...(variationOf && { variationOfId: variationOf.id }),
+        }));
+    };
+
+    const updatePresets = (next: PromptPreset[]) => {
+        try {
+            savePresets(next);
+            setPresets(next);
+        } catch (e: any) {
+            setError(new LocalizedError('error.presets.save'));
         }
-    }, [history]);
+    };
+
+    const handlePresetApply = (preset: PromptPreset) => {
+        // Presets carry no reference images, so the ones already added stay in place
+        setCreateState(s => ({ ...INITIAL_CREATE_STATE, ...preset.createState, referenceImages: s.referenceImages }));
+        setPrompt(preset.promptTemplate);
+        setError(null);
+    };
+
+    const handlePresetSave = (name: string) => {
+        updatePresets([...presets, createPreset(name, prompt, createState)]);
+    };
+
+    const handlePresetDelete = (id: string) => {
+        updatePresets(presets.filter(p => p.id !== id));
+    };
+
+    const handlePresetsImport = async (file: File) => {
+        try {
+            updatePresets(mergePresets(presets, await parsePresetsFile(file)));
+        } catch (e: any) {
+            setError(e?.message ? e : new LocalizedError('error.presets.import'));
+        }
+    };
+
+    const handleToggleFavorite = (id: string) => {
+        setHistory(prev => prev.map(e => e.id === id && e.mode === 'create' ? { ...e, isFavorite: !e.isFavorite } : e));
+    };
+
+    const handleDiscardUnfavorited = (batchId: string) => {
+        const isDiscarded = (e: HistoryEntry) => e.mode === 'create' && e.batchId === batchId && !e.isFavorite;
+        const newHistory = removeHistoryEntries(history, isDiscarded);
+        if (newHistory.length === history.length) return;
+        let keptIndex = newHistory.findIndex(e => e.mode === 'create' && e.batchId === batchId);
+        if (keptIndex < 0) {
+            // Nothing was kept: go back to what the batch came from, without leaving Create
+            const ancestor = findKeptAncestor(history, history.find(isDiscarded)!, isDiscarded);
+            keptIndex = ancestor?.mode === 'create' ? newHistory.findIndex(e => e.id === ancestor.id) : newHistory.map(e => e.mode).lastIndexOf('create');
+        }
+        setHistory(newHistory);
+        setHistoryIndex(keptIndex);
+    };
+
+    // A failed Pro job can be sent again as a Flash job from the queue panel
+    const enqueueCreateJob = (label: Message, entryPrompt: string, settings: CreateState, variationOf?: CreateHistoryEntry, parent: HistoryEntry | null = variationOf ?? currentEntry) => {
+        jobQueue.enqueue('create', label, async (context) => {
+            pushHistoryEntry(parent, ...await generateCreateEntries(entryPrompt, settings, context, variationOf));
+        }, {
+            switchModel: settings.model === 'pro' ? () => enqueueCreateJob(label, entryPrompt, { ...settings, model: 'flash' }, variationOf, parent) : undefined,
+        });
+    };
+
+    const handleMoreLikeThis = (entry: CreateHistoryEntry) => {
+        setError(null);
+        const settings = { ...createStateFromEntry(entry), count: entry.count > 1 ? entry.count : 4 };
+        setCreateState(settings);
+        setPrompt(entry.prompt);
+        enqueueCreateJob({ key: 'jobs.label.moreLikeThis', params: { prompt: entry.prompt } }, entry.prompt, settings, entry);
+    };
+
+    // Panels are generated one job each; the main prompt describes what every panel of the page shares
+    const enqueueComicPanel = (page: ComicPage, pageNumber: number, panelIndex: number, sharedDescription: string) => {
+        const panel = page.panels[panelIndex];
+        const rect = computePanelRects(page.layoutId, comicProject.gutter)[panelIndex];
+        const settings = createState;
+        jobQueue.enqueue('create', { key: 'jobs.label.comicPanel', params: { page: pageNumber, index: panelIndex + 1, script: panel.script } }, async (context) => {
+            setGeneratingPanelIds(ids => [...ids, panel.id]);
+            try {
+                const { imageUrl } = await generateImage({
+                    ...settings,
+                    prompt: buildComicPanelPrompt(panel.script.trim(), sharedDescription),
+                    createFunction: 'comic',
+                    aspectRatio: closestAspectRatio(rect),
+                    negativePrompt: [settings.negativePrompt, COMIC_PANEL_NEGATIVE_PROMPT].filter(Boolean).join(', '),
+                }, context.signal, createRetryEvents(context));
+                // Pages may have been edited meanwhile, so the panel is found by id
+                setComicProject(p => ({
+                    ...p,
+                    pages: p.pages.map(pg => ({ ...pg, panels: pg.panels.map(pn => pn.id === panel.id ? { ...pn, imageUrl } : pn) })),
+                }));
+            } finally {
+                setGeneratingPanelIds(ids => ids.filter(id => id !== panel.id));
+            }
+        });
+    };
+
+    const handleGenerateComicPanel = (panelIndex: number) => {
+        setError(null);
+        const sharedDescription = fillPromptTemplate(prompt.trim(), templateValues).trim();
+        enqueueComicPanel(comicProject.pages[activeComicPageIndex], activeComicPageIndex + 1, panelIndex, sharedDescription);
+    };
+
+    // Shots are chained, so the requested ones are generated in timeline order by a single job: each one
+    // starts on the last frame of the clip before it, which may have been generated by this same job
+    const enqueueStoryboardShots = (shotIds: string[], sharedDescription: string) => {
+        const shots = storyboardShots;
+        const settings = videoState;
+        const requested = shots.filter(shot => shotIds.includes(shot.id));
+        const label: Message = requested.length > 1
+            ? { key: 'jobs.label.storyboard', params: { count: requested.length } }
+            : { key: 'jobs.label.storyboardShot', params: { index: shots.indexOf(requested[0]) + 1, prompt: requested[0].prompt } };
+        jobQueue.enqueue('video', label, async (context) => {
+            setGeneratingShotIds(ids => [...ids, ...shotIds]);
+            const generated = new Map<string, StoryboardShot>();
+            try {
+                for (const [done, shot] of requested.entries()) {
+                    context.setProgress(done / requested.length);
+                    const position = shots.indexOf(shot);
+                    const previous = position > 0 ? generated.get(shots[position - 1].id) ?? shots[position - 1] : null;
+                    // The chain continues from where the previous clip ends in the timeline, after its trim
+                    const startFrame = previous?.videoUrl ? await extractLastFrame(previous.videoUrl, previous.duration - previous.trimEnd) : undefined;
+                    const [videoUrl] = await generateVideo({
+                        prompt: buildShotPrompt(shot.prompt.trim(), sharedDescription),
+                        negativePrompt: settings.negativePrompt,
+                        startFrame,
+                        resolution: settings.videoResolution,
+                        aspectRatio: settings.aspectRatio,
+                        durationSeconds: settings.durationSeconds,
+                        count: 1,
+                    }, context.signal, createRetryEvents(context));
+                    const clip = { videoUrl, duration: await getVideoDuration(videoUrl), trimStart: 0, trimEnd: 0 };
+                    generated.set(shot.id, { ...shot, ...clip });
+                    // The timeline may have been reordered or edited meanwhile, so the shot is found by id
+                    setStoryboardShots(current => current.map(s => s.id === shot.id ? { ...s, ...clip } : s));
+                    setGeneratingShotIds(ids => ids.filter(id => id !== shot.id));
+                }
+            } finally {
+                setGeneratingShotIds(ids => ids.filter(id => !shotIds.includes(id)));
+            }
+        });
+    };
+
+    const handleGenerateShot = (shotId: string) => {
+        setError(null);
+        enqueueStoryboardShots([shotId], prompt.trim());
+    };
 
     const handleCreateFunctionClick = (func: CreateFunction) => {
         setCreateState(s => ({ ...s, createFunction: func, styleModifier: STYLE_OPTIONS[func][0]?.value || 'default' }));
@@ -946,37 +4167,81 @@ export default function App() {
     
     const handleEditFunctionClick = (func: EditFunction) => {
         if (func !== editState.editFunction) {
-            setEditState({ ...INITIAL_EDIT_STATE, editFunction: func });
+            // Keep the background so the same photo can be worked on with another tool
+            setEditState(s => ({ ...INITIAL_EDIT_STATE, editFunction: func, background: s.background, backgroundPreviewUrl: s.backgroundPreviewUrl }));
+        }
+    };
+
+    // Rebuilds the settings an exported image was generated with and selects it as a new history entry
+    const restoreFromMetadata = (metadata: ImageMetadata, imageUrl: string) => {
+        const { id: restoredFromId, mode: entryMode, prompt: entryPrompt, negativePrompt, editFunction, styleModifier, ...createSettings } = metadata;
+        const id = `hist-${Date.now()}`;
+        // Without a usable style, fall back to the first one of the function, as picking the function does
+        const createFunction = createSettings.createFunction ?? INITIAL_CREATE_STATE.createFunction;
+        const restoredStyle = styleModifier ?? (STYLE_OPTIONS[createFunction][0]?.value || 'default');
+        const { activeReferenceId, adjustments, extension, ...editDefaults } = INITIAL_EDIT_STATE;
+        // The file is all there is of an edit, so it becomes the background to re-run or tweak the edit on
+        const entry: HistoryEntry = entryMode === 'create'
+            ? { ...INITIAL_CREATE_STATE, ...createSettings, styleModifier: restoredStyle, negativePrompt, id, prompt: entryPrompt, mode: 'create', imageUrl, restoredFromId, parentId: null }
+            : { ...editDefaults, editFunction: editFunction ?? editDefaults.editFunction, negativePrompt, background: dataUrlToUploadedImage(imageUrl), backgroundPreviewUrl: imageUrl, id, prompt: entryPrompt, mode: 'edit', imageUrl, restoredFromId, parentId: null };
+        const newHistory = [...latestHistoryRef.current.history, entry];
+        latestHistoryRef.current = { history: newHistory, mode: entry.mode };
+        setHistory(newHistory);
+        setHistoryIndex(newHistory.length - 1);
+        setIsBatchGridOpen(false);
+        applyHistoryEntry(entry);
+        setRestoreOffer(null);
+        setError(null);
+    };
+
+    const handleWorkspaceDrop = async (file: File) => {
+        if (!['image/png', 'image/jpeg', 'image/webp'].includes(file.type)) {
+            setError(new LocalizedError('error.restore.invalidType'));
+            return;
+        }
+        try {
+            const [metadata, imageUrl] = await Promise.all([readImageMetadata(file), fileToDataUrl(file)]);
+            if (!metadata) {
+                setError(new LocalizedError('error.restore.noMetadata'));
+                return;
+            }
+            restoreFromMetadata(metadata, imageUrl);
+        } catch (e) {
+            setError(e);
         }
     };
 
     const processSingleFile = useCallback((file: File, callback: (image: UploadedImage, previewUrl: string) => void) => {
         const id = `upload-${file.name}-${Date.now()}`;
-        if (file.size > 10 * 1024 * 1024) { setUploadProgress(prev => [...prev, { id, name: file.name, progress: 100, status: 'error', message: 'Excede 10MB.' }]); setTimeout(() => setUploadProgress(p => p.filter(item => item.id !== id)), 5000); return; }
-        if (!['image/png', 'image/jpeg', 'image/webp'].includes(file.type)) { setUploadProgress(prev => [...prev, { id, name: file.name, progress: 100, status: 'error', message: 'Tipo inválido.' }]); setTimeout(() => setUploadProgress(p => p.filter(item => item.id !== id)), 5000); return; }
+        if (file.size > 10 * 1024 * 1024) { setUploadProgress(prev => [...prev, { id, name: file.name, progress: 100, status: 'error', message: t('upload.tooLarge') }]); setTimeout(() => setUploadProgress(p => p.filter(item => item.id !== id)), 5000); return; }
+        if (!['image/png', 'image/jpeg', 'image/webp'].includes(file.type)) { setUploadProgress(prev => [...prev, { id, name: file.name, progress: 100, status: 'error', message: t('upload.invalidType') }]); setTimeout(() => setUploadProgress(p => p.filter(item => item.id !== id)), 5000); return; }
         setUploadProgress(prev => [...prev, { id, name: file.name, progress: 0, status: 'uploading' }]);
         const reader = new FileReader();
         reader.onprogress = (event) => { if (event.lengthComputable) setUploadProgress(p => p.map(item => item.id === id ? { ...item, progress: Math.round((event.loaded / event.total) * 100) } : item)); };
-        reader.onerror = () => { setUploadProgress(p => p.map(item => item.id === id ? { ...item, status: 'error', message: 'Falha ao ler.' } : item)); setTimeout(() => setUploadProgress(p => p.filter(item => item.id !== id)), 5000); };
+        reader.onerror = () => { setUploadProgress(p => p.map(item => item.id === id ? { ...item, status: 'error', message: t('upload.readFailed') } : item)); setTimeout(() => setUploadProgress(p => p.filter(item => item.id !== id)), 5000); };
         reader.onload = () => {
             const dataUrl = reader.result as string;
             callback({ base64: dataUrl.split(',')[1], mimeType: file.type }, dataUrl);
+            readImageMetadata(file)
+                .then(metadata => { if (metadata) setRestoreOffer({ metadata, imageUrl: dataUrl }); })
+                .catch(() => { /* An unreadable header only means there is nothing to offer */ });
             setUploadProgress(p => p.map(item => item.id === id ? { ...item, status: 'success', progress: 100 } : item));
             setTimeout(() => setUploadProgress(p => p.filter(item => item.id !== id)), 1500);
         };
         reader.readAsDataURL(file);
-    }, []);
+    }, [t]);
 
-    const flattenEditCanvas = async (): Promise<UploadedImage> => {
+    // Layer boxes are in the pixels of the displayed background; the model gets them as fractions of it
+    const measureMontageLayers = (): MontageLayer[] => {
         const canvasContainer = editCanvasRef.current;
 
         if (!canvasContainer || !editState.background || !editState.backgroundPreviewUrl) {
-            throw new Error("A tela de edição ou a imagem de fundo não estão disponíveis.");
+            throw new LocalizedError('error.montage.canvasUnavailable');
         }
 
         const imgElement = canvasContainer.querySelector('img');
         if (!imgElement) {
-            throw new Error("A imagem de fundo não foi encontrada na tela.");
+            throw new LocalizedError('error.montage.backgroundMissing');
         }
         
         // Use the image's clientWidth, which is its rendered size without transforms.
@@ -984,106 +4249,84 @@ export default function App() {
         const renderedHeight = imgElement.clientHeight;
 
         if (renderedWidth === 0 || renderedHeight === 0) {
-            throw new Error("As dimensões da imagem de fundo não puderam ser calculadas.");
+            throw new LocalizedError('error.montage.noSize');
         }
 
-        // Load the background image to get its natural dimensions
-        const bgImg = new Image();
-        bgImg.src = editState.backgroundPreviewUrl;
-        await new Promise<void>((resolve, reject) => { 
-            bgImg.onload = () => resolve(); 
-            bgImg.onerror = () => reject(new Error("Não foi possível carregar a imagem de fundo."));
-        });
-
-        // Create canvas with natural dimensions
-        const canvas = document.createElement('canvas');
-        canvas.width = bgImg.naturalWidth;
-        canvas.height = bgImg.naturalHeight;
-        const ctx = canvas.getContext('2d')!;
-        ctx.drawImage(bgImg, 0, 0);
-
-        // Calculate scale factor between rendered size and natural size
-        const scaleX = canvas.width / renderedWidth;
-        const scaleY = canvas.height / renderedHeight;
-
-        const sortedRefs = [...editState.references].sort((a, b) => a.zIndex - b.zIndex);
-        
-        for (const ref of sortedRefs) {
-            const refImg = new Image();
-            refImg.src = ref.previewUrl;
-            await new Promise((resolve, reject) => { refImg.onload = resolve; refImg.onerror = reject; });
-            
-            // ref.x/y are relative to the container, which is what we need.
-            // Scale the position and size of the reference layer to the full-size canvas.
-            const canvasX = ref.x * scaleX;
-            const canvasY = ref.y * scaleY;
-            const canvasWidth = ref.width * scaleX;
-            const canvasHeight = ref.height * scaleY;
-            
-            ctx.save();
-            // Translate to the center of the reference image for rotation
-            ctx.translate(canvasX + canvasWidth / 2, canvasY + canvasHeight / 2);
-            ctx.rotate(ref.rotation * Math.PI / 180);
-            // Draw the image centered on the new origin
-            ctx.drawImage(refImg, -canvasWidth / 2, -canvasHeight / 2, canvasWidth, canvasHeight);
-            ctx.restore();
-        }
+        return [...editState.references]
+            .sort((a, b) => a.zIndex - b.zIndex)
+            .map(ref => ({
+                image: ref.image,
+                instruction: ref.instruction,
+                centerX: (ref.x + ref.width / 2) / renderedWidth,
+                centerY: (ref.y + ref.height / 2) / renderedHeight,
+                width: ref.width / renderedWidth,
+                height: ref.height / renderedHeight,
+                rotation: ref.rotation,
+                flipX: ref.flipX,
+                flipY: ref.flipY,
+                opacity: ref.opacity,
+            }));
+    };
 
-        const dataUrl = canvas.toDataURL('image/png');
-        return { base64: dataUrl.split(',')[1], mimeType: 'image/png' };
+    // Replaces the background with a job result, unless the user has moved on to another image meanwhile
+    const applyEditResult = (sourceUrl: string | null, resultUrl: string) => {
+        const newBgImage = dataUrlToUploadedImage(resultUrl);
+        setEditState(s => s.backgroundPreviewUrl === sourceUrl ? { ...s, background: newBgImage, backgroundPreviewUrl: resultUrl, references: [], mask: null, adjustments: DEFAULT_ADJUSTMENTS } : s);
+        return newBgImage;
     };
 
-    const handleConfirmMontage = async () => {
-        setIsLoading(true);
-        setLoadingMessage('Finalizando a montagem...');
+    const handleConfirmMontage = () => {
         setError(null);
-
         const currentReferences = [...editState.references];
-        
-        try {
-            const flattenedImage = await flattenEditCanvas();
-            setEditState(s => ({ ...s, references: [] }));
-
-            setLoadingMessage('Processando com Gemini Flash 2.5...');
-            const API_PROMPT = "Integre os objetos das camadas de referência à imagem de fundo de forma realista. Remova o fundo dos objetos, ajuste a iluminação, sombras e cores para que a composição pareça natural e coesa, como se fosse uma única foto.";
-            const resultUrl = await editImage(API_PROMPT, flattenedImage);
-            const newBgImage = { base64: resultUrl.split(',')[1], mimeType: 'image/png' };
-            const userFacingPrompt = 'Montagem automática de imagem';
-
-            const newEntry: EditHistoryEntry = {
-                id: `hist-${Date.now()}`,
-                prompt: userFacingPrompt,
-                mode: 'edit',
-                imageUrl: resultUrl,
-                editFunction: editState.editFunction,
-                background: editState.background,
-                backgroundPreviewUrl: editState.backgroundPreviewUrl,
-                references: currentReferences,
-                negativePrompt: editState.negativePrompt,
-            };
-            
-            const newHistory = history.slice(0, historyIndex + 1).concat(newEntry);
-            setHistory(newHistory);
-            setHistoryIndex(newHistory.length - 1);
-            setPrompt(userFacingPrompt);
-            setEditState(s => ({...s, background: newBgImage, backgroundPreviewUrl: resultUrl, references: []}));
+        const sourceUrl = editState.backgroundPreviewUrl;
+        const background = editState.background;
+        const montagePrompt = prompt.trim();
+        const negativePrompt = editState.negativePrompt;
 
+        let layers: MontageLayer[];
+        try {
+            // Measuring reads the layers from the DOM, so it has to happen before the canvas changes
+            layers = measureMontageLayers();
         } catch (e: any) {
-            setError(e.message || "Ocorreu um erro desconhecido ao editar a imagem.");
-            setEditState(s => ({ ...s, references: currentReferences })); // Restore on error
-        } finally {
-            setIsLoading(false);
-            setLoadingMessage('Gerando sua mídia...');
+            setError(e?.message ? e : new LocalizedError('error.montage.unknown'));
+            return;
         }
+        setEditState(s => ({ ...s, references: [] }));
+
+        const userFacingPrompt = montagePrompt || t('edit.autoMontage');
+        const label: Message = montagePrompt ? { key: 'jobs.label.montage', params: { prompt: montagePrompt } } : { key: 'edit.autoMontage' };
+        const parent = currentEntry;
+        jobQueue.enqueue('edit', label, async (context) => {
+            try {
+                const resultUrl = await composeMontage(background, layers, montagePrompt, negativePrompt, context.signal, createRetryEvents(context));
+                const newEntry: EditHistoryEntry = {
+                    id: `hist-${Date.now()}`,
+                    prompt: userFacingPrompt,
+                    mode: 'edit',
+                    imageUrl: resultUrl,
+                    editFunction: editState.editFunction,
+                    background,
+                    backgroundPreviewUrl: sourceUrl,
+                    references: currentReferences,
+                    negativePrompt,
+                    mask: null,
+                };
+                pushHistoryEntry(parent, newEntry);
+                applyEditResult(sourceUrl, resultUrl);
+            } catch (e) {
+                // Put the layers back (also on cancel) so the montage isn't lost
+                setEditState(s => s.backgroundPreviewUrl === sourceUrl && s.references.length === 0 ? { ...s, references: currentReferences } : s);
+                throw e;
+            }
+        });
     };
     
     const handleCancelMontage = () => {
-        setEditState(s => ({ ...s, references: [], activeReferenceId: null }));
+        // Recorded as a layer operation so an accidental cancel can be undone
+        layerHistory.commitLayerChange('delete', null, () => []);
     };
 
-    const handleEasterEgg = async () => {
-        if (isLoading) return;
-        
+    const handleEasterEgg = () => {
         // Force switch to create mode if needed
         if (mode !== 'create') {
             setMode('create');
@@ -1091,118 +4334,275 @@ export default function App() {
 
         const eggPrompt = "A cute monkey wearing a Brazil soccer team jersey holding a banana";
         setPrompt(eggPrompt);
-        
         setError(null);
-        setIsLoading(true);
-        setLoadingMessage('🍌 Ativando Protocolo Macaco Brasileiro...');
 
-        try {
-             const resultUrl = await generateImage({ prompt: eggPrompt, ...createState });
+        const settings = createState;
+        const parent = currentEntry;
+        jobQueue.enqueue('create', { key: 'jobs.label.easterEgg' }, async (context) => {
+             const { imageUrl, model } = await generateImage({ prompt: eggPrompt, ...settings }, context.signal, createRetryEvents(context));
              const newEntry: CreateHistoryEntry = { 
                  id: `hist-${Date.now()}`, 
                  prompt: eggPrompt, 
                  mode: 'create', 
-                 imageUrl: resultUrl, 
-                 ...createState 
+                 imageUrl, 
+                 ...settings,
+                 model,
              };
              
-             const newHistory = history.slice(0, historyIndex + 1).concat(newEntry);
-             setHistory(newHistory);
-             setHistoryIndex(newHistory.length - 1);
-        } catch (e: any) {
-            setError(e.message || "Erro no Easter Egg.");
-        } finally {
-            setIsLoading(false);
-            setLoadingMessage('Gerando sua mídia...');
+             pushHistoryEntry(parent, newEntry);
+        });
+    };
+
+    // Bakes the previewed adjustments into a new edit entry, which becomes the background for the next edit
+    const handleApplyAdjustments = () => {
+        setError(null);
+        const { background, backgroundPreviewUrl: sourceUrl, adjustments, negativePrompt } = editState;
+        if (!background || !sourceUrl) {
+            setError(new LocalizedError('validation.background'));
+            return;
         }
+        if (!hasAdjustments(adjustments)) {
+            setError(new LocalizedError('validation.adjustments'));
+            return;
+        }
+        const entryPrompt = t('adjust.entryPrompt');
+        const parent = currentEntry;
+        jobQueue.enqueue('edit', { key: 'jobs.label.adjust' }, async () => {
+            const resultUrl = await applyAdjustments(sourceUrl, adjustments);
+            const newBgImage = applyEditResult(sourceUrl, resultUrl);
+            pushHistoryEntry(parent, { id: `hist-${Date.now()}`, prompt: entryPrompt, mode: 'edit', imageUrl: resultUrl, editFunction: 'adjust', background: newBgImage, backgroundPreviewUrl: resultUrl, references: [], negativePrompt, mask: null, adjustments });
+        });
+    };
+
+    // The upscaled copy is a new entry below the original, which stays in the history as it was
+    // It keeps the settings of the source, which is what the model generated, and is marked with the upscale target
+    const handleUpscale = (entry: CreateHistoryEntry | EditHistoryEntry, target: UpscaleTarget, longEdge: number, sharpen: number) => {
+        setUpscaleEntry(null);
+        setError(null);
+        jobQueue.enqueue(entry.mode, { key: 'jobs.label.upscale', params: { resolution: target } }, async (context) => {
+            const imageUrl = await upscaleImage(entry.imageUrl, longEdge, sharpen, context.signal, context.setProgress);
+            if (entry.mode === 'create') {
+                pushHistoryEntry(entry, { id: `hist-${Date.now()}`, prompt: entry.prompt, mode: 'create', imageUrl, ...createStateFromEntry(entry), upscaledTo: target });
+            } else {
+                const { id, restoredFromId, parentId, settingsDiff, ...settings } = entry;
+                // Editing carries on from the upscaled image if the original was still the background
+                const background = applyEditResult(entry.imageUrl, imageUrl);
+                pushHistoryEntry(entry, { ...settings, id: `hist-${Date.now()}`, imageUrl, background, backgroundPreviewUrl: imageUrl, references: [], mask: null, upscaledTo: target });
+            }
+        });
     };
 
-    const handleSubmit = async (e: React.FormEvent) => {
+    const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (isLoading || (mode === 'edit' && editState.references.length > 0)) return;
+        if (mode === 'edit' && editState.references.length > 0) {
+            // With layers on the canvas, the prompt directs the montage as a whole
+            handleConfirmMontage();
+            return;
+        }
+        if (mode === 'edit' && editState.editFunction === 'adjust') {
+            handleApplyAdjustments();
+            return;
+        }
 
         setError(null);
-        setIsLoading(true);
 
-        const currentPrompt = prompt.trim();
+        let currentPrompt = prompt.trim();
+        if (mode === 'create') {
+            // Prompt templates are filled in before the prompt builder sees them
+            const missing = extractTemplateVariables(currentPrompt).filter(name => !templateValues[name]?.trim());
+            if (missing.length > 0) {
+                setError(new LocalizedError('validation.templateVariables', { names: missing.join(', ') }));
+                return;
+            }
+            currentPrompt = fillPromptTemplate(currentPrompt, templateValues).trim();
+
+            if (createState.createFunction === 'comic' && isComicPageMode) {
+                // Panels that already have an image are kept; only the missing ones are generated
+                const page = comicProject.pages[activeComicPageIndex];
+                const pending = page.panels
+                    .map((panel, index) => ({ panel, index }))
+                    .filter(({ panel }) => panel.script.trim() && !panel.imageUrl && !generatingPanelIds.includes(panel.id));
+                if (pending.length === 0) {
+                    setError(new LocalizedError('validation.comicScript'));
+                    return;
+                }
+                pending.forEach(({ index }) => enqueueComicPanel(page, activeComicPageIndex + 1, index, currentPrompt));
+                return;
+            }
+        }
+        if (mode === 'video' && videoState.videoFunction === 'storyboard') {
+            // Shots that already have a clip are kept; only the missing ones are generated
+            const pending = storyboardShots.filter(shot => shot.prompt.trim() && !shot.videoUrl && !generatingShotIds.includes(shot.id));
+            if (pending.length === 0) {
+                setError(new LocalizedError('validation.storyboardShots'));
+                return;
+            }
+            enqueueStoryboardShots(pending.map(shot => shot.id), currentPrompt);
+            return;
+        }
         if (!currentPrompt) {
              if (mode === 'video' && videoState.videoFunction === 'animation' && videoState.startFrame) {
                 // Allow animation without prompt
+             } else if (mode === 'edit' && editState.editFunction === 'extend') {
+                // Without a prompt the model just continues the scene
              } else {
-                setError("Por favor, insira um prompt.");
-                setIsLoading(false);
+                setError(new LocalizedError('validation.prompt'));
                 return;
              }
         }
-        
-        try {
-            let newEntry: HistoryEntry | null = null;
-            if (mode === 'create') {
-                setLoadingMessage(`Criando sua imagem em ${createState.resolution}...`);
-                const resultUrl = await generateImage({ prompt: currentPrompt, ...createState });
-                newEntry = { id: `hist-${Date.now()}`, prompt: currentPrompt, mode, imageUrl: resultUrl, ...createState };
-            } else if (mode === 'video') {
-                if (videoState.videoFunction === 'animation' && !videoState.startFrame) throw new Error("Por favor, envie uma imagem para animar.");
-                setLoadingMessage(`Renderizando com Veo 3.1 (${videoState.videoResolution})...`);
-                const resultUrl = await generateVideo(currentPrompt, videoState.videoFunction === 'animation' ? videoState.startFrame! : undefined, videoState.videoResolution);
-                newEntry = { id: `hist-${Date.now()}`, prompt: currentPrompt, mode, videoUrl: resultUrl, ...videoState };
-            } else if (mode === 'edit') {
-                 if (!editState.background) throw new Error("Por favor, envie uma imagem de fundo para editar.");
-                setLoadingMessage('Aplicando edições com IA...');
-                const resultUrl = await editImage(currentPrompt, editState.background);
-                const newBgImage = { base64: resultUrl.split(',')[1], mimeType: 'image/png' };
-                newEntry = { id: `hist-${Date.now()}`, prompt: currentPrompt, mode, imageUrl: resultUrl, editFunction: editState.editFunction, background: newBgImage, backgroundPreviewUrl: resultUrl, references: [], negativePrompt: editState.negativePrompt };
-                setEditState(s => ({...s, background: newBgImage, backgroundPreviewUrl: resultUrl, references: []}));
-            }
 
-            if (newEntry) {
-                const newHistory = history.slice(0, historyIndex + 1).concat(newEntry);
-                setHistory(newHistory);
-                setHistoryIndex(newHistory.length - 1);
+        // Jobs run after the form may have changed, so each one works on a snapshot of the current settings,
+        // and its results branch off the entry selected now
+        const parent = currentEntry;
+        if (mode === 'create') {
+            const settings = createState;
+            const label: Message = settings.count > 1
+                ? { key: 'jobs.label.variations', params: { count: settings.count, prompt: currentPrompt } }
+                : { key: 'jobs.label.prompt', params: { prompt: currentPrompt } };
+            enqueueCreateJob(label, currentPrompt, settings);
+        } else if (mode === 'video') {
+            if (videoState.videoFunction === 'animation' && !videoState.startFrame) {
+                setError(new LocalizedError('validation.startFrame'));
+                return;
             }
-        } catch (e: any) {
-            setError(e.message || "Ocorreu um erro desconhecido.");
-        } finally {
-            setIsLoading(false);
-            setLoadingMessage('Gerando sua mídia...');
+            const settings = videoState;
+            const isAnimation = settings.videoFunction === 'animation';
+            const label: Message = currentPrompt
+                ? { key: 'jobs.label.video', params: { resolution: settings.videoResolution, prompt: currentPrompt } }
+                : { key: 'jobs.label.videoAnimation', params: { resolution: settings.videoResolution } };
+            jobQueue.enqueue('video', label, async (context) => {
+                const videoUrls = await generateVideo({
+                    prompt: currentPrompt,
+                    negativePrompt: settings.negativePrompt,
+                    startFrame: isAnimation ? settings.startFrame! : undefined,
+                    endFrame: isAnimation ? settings.endFrame ?? undefined : undefined,
+                    resolution: settings.videoResolution,
+                    aspectRatio: settings.aspectRatio,
+                    durationSeconds: settings.durationSeconds,
+                    count: Math.max(1, settings.count),
+                }, context.signal, createRetryEvents(context));
+                const batchId = `batch-${Date.now()}`;
+                pushHistoryEntry(parent, ...videoUrls.map((videoUrl, i): HistoryEntry => ({
+                    id: `hist-${Date.now()}-${i}`,
+                    prompt: currentPrompt,
+                    mode: 'video',
+                    videoUrl,
+                    ...settings,
+                    ...(videoUrls.length > 1 && { batchId }),
+                })));
+            });
+        } else if (mode === 'edit') {
+            const settings = editState;
+            if (!settings.background || !settings.backgroundPreviewUrl) {
+                setError(new LocalizedError('validation.background'));
+                return;
+            }
+            if (settings.editFunction === 'inpaint' && !settings.mask) {
+                setError(new LocalizedError('validation.mask'));
+                return;
+            }
+            const background = settings.background;
+            const sourceUrl = settings.backgroundPreviewUrl;
+            if (settings.editFunction === 'extend') {
+                jobQueue.enqueue('edit', { key: 'jobs.label.extend' }, async (context) => {
+                    const canvas = await extendCanvas(sourceUrl, settings.extension);
+                    if (!isCanvasExtended(canvas.layout)) throw new LocalizedError('validation.extend');
+                    const generatedUrl = await outpaintImage(currentPrompt, canvas.image, canvas.mask, settings.negativePrompt, context.signal, createRetryEvents(context));
+                    // The original keeps its own pixels and the canvas its exact size, whatever size the model returned
+                    const resultUrl = await compositeMaskedRegion(canvas.imageUrl, generatedUrl, canvas.mask);
+                    const newBgImage = applyEditResult(sourceUrl, resultUrl);
+                    pushHistoryEntry(parent, { id: `hist-${Date.now()}`, prompt: currentPrompt, mode: 'edit', imageUrl: resultUrl, editFunction: 'extend', background: newBgImage, backgroundPreviewUrl: resultUrl, references: [], negativePrompt: settings.negativePrompt, mask: null, extension: settings.extension });
+                });
+                return;
+            }
+            jobQueue.enqueue('edit', { key: 'jobs.label.prompt', params: { prompt: currentPrompt } }, async (context) => {
+                const events = createRetryEvents(context);
+                let resultUrl: string;
+                if (settings.editFunction === 'inpaint') {
+                    const generatedUrl = await inpaintImage(currentPrompt, background, settings.mask!, settings.negativePrompt, context.signal, events);
+                    // Only the masked pixels are taken from the model output; the rest is the untouched original
+                    resultUrl = await compositeMaskedRegion(sourceUrl, generatedUrl, settings.mask!);
+                } else {
+                    resultUrl = await editImage(currentPrompt, background, context.signal, events);
+                }
+                const newBgImage = applyEditResult(sourceUrl, resultUrl);
+                pushHistoryEntry(parent, { id: `hist-${Date.now()}`, prompt: currentPrompt, mode: 'edit', imageUrl: resultUrl, editFunction: settings.editFunction, background: newBgImage, backgroundPreviewUrl: resultUrl, references: [], negativePrompt: settings.negativePrompt, mask: settings.editFunction === 'inpaint' ? settings.mask : null });
+            });
         }
     };
 
     return (
-        <>
+        <I18nContext.Provider value={i18n}>
             {showMobileModal && (
                 <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
                     <div className="bg-zinc-900 rounded-lg p-6 text-center max-w-sm border border-zinc-700 shadow-2xl">
-                        <h2 className="text-xl font-bold text-zinc-100 mb-2">Experiência Otimizada para Desktop</h2>
-                        <p className="text-zinc-400">Para utilizar todo o poder do Gemini 3 no Nano Banana Studio, recomendamos um computador.</p>
-                        <button onClick={() => setShowMobileModal(false)} className="mt-4 py-2 px-4 bg-blue-600 text-white rounded-md font-semibold">Entendi</button>
+                        <h2 className="text-xl font-bold text-zinc-100 mb-2">{t('mobile.title')}</h2>
+                        <p className="text-zinc-400">{t('mobile.body')}</p>
+                        <button onClick={() => setShowMobileModal(false)} className="mt-4 py-2 px-4 bg-blue-600 text-white rounded-md font-semibold">{t('mobile.dismiss')}</button>
                     </div>
                 </div>
             )}
+            {isSettingsOpen && (
+                <SettingsModal
+                    settings={providerSettings}
+                    onClose={() => setIsSettingsOpen(false)}
+                    onSave={(settings, newLocale) => { setProviderSettings(settings); setProviderSettingsState(settings); setLocale(newLocale); setIsSettingsOpen(false); }}
+                />
+            )}
+            {stickerEntry && (
+                <StickerModal
+                    entry={stickerEntry}
+                    stickerEntries={history.filter((e): e is CreateHistoryEntry => e.mode === 'create' && e.createFunction === 'sticker')}
+                    onClose={() => setStickerEntry(null)}
+                />
+            )}
+            {vectorEntry && <VectorModal entry={vectorEntry} onClose={() => setVectorEntry(null)} />}
+            {compareEntry && <CompareModal history={history} entry={compareEntry} originalUrl={mode === 'edit' ? editState.backgroundPreviewUrl : null} onClose={() => setCompareEntry(null)} />}
+            {upscaleEntry && <UpscaleModal entry={upscaleEntry} onUpscale={handleUpscale} onClose={() => setUpscaleEntry(null)} />}
             <header className="app-header bg-zinc-950/90 backdrop-blur-md border-b border-zinc-800 flex items-center justify-between px-6 z-20 relative">
                  <div className="absolute inset-x-0 bottom-0 h-px bg-gradient-to-r from-transparent via-blue-600/50 to-transparent"></div>
                 <h1 className="text-lg font-bold text-zinc-100 flex items-center gap-2">
-                    <span onClick={handleEasterEgg} className="cursor-pointer hover:scale-125 transition-transform" title="Segredo da Banana...">🍌</span>
+                    <span onClick={handleEasterEgg} className="cursor-pointer hover:scale-125 transition-transform" title={t('app.easterEgg')}>🍌</span>
                     <span>Nano Banana Studio</span>
                     <span className="text-[10px] font-bold tracking-wider text-white bg-gradient-to-r from-blue-600 to-purple-600 px-2 py-0.5 rounded-full uppercase shadow-lg shadow-blue-900/40">Gemini 3.0</span>
                 </h1>
+                <button onClick={() => setIsSettingsOpen(true)} title={t('settings.open')} className="flex items-center gap-1.5 px-2 py-1 text-xs text-zinc-400 hover:text-white hover:bg-zinc-800 rounded-md transition-colors">
+                    {providerSettings.imageProvider === 'mock' && <span className="text-[10px] font-bold uppercase text-amber-400">{t('app.mockBadge')}</span>}
+                    <Icons.Settings className="!text-lg" />
+                </button>
             </header>
             <nav className="app-toolbar bg-zinc-950 border-r border-zinc-800 flex flex-col items-center p-3 gap-3 z-20">
-                <ToolbarButton data-function="create" isActive={mode === 'create'} onClick={() => handleModeToggle('create')} icon={<Icons.Create />} name="Criar" />
-                <ToolbarButton data-function="edit" isActive={mode === 'edit'} onClick={() => handleModeToggle('edit')} icon={<Icons.Edit />} name="Editar" />
-                <ToolbarButton data-function="video" isActive={mode === 'video'} onClick={() => handleModeToggle('video')} icon={<Icons.Video />} name="Vídeo" />
+                <ToolbarButton data-function="create" isActive={mode === 'create'} onClick={() => handleModeToggle('create')} icon={<Icons.Create />} name={t('mode.create')} />
+                <ToolbarButton data-function="edit" isActive={mode === 'edit'} onClick={() => handleModeToggle('edit')} icon={<Icons.Edit />} name={t('mode.edit')} />
+                <ToolbarButton data-function="video" isActive={mode === 'video'} onClick={() => handleModeToggle('video')} icon={<Icons.Video />} name={t('mode.video')} />
             </nav>
             <main className="app-main flex flex-col bg-zinc-950 p-0 relative">
                  <div className="h-12 shrink-0 bg-zinc-950/50 border-b border-zinc-800 flex items-center px-4 z-10 text-sm gap-2">
-                     {mode === 'create' && CREATE_FUNCTIONS.map(f => <button key={f.id} onClick={() => handleCreateFunctionClick(f.id)} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-all ${createState.createFunction === f.id ? 'bg-zinc-100 text-black' : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'}`}>{f.icon}{f.name}</button>)}
-                     {mode === 'edit' && EDIT_FUNCTIONS.map(f => <button key={f.id} onClick={() => handleEditFunctionClick(f.id)} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-all ${editState.editFunction === f.id ? 'bg-zinc-100 text-black' : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'}`}>{f.icon}{f.name}</button>)}
-                     {mode === 'video' && VIDEO_FUNCTIONS.map(f => <button key={f.id} onClick={() => handleVideoFunctionClick(f.id)} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-all ${videoState.videoFunction === f.id ? 'bg-zinc-100 text-black' : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'}`}>{f.icon}{f.name}</button>)}
+                     {mode === 'create' && CREATE_FUNCTIONS.map(f => <button key={f.id} onClick={() => handleCreateFunctionClick(f.id)} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-all ${createState.createFunction === f.id ? 'bg-zinc-100 text-black' : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'}`}>{f.icon}{t(f.nameKey)}</button>)}
+                     {mode === 'edit' && EDIT_FUNCTIONS.map(f => <button key={f.id} onClick={() => handleEditFunctionClick(f.id)} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-all ${editState.editFunction === f.id ? 'bg-zinc-100 text-black' : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'}`}>{f.icon}{t(f.nameKey)}</button>)}
+                     {mode === 'video' && VIDEO_FUNCTIONS.map(f => <button key={f.id} onClick={() => handleVideoFunctionClick(f.id)} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium transition-all ${videoState.videoFunction === f.id ? 'bg-zinc-100 text-black' : 'text-zinc-400 hover:bg-zinc-800 hover:text-white'}`}>{f.icon}{t(f.nameKey)}</button>)}
                  </div>
                  <div className="flex-1 min-h-0 relative">
-                     <MainContentDisplay isLoading={isLoading} loadingMessage={loadingMessage} currentEntry={currentEntry} mode={mode} editState={editState} setEditState={setEditState} canvasRef={editCanvasRef} onConfirm={handleConfirmMontage} onCancel={handleCancelMontage} />
+                     <FileDropZone label={t('restore.dropHint')} onDropFile={handleWorkspaceDrop}>
+                         {mode === 'create' && createState.createFunction === 'comic' && isComicPageMode ? (
+                             <ComicPageEditor project={comicProject} setProject={setComicProject} activePageIndex={activeComicPageIndex} setActivePageIndex={setActiveComicPageIndex} generatingPanelIds={generatingPanelIds} />
+                         ) : mode === 'video' && videoState.videoFunction === 'storyboard' ? (
+                             <StoryboardEditor shots={storyboardShots} setShots={setStoryboardShots} generatingShotIds={generatingShotIds} />
+                         ) : (
+                             <MainContentDisplay isLoading={!!pendingModeJob && currentEntry?.mode !== mode && !(mode === 'edit' && editState.backgroundPreviewUrl)} loadingMessage={pendingModeJob ? t(pendingModeJob.label.key, pendingModeJob.label.params) : ''} currentEntry={currentEntry} mode={mode} editState={editState} setEditState={setEditState} canvasRef={editCanvasRef} layerHistory={layerHistory} onConfirm={handleConfirmMontage} onCancel={handleCancelMontage} history={history} historyIndex={historyIndex} isBatchGridOpen={isBatchGridOpen} setIsBatchGridOpen={setIsBatchGridOpen} onSelectEntry={handleHistoryNavigation} onToggleFavorite={handleToggleFavorite} onDiscardUnfavorited={handleDiscardUnfavorited} onMoreLikeThis={handleMoreLikeThis} onOpenSticker={setStickerEntry} onOpenVector={setVectorEntry} onOpenCompare={setCompareEntry} onOpenUpscale={setUpscaleEntry} onUseFrame={handleUseVideoFrame} onApplyAdjustments={handleApplyAdjustments} />
+                         )}
+                         <JobQueuePanel queue={jobQueue} />
+                         {restoreOffer && (
+                             <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 max-w-[90%] py-2 pl-4 pr-2 bg-zinc-900/95 border border-emerald-800/60 rounded-full shadow-xl backdrop-blur-sm">
+                                 <span className="text-xs text-zinc-300 truncate">{t('restore.found', { prompt: restoreOffer.metadata.prompt })}</span>
+                                 <button onClick={() => restoreFromMetadata(restoreOffer.metadata, restoreOffer.imageUrl)} className="shrink-0 py-1 px-3 text-xs font-semibold text-white bg-emerald-600 hover:bg-emerald-500 rounded-full transition-colors">{t('restore.apply')}</button>
+                                 <button onClick={() => setRestoreOffer(null)} title={t('restore.dismiss')} className="shrink-0 p-1 text-zinc-400 hover:text-white rounded-full"><Icons.Close className="!text-base" /></button>
+                             </div>
+                         )}
+                     </FileDropZone>
                  </div>
             </main>
-            <Sidebar {...{ mode, createState, setCreateState, videoState, setVideoState, editState, setEditState, prompt, setPrompt, isLoading, error, setError, history, historyIndex, handleHistoryNavigation, handleSubmit, processSingleFile, preMontageState, setPreMontageState }} />
-        </>
+            <Sidebar {...{ mode, createState, setCreateState, videoState, setVideoState, editState, setEditState, prompt, setPrompt, activeJobCount: jobQueue.activeCount, error, setError, history, historyIndex, handleHistoryNavigation, handleSubmit, processSingleFile, preMontageState, setPreMontageState, sessions, activeSessionId, handleSessionSelect, handleSessionCreate, handleSessionRename, handleSessionDelete, layerHistory, presets, templateValues, setTemplateValues, handlePresetApply, handlePresetSave, handlePresetDelete, handlePresetsExport: () => exportPresets(presets), handlePresetsImport, isComicPageMode, setIsComicPageMode, comicProject, setComicProject, activeComicPageIndex, generatingPanelIds, handleGenerateComicPanel, storyboardShots, setStoryboardShots, generatingShotIds, handleGenerateShot }} />
+        </I18nContext.Provider>
     );
 }
\ No newline at end of file
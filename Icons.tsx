@@ -45,6 +45,30 @@ export const Wallpaper = (props: React.HTMLAttributes<HTMLSpanElement>) => <Mate
 export const Delete = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="delete" {...props} />;
 export const BringToFront = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="flip_to_front" {...props} />;
 export const Edit = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="edit" {...props} />;
+export const Brush = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="brush" {...props} />;
+export const Eraser = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="ink_eraser" {...props} />;
+export const Lasso = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="lasso_select" {...props} />;
+export const Star = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="star" {...props} />;
+export const GridView = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="grid_view" {...props} />;
+export const Bookmark = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="bookmarks" {...props} />;
+export const FileUpload = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="file_upload" {...props} />;
+export const Queue = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="queue" {...props} />;
+export const Variations = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="auto_awesome_motion" {...props} />;
+export const Vector = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="polyline" {...props} />;
+export const Cut = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="content_cut" {...props} />;
+export const Play = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="play_arrow" {...props} />;
+export const Pause = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="pause" {...props} />;
+export const FramePrevious = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="skip_previous" {...props} />;
+export const FrameNext = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="skip_next" {...props} />;
+export const Camera = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="photo_camera" {...props} />;
+export const Compare = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="compare" {...props} />;
+export const Swap = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="swap_horiz" {...props} />;
+export const ActualSize = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="crop_free" {...props} />;
+export const Colorize = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="colorize" {...props} />;
+export const Tune = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="tune" {...props} />;
+export const RotateLeft = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="rotate_left" {...props} />;
+export const Expand = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="open_in_full" {...props} />;
+export const Upscale = (props: React.HTMLAttributes<HTMLSpanElement>) => <MaterialIcon iconName="hd" {...props} />;
 
 
 export const Spinner = ({ className, ...props }: React.HTMLAttributes<SVGSVGElement>) => (
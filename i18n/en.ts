@@ -0,0 +1,509 @@
+import type { Catalog } from './index';
+
+export const en: Catalog = {
+    // --- Shared ---
+    'common.default': "Default",
+    'common.cancel': "Cancel",
+    'common.save': "Save",
+    'common.remove': "Remove",
+    'common.export': "Export",
+    'common.import': "Import",
+
+    // --- App shell ---
+    'app.easterEgg': "Banana secret...",
+    'app.mockBadge': "Mock",
+    'mode.create': "Create",
+    'mode.edit': "Edit",
+    'mode.video': "Video",
+    'mobile.title': "Best Experienced on Desktop",
+    'mobile.body': "To get the most out of Gemini 3 in Nano Banana Studio, we recommend using a computer.",
+    'mobile.dismiss': "Got it",
+
+    // --- Options ---
+    'aspect.square': "Square",
+    'aspect.landscape': "Landscape (Horizontal)",
+    'aspect.portrait': "Portrait (Vertical)",
+    'resolution.1K': "1K (Default)",
+    'resolution.2K': "2K (High Definition)",
+    'resolution.4K': "4K (Ultra HD)",
+    'resolution.720p': "720p (HD)",
+    'resolution.1080p': "1080p (Full HD)",
+    'createFunction.free': "Free",
+    'createFunction.sticker': "Sticker",
+    'createFunction.text': "Text / Logo",
+    'createFunction.comic': "Comic",
+    'editFunction.montage': "Montage",
+    'editFunction.inpaint': "Magic Brush",
+    'editFunction.adjust': "Adjust",
+    'editFunction.extend': "Extend canvas",
+    'videoFunction.prompt': "Video Prompt",
+    'videoFunction.animation': "Animate Image",
+    'videoFunction.storyboard': "Storyboard",
+    'style.sticker.cartoon': "Cartoon",
+    'style.sticker.vintage': "Vintage",
+    'style.sticker.holographic': "Holographic",
+    'style.sticker.embroidered': "Embroidered",
+    'style.text.minimalist': "Minimalist",
+    'style.text.corporate': "Corporate",
+    'style.text.playful': "Playful",
+    'style.text.geometric': "Geometric",
+    'style.comic.american': "American",
+    'style.comic.manga': "Manga",
+    'style.comic.francoBelgian': "Franco-Belgian",
+    'camera.eyeLevel': "Eye Level",
+    'camera.closeUp': "Close-up",
+    'camera.lowAngle': "Low Angle",
+    'camera.highAngle': "High Angle",
+    'camera.wideShot': "Wide Shot",
+    'lighting.cinematic': "Cinematic",
+    'lighting.soft': "Soft Light",
+    'lighting.dramatic': "Dramatic",
+    'lighting.studio': "Studio",
+    'lighting.natural': "Natural",
+    'referenceRole.style': "Style",
+    'referenceRole.subject': "Subject",
+    'referenceRole.composition': "Composition",
+    'comicLayout.grid2x2': "2×2 grid",
+    'comicLayout.grid2x3': "2×3 grid",
+    'comicLayout.grid3x3': "3×3 grid",
+    'comicLayout.strips3': "Three strips",
+    'comicLayout.featureTop': "Feature on top",
+    'comicLayout.featureBottom': "Feature at bottom",
+    'comicLayout.staggered': "Staggered",
+    'comicLayout.splash': "Splash page",
+
+    // --- Sidebar ---
+    'panel.toggle': "Expand/collapse {title}",
+    'sidebar.settings': "Settings",
+    'sidebar.presets': "Presets",
+    'sidebar.history': "History",
+    'sidebar.historyEmpty': "No results yet.",
+    'sidebar.negative': "NEGATIVE",
+    'sidebar.negativePlaceholder': "What to avoid...",
+    'sidebar.prompt.create': "Describe your idea in detail...",
+    'sidebar.prompt.inpaint': "Describe what should appear in the painted area...",
+    'sidebar.prompt.extend': "Optional: describe what should appear in the new area...",
+    'sidebar.prompt.edit': "Describe the changes...",
+    'sidebar.prompt.video': "Describe the video scene...",
+    'sidebar.prompt.comicPage': "Characters, setting and style shared by every panel...",
+    'sidebar.prompt.montage': "Optional: how the whole montage should look...",
+    'sidebar.prompt.storyboard': "Optional: characters, setting and style shared by every shot...",
+    'sidebar.submit.ultra': "Generate Ultra",
+    'sidebar.submit.flash': "Generate Flash",
+    'sidebar.submit.video': "Generate Veo",
+    'sidebar.submit.edit': "Edit",
+    'sidebar.submit.comicPage': "Generate empty panels",
+    'sidebar.submit.montage': "Compose montage",
+    'sidebar.submit.storyboard': "Generate pending shots",
+    'sidebar.submit.adjust': "Apply adjustments",
+    'sidebar.submit.extend': "Extend canvas",
+    'sidebar.queued': "{count} queued",
+    'upload.remove': "Remove Image",
+    'upload.tooLarge': "Larger than 10MB.",
+    'upload.invalidType': "Invalid type.",
+    'upload.readFailed': "Could not read.",
+    'history.item': "History item {label}",
+
+    // --- Create controls ---
+    'create.model': "AI Model",
+    'create.resolutionPro': "Resolution (Gemini 3)",
+    'create.resolution': "Resolution",
+    'create.style': "Style",
+    'create.selectStyle': "Select a Style",
+    'create.variations': "Variations",
+    'create.aspectRatio': "Aspect Ratio",
+    'create.lighting': "Lighting",
+    'create.angle': "Angle",
+    'create.cameraAngle': "Camera Angle",
+    'create.palette': "Palette",
+    'create.palette.vibrant': "Vibrant",
+    'create.palette.noir': "Noir",
+    'create.referenceImages': "Reference Images ({count}/{max})",
+    'create.addReference': "Add reference",
+    'create.referenceRole': "Reference use",
+    'create.referenceThumbnail': "Reference thumbnail",
+
+    // --- Edit controls and canvas ---
+    'edit.baseImages': "Base Images",
+    'edit.background': "Background",
+    'edit.reference': "Reference",
+    'edit.maskReady': "Area marked. Describe below what should appear in it.",
+    'edit.maskHint': "Paint over the image to mark the area to change.",
+    'edit.layers': "Layers",
+    'edit.layer': "Layer {index}",
+    'edit.layerThumbnail': "Layer thumbnail",
+    'edit.layerInstruction': "What to do with this layer (e.g. on the table, match lighting)",
+    'edit.transform': "Transform",
+    'edit.bringToFront': "Bring to front",
+    'edit.autoMontage': "Automatic image montage",
+    'layer.widthShort': "W",
+    'layer.heightShort': "H",
+    'layer.rotate90': "Rotate 90°",
+    'layer.rotateHandle': "Rotate (Shift for 15°)",
+    'layer.flipX': "Flip horizontally",
+    'layer.flipY': "Flip vertically",
+    'layer.opacity': "Opacity",
+    'canvas.zoomIn': "Zoom In",
+    'canvas.zoomOut': "Zoom Out",
+    'canvas.fit': "Fit to Screen",
+    'canvas.undo': "Undo (Ctrl+Z)",
+    'canvas.redo': "Redo (Ctrl+Shift+Z)",
+    'canvas.confirmMontage': "Confirm Montage",
+    'mask.brush': "Brush",
+    'mask.eraser': "Eraser",
+    'mask.lasso': "Lasso",
+    'mask.brushSize': "Brush size",
+    'mask.clear': "Clear",
+
+    // --- Adjustments ---
+    'adjust.hint': "Adjustments made in the browser, without AI: the image does not change until you apply them.",
+    'adjust.geometry': "Crop and rotate",
+    'adjust.crop': "Aspect ratio",
+    'adjust.cropOriginal': "Original",
+    'adjust.rotateLeft': "Rotate 90° left",
+    'adjust.rotateRight': "Rotate 90° right",
+    'adjust.flipX': "Flip horizontally",
+    'adjust.flipY': "Flip vertically",
+    'adjust.straighten': "Straighten",
+    'adjust.tone': "Light and colour",
+    'adjust.exposure': "Exposure",
+    'adjust.contrast': "Contrast",
+    'adjust.saturation': "Saturation",
+    'adjust.temperature': "Temperature",
+    'adjust.detail': "Detail",
+    'adjust.sharpen': "Sharpen",
+    'adjust.vignette': "Vignette",
+    'adjust.reset': "Reset",
+    'adjust.showOriginal': "Hold to see the original",
+    'adjust.entryPrompt': "Adjustments",
+
+    // --- Extend canvas ---
+    'extend.hint': "Pads the image to a new ratio or size and asks the model to fill the new borders. The original pixels are kept as they are.",
+    'extend.target': "New canvas",
+    'extend.ratio': "Aspect ratio",
+    'extend.size': "Size",
+    'extend.anchor': "Image position",
+    'extend.preview': "{from} → {to}",
+
+    // --- Video controls ---
+    'video.quality': "Quality (Veo 3.1)",
+    'video.resolution': "Video Resolution",
+    'video.startFrame': "Start Image",
+    'video.aspectRatio': "Format",
+    'video.aspect.landscape': "16:9 Landscape",
+    'video.aspect.portrait': "9:16 Portrait",
+    'video.duration': "Duration",
+    'video.seconds': "{seconds}s",
+    'video.takes': "Takes",
+    'video.take': "Take {number}",
+    'frames.play': "Play",
+    'frames.pause': "Pause",
+    'frames.previous': "Previous frame (←, Shift+← goes back 1s)",
+    'frames.next': "Next frame (→, Shift+→ skips 1s)",
+    'frames.scrubber': "Video position",
+    'frames.position': "{frame}/{total} · {time}s",
+    'frames.capture': "Save frame",
+    'frames.sendToEdit': "Edit frame",
+    'frames.useAsReference': "Use as reference",
+    'frames.useAsStartFrame': "Use as start frame",
+    'video.endFrame': "End Frame (optional)",
+    'video.endFrameHint': "With an end frame, the video transitions from the start frame to it.",
+
+    // --- Result display ---
+    'display.defaultFilename': "image",
+    'display.download': "Download image",
+    'display.downloadOriginal': "Download Original",
+    'display.editedImage': "Edited image",
+    'display.placeholder.create': "Pick a tool on the left and describe your image in the panel on the right.",
+    'display.placeholder.video': "Create stunning videos with Veo 3.1. Pick a tool to get started.",
+    'display.placeholder.edit': "Upload a background image and references, then describe the edits in the panel on the right.",
+    'batch.count': "{count} variations",
+    'batch.favoriteOne': "{count} favorite",
+    'batch.favoriteOther': "{count} favorites",
+    'batch.discardHint': "Keeps only the favorites of this batch",
+    'batch.discard': "Discard non-favorites",
+    'batch.open': "Open variation",
+    'batch.favorite': "Add to favorites",
+    'batch.unfavorite': "Remove from favorites",
+    'batch.moreLikeThis': "More like this",
+    'batch.showGrid': "Show grid ({count})",
+
+    // --- Sticker cut-out ---
+    'sticker.open': "Cut Out Sticker",
+    'sticker.title': "Sticker Cut-Out",
+    'sticker.tolerance': "Background tolerance",
+    'sticker.outline': "White outline",
+    'sticker.shadow': "Drop shadow",
+    'sticker.processing': "Cutting out...",
+    'sticker.downloadPng': "Download transparent PNG",
+    'sticker.sheet': "Sticker Sheet (A4)",
+    'sticker.sheetHint': "Pick the stickers from history that go on the sheet. They all use the settings above.",
+    'sticker.columns': "Columns",
+    'sticker.downloadSheet': "Download sheet ({count})",
+    'sticker.filename': "sticker",
+    'sticker.sheetFilename': "sticker-sheet",
+
+    // --- Vector export ---
+    'vector.open': "Vectorize (SVG)",
+    'vector.title': "Vector Export",
+    'vector.raster': "Original (PNG)",
+    'vector.vector': "Vector (SVG)",
+    'vector.paletteSize': "Palette colours",
+    'vector.smoothing': "Smoothing",
+    'vector.processing': "Vectorizing...",
+    'vector.stats': "{paths} layers · {size} KB",
+    'vector.download': "Download SVG",
+
+    // --- Compare ---
+    'compare.open': "Compare",
+    'compare.title': "Compare",
+    'compare.before': "A",
+    'compare.after': "B",
+    'compare.original': "Original image",
+    'compare.entry': "#{number} · {prompt}",
+    'compare.swap': "Swap A and B",
+    'compare.sideBySide': "Side by side",
+    'compare.slider': "Slider",
+    'compare.onion': "Onion skin",
+    'compare.opacity': "B opacity",
+    'compare.hint': "Drag to move the image. The slider and onion skin show A underneath and B on top.",
+
+    // --- Result viewer ---
+    'viewer.actualSize': "Actual size (1:1)",
+    'viewer.minimap': "Click or drag to navigate",
+    'viewer.picker': "Colour picker: shows the pixel colour under the cursor, click to copy the hex",
+    'viewer.pixel': "x {x} · y {y}",
+    'viewer.copied': "Copied",
+
+    // --- Upscale ---
+    'upscale.open': "Upscale",
+    'upscale.title': "Upscale",
+    'upscale.hint': "Enlarges the image in your browser with Lanczos resampling, without the model. It adds pixels, not new detail.",
+    'upscale.tooLarge': "This image is already 4K or larger.",
+    'upscale.target': "Target",
+    'upscale.sharpen': "Sharpening",
+    'upscale.size': "{from} → {to} px",
+    'upscale.apply': "Upscale",
+
+    // --- Image export ---
+    'export.open': "Export...",
+    'export.title': "Export Image",
+    'export.format': "Format",
+    'export.formatUnavailable': "{format} (not available in this browser)",
+    'export.quality': "Quality",
+    'export.scale': "Size",
+    'export.size': "{width} × {height} px",
+    'export.fillBackground': "Fill transparency",
+    'export.backgroundRequired': "JPEG has no transparency: transparent areas get this colour.",
+    'export.embedMetadata': "Include generation settings in the file",
+    'export.metadataHint': "Prompt, model, style and aspect ratio go into the file (PNG tEXt or XMP). Drop the file back in to restore them.",
+    'export.metadataUnsupported': "AVIF does not keep the generation settings.",
+    'export.exporting': "Exporting...",
+    'export.download': "Download {format}",
+    'exportFormat.png': "PNG",
+    'exportFormat.jpeg': "JPEG",
+    'exportFormat.webp': "WebP",
+    'exportFormat.avif': "AVIF",
+
+    // --- Settings restore ---
+    'restore.dropHint': "Drop an exported image to restore its generation settings",
+    'restore.found': "This image carries its generation settings: “{prompt}”",
+    'restore.apply': "Restore settings",
+    'restore.dismiss': "Dismiss",
+    'history.restored': "Restored",
+    'history.diff.prompt': "Prompt changed",
+    'history.diff.mode': "Mode",
+    'history.diff.function': "Tool",
+    'history.diff.negativePrompt': "Negative changed",
+    'history.diff.references': "References",
+    'history.diff.more': "+{count}",
+
+    // --- Comic pages ---
+    'comic.format': "Format",
+    'comic.format.panel': "Single panel",
+    'comic.format.page': "Page",
+    'comic.layout': "Page layout",
+    'comic.gutter': "Space between panels",
+    'comic.script': "Page {page} script",
+    'comic.panel': "Panel {index}",
+    'comic.panelPlaceholder': "What happens in this panel...",
+    'comic.generatePanel': "Generate this panel",
+    'comic.page': "Page {index}",
+    'comic.addPage': "New page",
+    'comic.deletePage': "Delete page",
+    'comic.addBalloon': "Balloon",
+    'comic.addCaption': "Caption",
+    'comic.newBalloon': "Text",
+    'comic.editHint': "Drag balloons and captions; double-click to edit the text.",
+    'comic.resizeBalloon': "Drag to change the width",
+    'comic.exporting': "Exporting...",
+    'comic.exportPng': "Page PNG",
+    'comic.exportPdf': "PDF",
+    'comic.exportCbz': "CBZ",
+    'comic.filename': "comic",
+
+    // --- Storyboard ---
+    'storyboard.shots': "Shots",
+    'storyboard.shot': "Shot {index}",
+    'storyboard.firstShotPlaceholder': "How the video opens...",
+    'storyboard.shotPlaceholder': "What happens next, from the last frame of the previous shot...",
+    'storyboard.generateShot': "Generate this shot",
+    'storyboard.removeShot': "Remove shot",
+    'storyboard.addShot': "New shot",
+    'storyboard.playAll': "Play all",
+    'storyboard.total': "Total length: {length}",
+    'storyboard.seconds': "{seconds}s",
+    'storyboard.export': "Export WebM",
+    'storyboard.exporting': "Exporting... {percent}%",
+    'storyboard.empty': "Write the shots in the panel on the right and generate them. Each shot starts on the last frame of the one before.",
+    'storyboard.trimStart': "Trim start",
+    'storyboard.trimEnd': "Trim end",
+    'storyboard.notGenerated': "Not generated yet",
+    'storyboard.editHint': "Drag shots to reorder them; click one to preview and trim it.",
+    'storyboard.filename': "storyboard",
+
+    // --- Job queue ---
+    'jobs.title': "Generation queue",
+    'jobs.clearFinished': "Clear finished",
+    'jobs.retry': "Try again",
+    'jobs.useFlash': "Use Flash",
+    'jobs.status.queued': "Queued",
+    'jobs.status.running': "Processing",
+    'jobs.status.done': "Done",
+    'jobs.status.failed': "Failed",
+    'jobs.status.cancelled': "Cancelled",
+    'jobs.retryQuota': "Quota exceeded: retry {attempt}/{maxRetries} in {seconds}s",
+    'jobs.retryTransient': "Temporary failure: retry {attempt}/{maxRetries} in {seconds}s",
+    'jobs.fallback': "Gemini 3 unavailable, generating with Flash 2.5...",
+    'jobs.label.prompt': "{prompt}",
+    'jobs.label.variations': "{count} variations: {prompt}",
+    'jobs.label.moreLikeThis': "More like this: {prompt}",
+    'jobs.label.video': "Veo 3.1 ({resolution}): {prompt}",
+    'jobs.label.videoAnimation': "Veo 3.1 ({resolution}): animation",
+    'jobs.label.comicPanel': "Page {page}, panel {index}: {script}",
+    'jobs.label.storyboard': "Storyboard: {count} shots",
+    'jobs.label.storyboardShot': "Storyboard, shot {index}: {prompt}",
+    'jobs.label.adjust': "Applying adjustments",
+    'jobs.label.extend': "Extending the canvas",
+    'jobs.label.upscale': "Upscaling to {resolution}",
+    'jobs.label.montage': "Montage: {prompt}",
+    'jobs.label.easterEgg': "🍌 Activating Brazilian Monkey Protocol...",
+
+    // --- Sessions ---
+    'session.defaultName': "Session {number}",
+    'session.name': "Session name",
+    'session.label': "Session",
+    'session.new': "New session",
+    'session.rename': "Rename session",
+    'session.delete': "Delete session",
+    'session.confirmDelete': "Delete the session \"{name}\" and all of its history?",
+
+    // --- Presets ---
+    'preset.label': "Preset",
+    'preset.apply': "Apply a preset...",
+    'preset.none': "No saved presets",
+    'preset.delete': "Delete preset",
+    'preset.noPrompt': "(no prompt)",
+    'preset.newName': "New preset name",
+    'preset.save': "Save current settings and prompt",
+
+    // --- Settings ---
+    'settings.title': "Settings",
+    'settings.open': "Settings (language and AI providers)",
+    'settings.language': "Language",
+    'settings.providers': "AI Providers",
+    'settings.imageProvider': "Images (create and edit)",
+    'settings.videoProvider': "Video",
+    'settings.http.openai': "OpenAI-compatible",
+    'settings.http.baseUrlPlaceholder': "https://api.example.com/v1",
+    'settings.http.apiKey': "API key (optional)",
+    'settings.http.model': "Model (e.g. gpt-image-1)",
+    'settings.http.workflow': "Workflow in API format (JSON)",
+    'settings.http.workflowHint': "Use the %prompt%, %seed%, %width%, %height% and %image% tokens in the workflow.",
+    'settings.retry.title': "Retries (quota, network, server unavailable)",
+    'settings.retry.maxRetries': "Retries",
+    'settings.retry.baseDelay': "Base delay (s)",
+    'settings.retry.maxDelay': "Max delay (s)",
+    'settings.retry.fallback': "If Gemini 3 Pro fails, generate with Flash 2.5",
+    'settings.mockHint': "The local mock generates test images and videos without network access or an API key.",
+    'provider.gemini': "Google Gemini",
+    'provider.mock': "Local mock",
+    'provider.http': "HTTP server (OpenAI / ComfyUI)",
+
+    // --- Validation ---
+    'validation.templateVariables': "Fill in the template variables: {names}.",
+    'validation.prompt': "Please enter a prompt.",
+    'validation.startFrame': "Please upload an image to animate.",
+    'validation.background': "Please upload a background image to edit.",
+    'validation.mask': "Paint the area to change before generating.",
+    'validation.comicScript': "Write the script of at least one panel that has no image yet.",
+    'validation.adjustments': "Change an adjustment before applying.",
+    'validation.extend': "Choose a ratio or size larger than the image to extend it.",
+    'validation.storyboardShots': "Write at least one shot that has no video yet.",
+
+    // --- Generation errors (see services/generationError.ts) ---
+    'operation.image': "image generation (Flash 2.5)",
+    'operation.imagePro': "image generation (Gemini 3)",
+    'operation.video': "video generation",
+    'operation.edit': "image editing",
+    'operation.inpaint': "masked editing",
+    'operation.outpaint': "canvas extension",
+    'error.generation.auth': "Gemini 3 / Veo requires an API key linked to a project with billing enabled. Try switching to the 'Flash' model for free usage.",
+    'error.generation.quota': "Your API quota was exceeded during {operation}. Please try again later.",
+    'error.generation.unavailable': "The service was overloaded or unavailable during {operation}. Try again in a moment.",
+    'error.generation.network': "A network error occurred during {operation}. Check your internet connection and try again.",
+    'error.generation.safety': "The {operation} was blocked for safety reasons. Please adjust your prompt or image.",
+    'error.generation.invalid_request': "The request for {operation} is invalid. This can be caused by a malformed prompt or incompatible parameters.",
+    'error.generation.configuration': "The selected provider is not configured correctly.",
+    'error.generation.cancelled': "The operation was cancelled.",
+    'error.generation.unknown': "An unexpected error occurred during {operation}. The API may be temporarily unavailable. Try switching to the Flash model.",
+    'error.batchPartial': "{failed} of {total} variations failed: {reason}",
+
+    // --- Provider errors ---
+    'error.provider.geminiMissingKey': "No Gemini API key is configured (GEMINI_API_KEY). Set the key or choose the local mock provider in the settings.",
+    'error.provider.geminiFlashEmpty': "The Flash API returned no image data.",
+    'error.provider.geminiProEmpty': "The Gemini 3 API returned no image data.",
+    'error.provider.editEmpty': "The API returned no image. Try adjusting the prompt or the images.",
+    'error.provider.videoNoLink': "Video generation failed or returned no download link.",
+    'error.provider.videoDownload': "Could not download the generated video. Status: {status}",
+    'error.http.missingBaseUrl': "Enter the HTTP server base URL in the provider settings.",
+    'error.http.rejected': "The HTTP server rejected the request (status {status}). {detail}",
+    'error.http.emptyImage': "The HTTP server returned no image data.",
+    'error.comfy.missingWorkflow': "Paste the ComfyUI workflow (API format) in the HTTP provider settings.",
+    'error.comfy.invalidWorkflow': "The ComfyUI workflow is not valid JSON.",
+    'error.comfy.failed': "The ComfyUI workflow finished with an error.",
+    'error.comfy.noOutput': "The ComfyUI workflow finished without producing images.",
+    'error.comfy.timeout': "ComfyUI did not finish the workflow in time.",
+    'error.mock.noImage': "No image was provided for editing.",
+    'error.mock.noRecorder': "This browser does not support the video recording the local mock needs.",
+
+    // --- Other errors ---
+    'error.unexpected': "An unexpected error occurred.",
+    'error.image.load': "Could not load the image.",
+    'error.upscale.failed': "The image could not be upscaled.",
+    'error.video.load': "Could not load the video.",
+    'error.storyboard.noRecorder': "This browser cannot record WebM videos.",
+    'error.storyboard.empty': "There are no generated shots to export.",
+    'error.sticker.empty': "The sticker could not be separated from its background. Try a lower tolerance.",
+    'error.comic.encode': "The browser could not encode the page for export.",
+    'error.export.unsupported': "This browser cannot produce {format} files.",
+    'error.restore.noMetadata': "This image has no Nano Banana Studio generation settings.",
+    'error.restore.invalidType': "Drop a PNG, JPEG or WebP image.",
+    'error.history.unavailable': "Local storage (IndexedDB) is not available in this browser.",
+    'error.history.restore': "The saved history could not be opened, so what you create now will not be kept: {reason}",
+    'error.history.save': "Could not save the session history: {reason}",
+    'error.session.busy': "Wait for or cancel the queued jobs before switching sessions.",
+    'error.session.load': "Could not load the session.",
+    'error.session.create': "Could not create the session.",
+    'error.session.rename': "Could not rename the session.",
+    'error.session.delete': "Could not delete the session.",
+    'error.presets.invalidJson': "The presets file is not valid JSON.",
+    'error.presets.noList': "The file does not contain a list of presets.",
+    'error.presets.empty': "No valid presets were found in the file.",
+    'error.presets.save': "Could not save the presets to local storage.",
+    'error.presets.import': "Could not import the presets.",
+    'error.montage.canvasUnavailable': "The editing canvas or the background image is not available.",
+    'error.montage.backgroundMissing': "The background image was not found on the canvas.",
+    'error.montage.noSize': "The background image dimensions could not be determined.",
+    'error.montage.unknown': "An unknown error occurred while editing the image.",
+};
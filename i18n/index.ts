@@ -0,0 +1,72 @@
+import { ptBR } from './pt-BR';
+import { en } from './en';
+
+export type MessageKey = keyof typeof ptBR;
+export type MessageParams = Record<string, string | number>;
+export type Catalog = Record<MessageKey, string>;
+
+export type Locale = 'pt-BR' | 'en';
+
+/** A message resolved at render time, so it follows later locale changes. */
+export interface Message {
+    key: MessageKey;
+    params?: MessageParams;
+}
+
+export type TranslateFn = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, Catalog> = { 'pt-BR': ptBR, en };
+
+export const DEFAULT_LOCALE: Locale = 'pt-BR';
+
+// Each language is listed under its own name, so it stays recognisable whatever the current locale
+export const LOCALE_OPTIONS: { id: Locale; label: string }[] = [
+    { id: 'pt-BR', label: 'Português (Brasil)' },
+    { id: 'en', label: 'English' },
+];
+
+const LOCALE_KEY = 'nano-banana-studio:locale';
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+    const template = CATALOGS[locale][key] ?? CATALOGS[DEFAULT_LOCALE][key] ?? key;
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+const detectLocale = (): Locale =>
+    typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('pt') ? 'pt-BR' : 'en';
+
+export const loadLocale = (): Locale => {
+    try {
+        const stored = localStorage.getItem(LOCALE_KEY);
+        if (stored && stored in CATALOGS) return stored as Locale;
+    } catch {
+        // Storage unavailable, use the browser language
+    }
+    return detectLocale();
+};
+
+export const saveLocale = (locale: Locale) => {
+    try {
+        localStorage.setItem(LOCALE_KEY, locale);
+    } catch {
+        // The choice still applies for this page load
+    }
+};
+
+/**
+ * Error whose user-facing text comes from the catalogs. `message` holds the
+ * English text for logs; the UI translates `key` in the current locale.
+ * When a `cause` is given, its description fills the {reason} placeholder.
+ */
+export class LocalizedError extends Error {
+    readonly key: MessageKey;
+    readonly params?: MessageParams;
+
+    constructor(key: MessageKey, params?: MessageParams, options?: { cause?: unknown }) {
+        super(translate('en', key, { reason: (options?.cause as Error)?.message ?? '', ...params }), options);
+        this.name = 'LocalizedError';
+        this.key = key;
+        this.params = params;
+    }
+}
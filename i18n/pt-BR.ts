@@ -0,0 +1,509 @@
+// Source catalog: every key used by the app is defined here first, and the
+// other catalogs are type-checked against it. Placeholders use {name}.
+export const ptBR = {
+    // --- Shared ---
+    'common.default': "Padrão",
+    'common.cancel': "Cancelar",
+    'common.save': "Salvar",
+    'common.remove': "Remover",
+    'common.export': "Exportar",
+    'common.import': "Importar",
+
+    // --- App shell ---
+    'app.easterEgg': "Segredo da Banana...",
+    'app.mockBadge': "Simulação",
+    'mode.create': "Criar",
+    'mode.edit': "Editar",
+    'mode.video': "Vídeo",
+    'mobile.title': "Experiência Otimizada para Desktop",
+    'mobile.body': "Para utilizar todo o poder do Gemini 3 no Nano Banana Studio, recomendamos um computador.",
+    'mobile.dismiss': "Entendi",
+
+    // --- Options ---
+    'aspect.square': "Quadrado",
+    'aspect.landscape': "Paisagem (Horizontal)",
+    'aspect.portrait': "Retrato (Vertical)",
+    'resolution.1K': "1K (Padrão)",
+    'resolution.2K': "2K (Alta Definição)",
+    'resolution.4K': "4K (Ultra HD)",
+    'resolution.720p': "720p (HD)",
+    'resolution.1080p': "1080p (Full HD)",
+    'createFunction.free': "Livre",
+    'createFunction.sticker': "Sticker",
+    'createFunction.text': "Texto / Logo",
+    'createFunction.comic': "HQ",
+    'editFunction.montage': "Montagem",
+    'editFunction.inpaint': "Pincel Mágico",
+    'editFunction.adjust': "Ajustes",
+    'editFunction.extend': "Estender tela",
+    'videoFunction.prompt': "Prompt de Vídeo",
+    'videoFunction.animation': "Animar Imagem",
+    'videoFunction.storyboard': "Storyboard",
+    'style.sticker.cartoon': "Desenho",
+    'style.sticker.vintage': "Vintage",
+    'style.sticker.holographic': "Holográfico",
+    'style.sticker.embroidered': "Bordado",
+    'style.text.minimalist': "Minimalista",
+    'style.text.corporate': "Corporativo",
+    'style.text.playful': "Divertido",
+    'style.text.geometric': "Geométrico",
+    'style.comic.american': "Americano",
+    'style.comic.manga': "Mangá",
+    'style.comic.francoBelgian': "Franco-Belga",
+    'camera.eyeLevel': "Nível do Olhar",
+    'camera.closeUp': "Close-up",
+    'camera.lowAngle': "Ângulo Baixo",
+    'camera.highAngle': "Plano Alto",
+    'camera.wideShot': "Plano Geral",
+    'lighting.cinematic': "Cinemática",
+    'lighting.soft': "Luz Suave",
+    'lighting.dramatic': "Dramática",
+    'lighting.studio': "Estúdio",
+    'lighting.natural': "Natural",
+    'referenceRole.style': "Estilo",
+    'referenceRole.subject': "Sujeito",
+    'referenceRole.composition': "Composição",
+    'comicLayout.grid2x2': "Grade 2×2",
+    'comicLayout.grid2x3': "Grade 2×3",
+    'comicLayout.grid3x3': "Grade 3×3",
+    'comicLayout.strips3': "Três faixas",
+    'comicLayout.featureTop': "Destaque no topo",
+    'comicLayout.featureBottom': "Destaque embaixo",
+    'comicLayout.staggered': "Escalonado",
+    'comicLayout.splash': "Página inteira",
+
+    // --- Sidebar ---
+    'panel.toggle': "Expandir/recolher {title}",
+    'sidebar.settings': "Configurações",
+    'sidebar.presets': "Presets",
+    'sidebar.history': "Histórico",
+    'sidebar.historyEmpty': "Nenhum resultado ainda.",
+    'sidebar.negative': "NEGATIVO",
+    'sidebar.negativePlaceholder': "O que evitar...",
+    'sidebar.prompt.create': "Descreva sua imaginação em detalhes...",
+    'sidebar.prompt.inpaint': "Descreva o que deve aparecer na área pintada...",
+    'sidebar.prompt.extend': "Opcional: descreva o que deve aparecer na nova área...",
+    'sidebar.prompt.edit': "Descreva as alterações...",
+    'sidebar.prompt.video': "Descreva a cena do vídeo...",
+    'sidebar.prompt.comicPage': "Personagens, cenário e estilo compartilhados por todos os painéis...",
+    'sidebar.prompt.montage': "Opcional: como a montagem inteira deve ficar...",
+    'sidebar.prompt.storyboard': "Opcional: personagens, cenário e estilo compartilhados por todas as tomadas...",
+    'sidebar.submit.ultra': "Gerar Ultra",
+    'sidebar.submit.flash': "Gerar Flash",
+    'sidebar.submit.video': "Gerar Veo",
+    'sidebar.submit.edit': "Editar",
+    'sidebar.submit.comicPage': "Gerar painéis vazios",
+    'sidebar.submit.montage': "Compor montagem",
+    'sidebar.submit.storyboard': "Gerar tomadas pendentes",
+    'sidebar.submit.adjust': "Aplicar ajustes",
+    'sidebar.submit.extend': "Estender tela",
+    'sidebar.queued': "{count} na fila",
+    'upload.remove': "Remover Imagem",
+    'upload.tooLarge': "Excede 10MB.",
+    'upload.invalidType': "Tipo inválido.",
+    'upload.readFailed': "Falha ao ler.",
+    'history.item': "Histórico item {label}",
+
+    // --- Create controls ---
+    'create.model': "Modelo de IA",
+    'create.resolutionPro': "Resolução (Gemini 3)",
+    'create.resolution': "Resolução",
+    'create.style': "Estilo",
+    'create.selectStyle': "Selecione um Estilo",
+    'create.variations': "Variações",
+    'create.aspectRatio': "Proporção",
+    'create.lighting': "Iluminação",
+    'create.angle': "Ângulo",
+    'create.cameraAngle': "Ângulo da Câmera",
+    'create.palette': "Paleta",
+    'create.palette.vibrant': "Vibrante",
+    'create.palette.noir': "Noir",
+    'create.referenceImages': "Imagens de Referência ({count}/{max})",
+    'create.addReference': "Adicionar referência",
+    'create.referenceRole': "Uso da referência",
+    'create.referenceThumbnail': "Miniatura da referência",
+
+    // --- Edit controls and canvas ---
+    'edit.baseImages': "Imagens de Base",
+    'edit.background': "Fundo",
+    'edit.reference': "Referência",
+    'edit.maskReady': "Área marcada. Descreva abaixo o que deve aparecer nela.",
+    'edit.maskHint': "Pinte sobre a imagem a área que deve ser alterada.",
+    'edit.layers': "Camadas",
+    'edit.layer': "Camada {index}",
+    'edit.layerThumbnail': "Miniatura da camada",
+    'edit.layerInstruction': "O que fazer com esta camada (ex.: sobre a mesa, mesma luz)",
+    'edit.transform': "Transformar",
+    'edit.bringToFront': "Trazer para frente",
+    'edit.autoMontage': "Montagem automática de imagem",
+    'layer.widthShort': "L",
+    'layer.heightShort': "A",
+    'layer.rotate90': "Girar 90°",
+    'layer.rotateHandle': "Girar (Shift para 15°)",
+    'layer.flipX': "Espelhar horizontalmente",
+    'layer.flipY': "Espelhar verticalmente",
+    'layer.opacity': "Opacidade",
+    'canvas.zoomIn': "Aumentar Zoom",
+    'canvas.zoomOut': "Diminuir Zoom",
+    'canvas.fit': "Ajustar à Tela",
+    'canvas.undo': "Desfazer (Ctrl+Z)",
+    'canvas.redo': "Refazer (Ctrl+Shift+Z)",
+    'canvas.confirmMontage': "Confirmar Montagem",
+    'mask.brush': "Pincel",
+    'mask.eraser': "Borracha",
+    'mask.lasso': "Laço",
+    'mask.brushSize': "Tamanho do pincel",
+    'mask.clear': "Limpar",
+
+    // --- Adjustments ---
+    'adjust.hint': "Ajustes feitos no navegador, sem IA: nada muda na imagem até você aplicá-los.",
+    'adjust.geometry': "Corte e rotação",
+    'adjust.crop': "Proporção",
+    'adjust.cropOriginal': "Original",
+    'adjust.rotateLeft': "Girar 90° à esquerda",
+    'adjust.rotateRight': "Girar 90° à direita",
+    'adjust.flipX': "Espelhar horizontalmente",
+    'adjust.flipY': "Espelhar verticalmente",
+    'adjust.straighten': "Endireitar",
+    'adjust.tone': "Luz e cor",
+    'adjust.exposure': "Exposição",
+    'adjust.contrast': "Contraste",
+    'adjust.saturation': "Saturação",
+    'adjust.temperature': "Temperatura",
+    'adjust.detail': "Detalhes",
+    'adjust.sharpen': "Nitidez",
+    'adjust.vignette': "Vinheta",
+    'adjust.reset': "Redefinir",
+    'adjust.showOriginal': "Segure para ver o original",
+    'adjust.entryPrompt': "Ajustes",
+
+    // --- Extend canvas ---
+    'extend.hint': "Amplia a imagem para uma nova proporção ou tamanho e pede ao modelo para preencher as novas bordas. Os pixels originais são mantidos como estão.",
+    'extend.target': "Nova tela",
+    'extend.ratio': "Proporção",
+    'extend.size': "Tamanho",
+    'extend.anchor': "Posição da imagem",
+    'extend.preview': "{from} → {to}",
+
+    // --- Video controls ---
+    'video.quality': "Qualidade (Veo 3.1)",
+    'video.resolution': "Resolução de Vídeo",
+    'video.startFrame': "Imagem Inicial",
+    'video.aspectRatio': "Formato",
+    'video.aspect.landscape': "16:9 Paisagem",
+    'video.aspect.portrait': "9:16 Retrato",
+    'video.duration': "Duração",
+    'video.seconds': "{seconds}s",
+    'video.takes': "Tomadas",
+    'video.take': "Tomada {number}",
+    'frames.play': "Reproduzir",
+    'frames.pause': "Pausar",
+    'frames.previous': "Quadro anterior (←, Shift+← volta 1s)",
+    'frames.next': "Próximo quadro (→, Shift+→ avança 1s)",
+    'frames.scrubber': "Posição no vídeo",
+    'frames.position': "{frame}/{total} · {time}s",
+    'frames.capture': "Salvar quadro",
+    'frames.sendToEdit': "Editar quadro",
+    'frames.useAsReference': "Usar como referência",
+    'frames.useAsStartFrame': "Usar como imagem inicial",
+    'video.endFrame': "Imagem Final (opcional)",
+    'video.endFrameHint': "Com uma imagem final, o vídeo faz a transição da imagem inicial até ela.",
+
+    // --- Result display ---
+    'display.defaultFilename': "imagem",
+    'display.download': "Baixar imagem",
+    'display.downloadOriginal': "Baixar Original",
+    'display.editedImage': "Imagem editada",
+    'display.placeholder.create': "Selecione uma ferramenta à esquerda e descreva sua imagem no painel à direita.",
+    'display.placeholder.video': "Crie vídeos impressionantes com Veo 3.1. Selecione uma ferramenta e comece.",
+    'display.placeholder.edit': "Envie uma imagem de fundo e referências, depois descreva as edições no painel à direita.",
+    'batch.count': "{count} variações",
+    'batch.favoriteOne': "{count} favorita",
+    'batch.favoriteOther': "{count} favoritas",
+    'batch.discardHint': "Mantém apenas as favoritas deste lote",
+    'batch.discard': "Descartar não favoritas",
+    'batch.open': "Abrir variação",
+    'batch.favorite': "Favoritar",
+    'batch.unfavorite': "Remover dos favoritos",
+    'batch.moreLikeThis': "Mais assim",
+    'batch.showGrid': "Ver grade ({count})",
+
+    // --- Sticker cut-out ---
+    'sticker.open': "Recortar Sticker",
+    'sticker.title': "Sticker Recortado",
+    'sticker.tolerance': "Tolerância do fundo",
+    'sticker.outline': "Contorno branco",
+    'sticker.shadow': "Sombra projetada",
+    'sticker.processing': "Recortando...",
+    'sticker.downloadPng': "Baixar PNG transparente",
+    'sticker.sheet': "Folha de Stickers (A4)",
+    'sticker.sheetHint': "Escolha os stickers do histórico que vão para a folha. Todos usam os ajustes acima.",
+    'sticker.columns': "Colunas",
+    'sticker.downloadSheet': "Baixar folha ({count})",
+    'sticker.filename': "sticker",
+    'sticker.sheetFilename': "folha-de-stickers",
+
+    // --- Vector export ---
+    'vector.open': "Vetorizar (SVG)",
+    'vector.title': "Exportar Vetor",
+    'vector.raster': "Original (PNG)",
+    'vector.vector': "Vetor (SVG)",
+    'vector.paletteSize': "Cores da paleta",
+    'vector.smoothing': "Suavização",
+    'vector.processing': "Vetorizando...",
+    'vector.stats': "{paths} camadas · {size} KB",
+    'vector.download': "Baixar SVG",
+
+    // --- Compare ---
+    'compare.open': "Comparar",
+    'compare.title': "Comparar",
+    'compare.before': "A",
+    'compare.after': "B",
+    'compare.original': "Imagem original",
+    'compare.entry': "#{number} · {prompt}",
+    'compare.swap': "Trocar A e B",
+    'compare.sideBySide': "Lado a lado",
+    'compare.slider': "Cortina",
+    'compare.onion': "Sobreposição",
+    'compare.opacity': "Opacidade de B",
+    'compare.hint': "Arraste para mover a imagem. A cortina e a sobreposição mostram A embaixo e B em cima.",
+
+    // --- Result viewer ---
+    'viewer.actualSize': "Tamanho real (1:1)",
+    'viewer.minimap': "Clique ou arraste para navegar",
+    'viewer.picker': "Conta-gotas: mostra a cor do pixel sob o cursor, clique para copiar o hex",
+    'viewer.pixel': "x {x} · y {y}",
+    'viewer.copied': "Copiado",
+
+    // --- Upscale ---
+    'upscale.open': "Ampliar",
+    'upscale.title': "Ampliar",
+    'upscale.hint': "Amplia a imagem no seu navegador com reamostragem Lanczos, sem o modelo. Ela ganha pixels, não novos detalhes.",
+    'upscale.tooLarge': "Esta imagem já tem 4K ou mais.",
+    'upscale.target': "Destino",
+    'upscale.sharpen': "Nitidez",
+    'upscale.size': "{from} → {to} px",
+    'upscale.apply': "Ampliar",
+
+    // --- Image export ---
+    'export.open': "Exportar...",
+    'export.title': "Exportar Imagem",
+    'export.format': "Formato",
+    'export.formatUnavailable': "{format} (indisponível neste navegador)",
+    'export.quality': "Qualidade",
+    'export.scale': "Tamanho",
+    'export.size': "{width} × {height} px",
+    'export.fillBackground': "Preencher transparência",
+    'export.backgroundRequired': "JPEG não tem transparência: as áreas transparentes recebem esta cor.",
+    'export.embedMetadata': "Incluir configurações da geração no arquivo",
+    'export.metadataHint': "Prompt, modelo, estilo e proporção vão no arquivo (PNG tEXt ou XMP). Arraste o arquivo de volta para restaurá-los.",
+    'export.metadataUnsupported': "AVIF não guarda as configurações da geração.",
+    'export.exporting': "Exportando...",
+    'export.download': "Baixar {format}",
+    'exportFormat.png': "PNG",
+    'exportFormat.jpeg': "JPEG",
+    'exportFormat.webp': "WebP",
+    'exportFormat.avif': "AVIF",
+
+    // --- Settings restore ---
+    'restore.dropHint': "Solte uma imagem exportada para restaurar as configurações da geração",
+    'restore.found': "Esta imagem traz as configurações da geração: “{prompt}”",
+    'restore.apply': "Restaurar configurações",
+    'restore.dismiss': "Ignorar",
+    'history.restored': "Restaurada",
+    'history.diff.prompt': "Prompt alterado",
+    'history.diff.mode': "Modo",
+    'history.diff.function': "Ferramenta",
+    'history.diff.negativePrompt': "Negativo alterado",
+    'history.diff.references': "Referências",
+    'history.diff.more': "+{count}",
+
+    // --- Comic pages ---
+    'comic.format': "Formato",
+    'comic.format.panel': "Painel único",
+    'comic.format.page': "Página",
+    'comic.layout': "Layout da página",
+    'comic.gutter': "Espaço entre painéis",
+    'comic.script': "Roteiro da página {page}",
+    'comic.panel': "Painel {index}",
+    'comic.panelPlaceholder': "O que acontece neste painel...",
+    'comic.generatePanel': "Gerar este painel",
+    'comic.page': "Página {index}",
+    'comic.addPage': "Nova página",
+    'comic.deletePage': "Excluir página",
+    'comic.addBalloon': "Balão",
+    'comic.addCaption': "Legenda",
+    'comic.newBalloon': "Texto",
+    'comic.editHint': "Arraste balões e legendas; clique duas vezes para editar o texto.",
+    'comic.resizeBalloon': "Arraste para mudar a largura",
+    'comic.exporting': "Exportando...",
+    'comic.exportPng': "PNG da página",
+    'comic.exportPdf': "PDF",
+    'comic.exportCbz': "CBZ",
+    'comic.filename': "hq",
+
+    // --- Storyboard ---
+    'storyboard.shots': "Tomadas",
+    'storyboard.shot': "Tomada {index}",
+    'storyboard.firstShotPlaceholder': "Como o vídeo começa...",
+    'storyboard.shotPlaceholder': "O que acontece em seguida, a partir do último quadro da tomada anterior...",
+    'storyboard.generateShot': "Gerar esta tomada",
+    'storyboard.removeShot': "Remover tomada",
+    'storyboard.addShot': "Nova tomada",
+    'storyboard.playAll': "Reproduzir tudo",
+    'storyboard.total': "Duração total: {length}",
+    'storyboard.seconds': "{seconds}s",
+    'storyboard.export': "Exportar WebM",
+    'storyboard.exporting': "Exportando... {percent}%",
+    'storyboard.empty': "Escreva as tomadas no painel à direita e gere-as. Cada tomada começa no último quadro da anterior.",
+    'storyboard.trimStart': "Cortar início",
+    'storyboard.trimEnd': "Cortar fim",
+    'storyboard.notGenerated': "Ainda não gerada",
+    'storyboard.editHint': "Arraste as tomadas para reordenar; clique em uma para visualizá-la e cortá-la.",
+    'storyboard.filename': "storyboard",
+
+    // --- Job queue ---
+    'jobs.title': "Fila de geração",
+    'jobs.clearFinished': "Limpar concluídos",
+    'jobs.retry': "Tentar novamente",
+    'jobs.useFlash': "Usar Flash",
+    'jobs.status.queued': "Na fila",
+    'jobs.status.running': "Processando",
+    'jobs.status.done': "Concluído",
+    'jobs.status.failed': "Falhou",
+    'jobs.status.cancelled': "Cancelado",
+    'jobs.retryQuota': "Cota excedida: nova tentativa {attempt}/{maxRetries} em {seconds}s",
+    'jobs.retryTransient': "Falha temporária: nova tentativa {attempt}/{maxRetries} em {seconds}s",
+    'jobs.fallback': "Gemini 3 indisponível, gerando com Flash 2.5...",
+    'jobs.label.prompt': "{prompt}",
+    'jobs.label.variations': "{count} variações: {prompt}",
+    'jobs.label.moreLikeThis': "Mais assim: {prompt}",
+    'jobs.label.video': "Veo 3.1 ({resolution}): {prompt}",
+    'jobs.label.videoAnimation': "Veo 3.1 ({resolution}): animação",
+    'jobs.label.comicPanel': "Página {page}, painel {index}: {script}",
+    'jobs.label.storyboard': "Storyboard: {count} tomadas",
+    'jobs.label.storyboardShot': "Storyboard, tomada {index}: {prompt}",
+    'jobs.label.adjust': "Aplicando ajustes",
+    'jobs.label.extend': "Estendendo a tela",
+    'jobs.label.upscale': "Ampliando para {resolution}",
+    'jobs.label.montage': "Montagem: {prompt}",
+    'jobs.label.easterEgg': "🍌 Ativando Protocolo Macaco Brasileiro...",
+
+    // --- Sessions ---
+    'session.defaultName': "Sessão {number}",
+    'session.name': "Nome da sessão",
+    'session.label': "Sessão",
+    'session.new': "Nova sessão",
+    'session.rename': "Renomear sessão",
+    'session.delete': "Excluir sessão",
+    'session.confirmDelete': "Excluir a sessão \"{name}\" e todo o seu histórico?",
+
+    // --- Presets ---
+    'preset.label': "Preset",
+    'preset.apply': "Aplicar um preset...",
+    'preset.none': "Nenhum preset salvo",
+    'preset.delete': "Excluir preset",
+    'preset.noPrompt': "(sem prompt)",
+    'preset.newName': "Nome do novo preset",
+    'preset.save': "Salvar configurações e prompt atuais",
+
+    // --- Settings ---
+    'settings.title': "Configurações",
+    'settings.open': "Configurações (idioma e provedores de IA)",
+    'settings.language': "Idioma",
+    'settings.providers': "Provedores de IA",
+    'settings.imageProvider': "Imagens (criar e editar)",
+    'settings.videoProvider': "Vídeo",
+    'settings.http.openai': "Compatível com OpenAI",
+    'settings.http.baseUrlPlaceholder': "https://api.exemplo.com/v1",
+    'settings.http.apiKey': "Chave de API (opcional)",
+    'settings.http.model': "Modelo (ex.: gpt-image-1)",
+    'settings.http.workflow': "Workflow no formato API (JSON)",
+    'settings.http.workflowHint': "Use os marcadores %prompt%, %seed%, %width%, %height% e %image% no workflow.",
+    'settings.retry.title': "Novas tentativas (cota, rede, servidor indisponível)",
+    'settings.retry.maxRetries': "Tentativas",
+    'settings.retry.baseDelay': "Espera base (s)",
+    'settings.retry.maxDelay': "Espera máx. (s)",
+    'settings.retry.fallback': "Se o Gemini 3 Pro falhar, gerar com Flash 2.5",
+    'settings.mockHint': "A simulação local gera imagens e vídeos de teste sem rede nem chave de API.",
+    'provider.gemini': "Google Gemini",
+    'provider.mock': "Simulação local",
+    'provider.http': "Servidor HTTP (OpenAI / ComfyUI)",
+
+    // --- Validation ---
+    'validation.templateVariables': "Preencha as variáveis do modelo: {names}.",
+    'validation.prompt': "Por favor, insira um prompt.",
+    'validation.startFrame': "Por favor, envie uma imagem para animar.",
+    'validation.background': "Por favor, envie uma imagem de fundo para editar.",
+    'validation.mask': "Pinte a área que deve ser alterada antes de gerar.",
+    'validation.comicScript': "Escreva o roteiro de pelo menos um painel ainda sem imagem.",
+    'validation.adjustments': "Mude algum ajuste antes de aplicar.",
+    'validation.extend': "Escolha uma proporção ou um tamanho maior que a imagem para estendê-la.",
+    'validation.storyboardShots': "Escreva pelo menos uma tomada ainda sem vídeo.",
+
+    // --- Generation errors (see services/generationError.ts) ---
+    'operation.image': "geração da imagem (Flash 2.5)",
+    'operation.imagePro': "geração da imagem (Gemini 3)",
+    'operation.video': "geração de vídeo",
+    'operation.edit': "edição de imagem",
+    'operation.inpaint': "edição por máscara",
+    'operation.outpaint': "extensão da tela",
+    'error.generation.auth': "Para usar o modo Gemini 3 / Veo, é necessário selecionar uma chave de API vinculada a um projeto com faturamento. Tente mudar para o modelo 'Flash' para uso gratuito.",
+    'error.generation.quota': "Sua cota de uso da API foi excedida durante a {operation}. Por favor, tente novamente mais tarde.",
+    'error.generation.unavailable': "O serviço está sobrecarregado ou indisponível durante a {operation}. Tente novamente em instantes.",
+    'error.generation.network': "Ocorreu um erro de rede durante a {operation}. Verifique sua conexão com a internet e tente novamente.",
+    'error.generation.safety': "A {operation} foi bloqueada por motivos de segurança. Por favor, ajuste seu prompt ou imagem.",
+    'error.generation.invalid_request': "A solicitação para {operation} é inválida. Isso pode ser causado por um prompt malformado ou parâmetros incompatíveis.",
+    'error.generation.configuration': "O provedor selecionado não está configurado corretamente.",
+    'error.generation.cancelled': "A operação foi cancelada.",
+    'error.generation.unknown': "Ocorreu um erro inesperado durante a {operation}. A API pode estar temporariamente indisponível. Tente mudar para o modelo Flash.",
+    'error.batchPartial': "{failed} de {total} variações falharam: {reason}",
+
+    // --- Provider errors ---
+    'error.provider.geminiMissingKey': "Nenhuma chave de API do Gemini foi configurada (GEMINI_API_KEY). Defina a chave ou escolha o provedor de simulação local nas configurações.",
+    'error.provider.geminiFlashEmpty': "A API Flash não retornou dados de imagem.",
+    'error.provider.geminiProEmpty': "A API Gemini 3 não retornou dados de imagem.",
+    'error.provider.editEmpty': "A API não retornou uma imagem. Tente ajustar o prompt ou as imagens.",
+    'error.provider.videoNoLink': "A geração do vídeo falhou ou não retornou um link para download.",
+    'error.provider.videoDownload': "Falha ao baixar o vídeo gerado. Status: {status}",
+    'error.http.missingBaseUrl': "Informe a URL base do servidor HTTP nas configurações do provedor.",
+    'error.http.rejected': "O servidor HTTP recusou a requisição (status {status}). {detail}",
+    'error.http.emptyImage': "O servidor HTTP não retornou dados de imagem.",
+    'error.comfy.missingWorkflow': "Cole o workflow do ComfyUI (formato API) nas configurações do provedor HTTP.",
+    'error.comfy.invalidWorkflow': "O workflow do ComfyUI não é um JSON válido.",
+    'error.comfy.failed': "O workflow do ComfyUI terminou com erro.",
+    'error.comfy.noOutput': "O workflow do ComfyUI terminou sem gerar imagens.",
+    'error.comfy.timeout': "O ComfyUI não concluiu o workflow a tempo.",
+    'error.mock.noImage': "Nenhuma imagem foi enviada para edição.",
+    'error.mock.noRecorder': "Este navegador não suporta a gravação de vídeo necessária para a simulação local.",
+
+    // --- Other errors ---
+    'error.unexpected': "Ocorreu um erro inesperado.",
+    'error.image.load': "Não foi possível carregar a imagem.",
+    'error.upscale.failed': "Não foi possível ampliar a imagem.",
+    'error.video.load': "Não foi possível carregar o vídeo.",
+    'error.storyboard.noRecorder': "Este navegador não consegue gravar vídeos WebM.",
+    'error.storyboard.empty': "Nenhuma tomada gerada para exportar.",
+    'error.sticker.empty': "Não foi possível separar o sticker do fundo. Tente reduzir a tolerância.",
+    'error.comic.encode': "O navegador não conseguiu codificar a página para exportação.",
+    'error.export.unsupported': "Este navegador não consegue gerar arquivos {format}.",
+    'error.restore.noMetadata': "Esta imagem não tem configurações de geração do Nano Banana Studio.",
+    'error.restore.invalidType': "Solte uma imagem PNG, JPEG ou WebP.",
+    'error.history.unavailable': "O armazenamento local (IndexedDB) não está disponível neste navegador.",
+    'error.history.restore': "Não foi possível abrir o histórico salvo, então o que você criar agora não será guardado: {reason}",
+    'error.history.save': "Não foi possível salvar o histórico da sessão: {reason}",
+    'error.session.busy': "Aguarde ou cancele os trabalhos da fila antes de trocar de sessão.",
+    'error.session.load': "Não foi possível carregar a sessão.",
+    'error.session.create': "Não foi possível criar a sessão.",
+    'error.session.rename': "Não foi possível renomear a sessão.",
+    'error.session.delete': "Não foi possível excluir a sessão.",
+    'error.presets.invalidJson': "O arquivo de presets não é um JSON válido.",
+    'error.presets.noList': "O arquivo não contém uma lista de presets.",
+    'error.presets.empty': "Nenhum preset válido foi encontrado no arquivo.",
+    'error.presets.save': "Não foi possível salvar os presets no armazenamento local.",
+    'error.presets.import': "Não foi possível importar os presets.",
+    'error.montage.canvasUnavailable': "A tela de edição ou a imagem de fundo não estão disponíveis.",
+    'error.montage.backgroundMissing': "A imagem de fundo não foi encontrada na tela.",
+    'error.montage.noSize': "As dimensões da imagem de fundo não puderam ser calculadas.",
+    'error.montage.unknown': "Ocorreu um erro desconhecido ao editar a imagem.",
+};
@@ -0,0 +1,73 @@
+import type { CanvasExtension, UploadedImage } from '../types';
+import { createCanvas, dataUrlToUploadedImage, loadImage, parseAspectRatio } from './imageProcessing';
+
+export const DEFAULT_CANVAS_EXTENSION: CanvasExtension = { target: 'ratio', aspectRatio: '16:9', width: 1920, height: 1080, anchorX: 0.5, anchorY: 0.5 };
+
+// The model reads flat grey as empty space to fill; black tends to be kept as a frame
+const EMPTY_AREA_FILL = '#808080';
+
+// Size of the extended canvas and where the background sits in it, in pixels of the canvas
+export interface CanvasLayout {
+    width: number;
+    height: number;
+    x: number;
+    y: number;
+    imageWidth: number;
+    imageHeight: number;
+}
+
+export const getCanvasLayout = (width: number, height: number, extension: CanvasExtension): CanvasLayout => {
+    let canvasWidth = width;
+    let canvasHeight = height;
+    let scale = 1;
+    if (extension.target === 'size') {
+        canvasWidth = Math.max(1, Math.round(extension.width));
+        canvasHeight = Math.max(1, Math.round(extension.height));
+        scale = Math.min(1, canvasWidth / width, canvasHeight / height);
+    } else {
+        const ratio = parseAspectRatio(extension.aspectRatio) ?? width / height;
+        canvasWidth = Math.max(width, Math.round(height * ratio));
+        canvasHeight = Math.max(height, Math.round(width / ratio));
+    }
+    const imageWidth = Math.round(width * scale);
+    const imageHeight = Math.round(height * scale);
+    return {
+        width: canvasWidth,
+        height: canvasHeight,
+        x: Math.round((canvasWidth - imageWidth) * extension.anchorX),
+        y: Math.round((canvasHeight - imageHeight) * extension.anchorY),
+        imageWidth,
+        imageHeight,
+    };
+};
+
+// Whether the layout adds any border, i.e. whether there is something for the model to fill
+export const isCanvasExtended = (layout: CanvasLayout) => layout.imageWidth < layout.width || layout.imageHeight < layout.height;
+
+export interface ExtendedCanvas {
+    layout: CanvasLayout;
+    imageUrl: string;
+    image: UploadedImage;
+    mask: UploadedImage; // White for the new borders, black for the original
+}
+
+/** Pads an image onto its extended canvas, with the mask of the borders the model should fill. */
+export const extendCanvas = async (imageUrl: string, extension: CanvasExtension): Promise<ExtendedCanvas> => {
+    const img = await loadImage(imageUrl);
+    const layout = getCanvasLayout(img.naturalWidth, img.naturalHeight, extension);
+
+    const { canvas, ctx } = createCanvas(layout.width, layout.height);
+    ctx.fillStyle = EMPTY_AREA_FILL;
+    ctx.fillRect(0, 0, layout.width, layout.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, layout.x, layout.y, layout.imageWidth, layout.imageHeight);
+
+    const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(layout.width, layout.height);
+    maskCtx.fillStyle = '#ffffff';
+    maskCtx.fillRect(0, 0, layout.width, layout.height);
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(layout.x, layout.y, layout.imageWidth, layout.imageHeight);
+
+    const paddedUrl = canvas.toDataURL('image/png');
+    return { layout, imageUrl: paddedUrl, image: dataUrlToUploadedImage(paddedUrl), mask: dataUrlToUploadedImage(maskCanvas.toDataURL('image/png')) };
+};
@@ -0,0 +1,133 @@
+import type { ComicPage } from '../types';
+import { renderComicPage, COMIC_PAGE_WIDTH, COMIC_PAGE_HEIGHT } from './comicPage';
+import { crc32 } from './crc32';
+import { LocalizedError } from '../i18n';
+
+const JPEG_QUALITY = 0.92;
+// A4 in PDF points
+const PDF_PAGE_WIDTH = 595.28;
+const PDF_PAGE_HEIGHT = 841.89;
+
+const encoder = new TextEncoder();
+
+const canvasToBytes = (canvas: HTMLCanvasElement, type: string): Promise<Uint8Array> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (!blob) { reject(new LocalizedError('error.comic.encode')); return; }
+            blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+        }, type, JPEG_QUALITY);
+    });
+
+// Pages are rendered one at a time: each one is a full-resolution canvas
+const renderPagesAsJpeg = async (pages: ComicPage[], gutter: number): Promise<Uint8Array[]> => {
+    const jpegs: Uint8Array[] = [];
+    for (const page of pages) {
+        jpegs.push(await canvasToBytes(await renderComicPage(page, gutter), 'image/jpeg'));
+    }
+    return jpegs;
+};
+
+export const comicPageToPng = async (page: ComicPage, gutter: number): Promise<string> =>
+    (await renderComicPage(page, gutter)).toDataURL('image/png');
+
+/**
+ * Builds a PDF with one A4 page per comic page. Each page is a single JPEG
+ * image (DCTDecode), which any reader can display without further decoding.
+ */
+export const comicPagesToPdf = async (pages: ComicPage[], gutter: number): Promise<Blob> => {
+    const jpegs = await renderPagesAsJpeg(pages, gutter);
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const startObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    // Object ids: 1 catalog, 2 page tree, then page, contents and image for each page
+    const pageIds = jpegs.map((_, i) => 3 + i * 3);
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+    startObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    startObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${jpegs.length} >>\nendobj\n`);
+    jpegs.forEach((jpeg, i) => {
+        const [pageId, contentsId, imageId] = [pageIds[i], pageIds[i] + 1, pageIds[i] + 2];
+        startObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentsId} 0 R >>\nendobj\n`);
+        const contents = `q ${PDF_PAGE_WIDTH} 0 0 ${PDF_PAGE_HEIGHT} 0 0 cm /Im0 Do Q`;
+        startObject(contentsId);
+        write(`<< /Length ${contents.length} >>\nstream\n${contents}\nendstream\nendobj\n`);
+        startObject(imageId);
+        write(`<< /Type /XObject /Subtype /Image /Width ${COMIC_PAGE_WIDTH} /Height ${COMIC_PAGE_HEIGHT} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+        write(jpeg);
+        write('\nendstream\nendobj\n');
+    });
+
+    const xrefOffset = length;
+    const objectCount = 3 + jpegs.length * 3;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Blob(chunks, { type: 'application/pdf' });
+};
+
+/**
+ * Writes an uncompressed (stored) ZIP archive. The pages are already JPEG,
+ * so deflating them again would gain almost nothing.
+ */
+const buildZip = (files: { name: string; data: Uint8Array }[]): Blob => {
+    const chunks: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+    for (const file of files) {
+        const name = encoder.encode(file.name);
+        const crc = crc32(file.data);
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true); // version needed
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(12, 0x21, true); // date: 1980-01-01
+        local.setUint32(14, crc, true);
+        local.setUint32(18, file.data.length, true);
+        local.setUint32(22, file.data.length, true);
+        local.setUint16(26, name.length, true);
+        chunks.push(new Uint8Array(local.buffer), name, file.data);
+
+        const entry = new DataView(new ArrayBuffer(46));
+        entry.setUint32(0, 0x02014b50, true);
+        entry.setUint16(4, 20, true); // version made by
+        entry.setUint16(6, 20, true); // version needed
+        entry.setUint16(14, 0x21, true);
+        entry.setUint32(16, crc, true);
+        entry.setUint32(20, file.data.length, true);
+        entry.setUint32(24, file.data.length, true);
+        entry.setUint16(28, name.length, true);
+        entry.setUint32(42, offset, true);
+        central.push(new Uint8Array(entry.buffer), name);
+        offset += 30 + name.length + file.data.length;
+    }
+    const centralSize = central.reduce((sum, chunk) => sum + chunk.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+    return new Blob([...chunks, ...central, new Uint8Array(end.buffer)], { type: 'application/vnd.comicbook+zip' });
+};
+
+/** Builds a CBZ comic archive: numbered JPEG pages plus a ComicInfo.xml with the page count. */
+export const comicPagesToCbz = async (pages: ComicPage[], gutter: number): Promise<Blob> => {
+    const jpegs = await renderPagesAsJpeg(pages, gutter);
+    const files = jpegs.map((data, i) => ({ name: `page-${String(i + 1).padStart(3, '0')}.jpg`, data }));
+    const comicInfo = `<?xml version="1.0" encoding="utf-8"?>\n<ComicInfo><PageCount>${jpegs.length}</PageCount></ComicInfo>\n`;
+    return buildZip([...files, { name: 'ComicInfo.xml', data: encoder.encode(comicInfo) }]);
+};
@@ -0,0 +1,202 @@
+import type { ComicBalloon, ComicPage, ComicPanel, ComicProject } from '../types';
+import type { MessageKey } from '../i18n';
+import { loadImage, createCanvas } from './imageProcessing';
+
+// A4 at 300 dpi, like the sticker sheets
+export const COMIC_PAGE_WIDTH = 2480;
+export const COMIC_PAGE_HEIGHT = 3508;
+const PAGE_MARGIN = 120;
+const PANEL_BORDER = 6;
+
+// Balloon metrics as fractions of the page width, shared with the on-screen editor
+export const BALLOON_FONT_SIZE = 0.018;
+export const BALLOON_PADDING_X = 0.022;
+export const BALLOON_PADDING_Y = 0.012;
+export const BALLOON_FONT_FAMILY = '"Comic Neue", "Comic Sans MS", "Chalkboard SE", sans-serif';
+const BALLOON_LINE_HEIGHT = 1.25;
+const CAPTION_FILL = '#fef3c7';
+
+export const DEFAULT_COMIC_GUTTER = 40;
+
+export interface ComicLayout {
+    id: string;
+    labelKey: MessageKey;
+    // Rows from top to bottom, each with a relative height and the relative widths of its panels
+    rows: { height: number; columns: number[] }[];
+}
+
+export const COMIC_LAYOUTS: ComicLayout[] = [
+    { id: 'grid-2x2', labelKey: 'comicLayout.grid2x2', rows: [{ height: 1, columns: [1, 1] }, { height: 1, columns: [1, 1] }] },
+    { id: 'grid-2x3', labelKey: 'comicLayout.grid2x3', rows: [{ height: 1, columns: [1, 1] }, { height: 1, columns: [1, 1] }, { height: 1, columns: [1, 1] }] },
+    { id: 'grid-3x3', labelKey: 'comicLayout.grid3x3', rows: [{ height: 1, columns: [1, 1, 1] }, { height: 1, columns: [1, 1, 1] }, { height: 1, columns: [1, 1, 1] }] },
+    { id: 'strips-3', labelKey: 'comicLayout.strips3', rows: [{ height: 1, columns: [1] }, { height: 1, columns: [1] }, { height: 1, columns: [1] }] },
+    { id: 'feature-top', labelKey: 'comicLayout.featureTop', rows: [{ height: 3, columns: [1] }, { height: 2, columns: [1, 1] }] },
+    { id: 'feature-bottom', labelKey: 'comicLayout.featureBottom', rows: [{ height: 2, columns: [1, 1, 1] }, { height: 3, columns: [1] }] },
+    { id: 'staggered', labelKey: 'comicLayout.staggered', rows: [{ height: 1, columns: [2, 1] }, { height: 1, columns: [1, 2] }, { height: 1, columns: [1, 1, 1] }] },
+    { id: 'splash', labelKey: 'comicLayout.splash', rows: [{ height: 1, columns: [1] }] },
+];
+
+export const DEFAULT_COMIC_LAYOUT_ID = 'grid-2x2';
+
+export interface PanelRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export const getComicLayout = (layoutId: string): ComicLayout =>
+    COMIC_LAYOUTS.find(layout => layout.id === layoutId) ?? COMIC_LAYOUTS[0];
+
+export const countLayoutPanels = (layoutId: string) =>
+    getComicLayout(layoutId).rows.reduce((total, row) => total + row.columns.length, 0);
+
+/** Panel rectangles of a layout in page pixels, in reading order (left to right, top to bottom). */
+export const computePanelRects = (layoutId: string, gutter: number): PanelRect[] => {
+    const { rows } = getComicLayout(layoutId);
+    const liveWidth = COMIC_PAGE_WIDTH - PAGE_MARGIN * 2;
+    const liveHeight = COMIC_PAGE_HEIGHT - PAGE_MARGIN * 2 - gutter * (rows.length - 1);
+    const totalHeight = rows.reduce((sum, row) => sum + row.height, 0);
+    const rects: PanelRect[] = [];
+    let y = PAGE_MARGIN;
+    for (const row of rows) {
+        const height = liveHeight * row.height / totalHeight;
+        const rowWidth = liveWidth - gutter * (row.columns.length - 1);
+        const totalWidth = row.columns.reduce((sum, column) => sum + column, 0);
+        let x = PAGE_MARGIN;
+        for (const column of row.columns) {
+            const width = rowWidth * column / totalWidth;
+            rects.push({ x, y, width, height });
+            x += width + gutter;
+        }
+        y += height + gutter;
+    }
+    return rects;
+};
+
+// Keeps the panels that still fit the new layout and adds empty ones for the rest
+export const applyComicLayout = (page: ComicPage, layoutId: string): ComicPage => {
+    const count = countLayoutPanels(layoutId);
+    const panels: ComicPanel[] = Array.from({ length: count }, (_, i) => page.panels[i] ?? { id: `panel-${Date.now()}-${i}`, script: '', imageUrl: null });
+    return { ...page, layoutId, panels };
+};
+
+export const createComicPage = (layoutId = DEFAULT_COMIC_LAYOUT_ID): ComicPage =>
+    applyComicLayout({ id: `page-${Date.now()}`, layoutId, panels: [], balloons: [] }, layoutId);
+
+export const createComicProject = (): ComicProject => ({ pages: [createComicPage()], gutter: DEFAULT_COMIC_GUTTER });
+
+// Lettering is added as editable overlays, so the model is asked to leave it out
+export const COMIC_PANEL_NEGATIVE_PROMPT = 'speech balloons, captions, lettering, text';
+
+export const buildComicPanelPrompt = (script: string, sharedDescription: string): string =>
+    sharedDescription ? `${script}. Recurring characters, setting and style: ${sharedDescription}` : script;
+
+const SUPPORTED_PANEL_RATIOS = ['1:1', '16:9', '4:3', '9:16', '3:4'];
+
+// The generation aspect ratio closest to a panel, so the image needs as little cropping as possible
+export const closestAspectRatio = (rect: PanelRect): string => {
+    const target = Math.log(rect.width / rect.height);
+    return SUPPORTED_PANEL_RATIOS.reduce((best, ratio) => {
+        const [w, h] = ratio.split(':').map(Number);
+        const [bw, bh] = best.split(':').map(Number);
+        return Math.abs(Math.log(w / h) - target) < Math.abs(Math.log(bw / bh) - target) ? ratio : best;
+    });
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && ctx.measureText(candidate).width > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+    }
+    return lines;
+};
+
+const drawBalloon = (ctx: CanvasRenderingContext2D, balloon: ComicBalloon) => {
+    const fontSize = BALLOON_FONT_SIZE * COMIC_PAGE_WIDTH;
+    const paddingX = BALLOON_PADDING_X * COMIC_PAGE_WIDTH;
+    const paddingY = BALLOON_PADDING_Y * COMIC_PAGE_WIDTH;
+    const x = balloon.x * COMIC_PAGE_WIDTH;
+    const y = balloon.y * COMIC_PAGE_HEIGHT;
+    const width = balloon.width * COMIC_PAGE_WIDTH;
+    ctx.font = `bold ${fontSize}px ${BALLOON_FONT_FAMILY}`;
+    const lines = wrapText(ctx, balloon.text, width - paddingX * 2);
+    const lineHeight = fontSize * BALLOON_LINE_HEIGHT;
+    const height = lines.length * lineHeight + paddingY * 2;
+
+    ctx.lineWidth = 5;
+    ctx.strokeStyle = '#000';
+    if (balloon.kind === 'speech') {
+        const cx = x + width / 2;
+        const cy = y + height / 2;
+        // The tail points down and to the left, as in the editor
+        ctx.beginPath();
+        ctx.moveTo(cx - width * 0.18, cy + height * 0.3);
+        ctx.lineTo(cx - width * 0.3, y + height + height * 0.45);
+        ctx.lineTo(cx - width * 0.02, cy + height * 0.4);
+        ctx.closePath();
+        ctx.fillStyle = '#fff';
+        ctx.fill();
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.ellipse(cx, cy, width / 2, height / 2, 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+    } else {
+        ctx.fillStyle = CAPTION_FILL;
+        ctx.fillRect(x, y, width, height);
+        ctx.strokeRect(x, y, width, height);
+    }
+
+    ctx.fillStyle = '#000';
+    ctx.textAlign = balloon.kind === 'speech' ? 'center' : 'left';
+    ctx.textBaseline = 'middle';
+    const textX = balloon.kind === 'speech' ? x + width / 2 : x + paddingX;
+    lines.forEach((line, i) => ctx.fillText(line, textX, y + paddingY + lineHeight * (i + 0.5)));
+};
+
+/**
+ * Draws a full-resolution comic page: panel images cropped to fill their
+ * frames, black panel borders, then the balloons and captions on top.
+ */
+export const renderComicPage = async (page: ComicPage, gutter: number): Promise<HTMLCanvasElement> => {
+    const { canvas, ctx } = createCanvas(COMIC_PAGE_WIDTH, COMIC_PAGE_HEIGHT);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, COMIC_PAGE_WIDTH, COMIC_PAGE_HEIGHT);
+
+    const rects = computePanelRects(page.layoutId, gutter);
+    const images = await Promise.all(page.panels.map(panel => (panel.imageUrl ? loadImage(panel.imageUrl) : null)));
+    rects.forEach((rect, i) => {
+        const image = images[i];
+        if (image) {
+            const scale = Math.max(rect.width / image.naturalWidth, rect.height / image.naturalHeight);
+            const drawWidth = image.naturalWidth * scale;
+            const drawHeight = image.naturalHeight * scale;
+            ctx.save();
+            ctx.beginPath();
+            ctx.rect(rect.x, rect.y, rect.width, rect.height);
+            ctx.clip();
+            ctx.drawImage(image, rect.x + (rect.width - drawWidth) / 2, rect.y + (rect.height - drawHeight) / 2, drawWidth, drawHeight);
+            ctx.restore();
+        } else {
+            ctx.fillStyle = '#f4f4f5';
+            ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+        }
+        ctx.lineWidth = PANEL_BORDER;
+        ctx.strokeStyle = '#000';
+        ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    });
+
+    page.balloons.filter(balloon => balloon.text.trim()).forEach(balloon => drawBalloon(ctx, balloon));
+    return canvas;
+};
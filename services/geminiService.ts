@@ -1,34 +1,9 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { UploadedImage, GenerateImageOptions } from '../types';
-
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set.");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const handleGeminiError = (e: any, context: string): Error => {
-    console.error(`Gemini API Error (${context}):`, e);
-    const errorMessage = (e?.message || JSON.stringify(e) || '').toLowerCase();
-
-    if (errorMessage.includes('api key not valid') || errorMessage.includes('requested entity was not found')) {
-        return new Error("Para usar o modo Gemini 3 / Veo, é necessário selecionar uma chave de API vinculada a um projeto com faturamento. Tente mudar para o modelo 'Flash' para uso gratuito.");
-    }
-    if (errorMessage.includes('quota') || errorMessage.includes('resource_exhausted')) {
-        return new Error(`Sua cota de uso da API foi excedida durante a ${context}. Por favor, tente novamente mais tarde.`);
-    }
-    if (errorMessage.includes('safety') || errorMessage.includes('blocked')) {
-        return new Error(`A ${context} foi bloqueada por motivos de segurança. Por favor, ajuste seu prompt ou imagem.`);
-    }
-    if (errorMessage.includes('network') || errorMessage.includes('fetch') || errorMessage.includes('failed to fetch')) {
-        return new Error(`Ocorreu um erro de rede durante a ${context}. Verifique sua conexão com a internet e tente novamente.`);
-    }
-    if (errorMessage.includes('400') || errorMessage.includes('invalid argument')) {
-        return new Error(`A solicitação para ${context} é inválida. Isso pode ser causado por um prompt malformado ou parâmetros incompatíveis.`);
-    }
-
-    return new Error(`Ocorreu um erro inesperado durante a ${context}. A API pode estar temporariamente indisponível. Tente mudar para o modelo Flash.`);
-};
+import type { UploadedImage, GenerateImageOptions, GeneratedImage, AIModel, ReferenceImage, ReferenceRole, MontageLayer } from '../types';
+import { getImageProvider, getVideoProvider, getProviderSettings } from './providers';
+import type { VideoGenerationRequest } from './providers';
+import { GenerationError, toGenerationError } from './generationError';
+import { withRetry } from './retry';
+import type { RetryEvents } from './retry';
 
 export const fileToBase64 = (file: File): Promise<UploadedImage> => {
   return new Promise((resolve, reject) => {
@@ -43,59 +18,24 @@ export const fileToBase64 = (file: File): Promise<UploadedImage> => {
   });
 };
 
+/**
+ * Resolves to one video URL per take. Retries happen per request inside the
+ * provider: retrying the whole call would start, and bill, a new generation.
+ */
 export const generateVideo = async (
-    prompt: string,
-    startFrame?: UploadedImage,
-    resolution: '720p' | '1080p' = '720p'
-): Promise<string> => {
+    options: Omit<VideoGenerationRequest, 'signal' | 'retry'>,
+    signal?: AbortSignal,
+    events?: RetryEvents
+): Promise<string[]> => {
+    const policy = getProviderSettings().retry;
     try {
-        const imagePayload = startFrame ? {
-            imageBytes: startFrame.base64,
-            mimeType: startFrame.mimeType,
-        } : undefined;
-
-        // Check for API Key selection if running in AI Studio environment (standard procedure for Veo)
-        if (typeof window !== 'undefined' && (window as any).aistudio) {
-            const hasKey = await (window as any).aistudio.hasSelectedApiKey();
-            if (!hasKey) {
-                 await (window as any).aistudio.openSelectKey();
-            }
-        }
-        
-        // Create a fresh instance to ensure key validity if changed via UI
-        const currentAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-        let operation = await currentAi.models.generateVideos({
-            model: 'veo-3.1-fast-generate-preview', // Upgrade to Veo 3.1
-            prompt: prompt,
-            ...(imagePayload && { image: imagePayload }),
-            config: {
-                numberOfVideos: 1,
-                resolution: resolution, // Support for 1080p
-                aspectRatio: '16:9', // Veo 3.1 Fast usually defaults to standard ratios
-            }
+        return await getVideoProvider().generateVideo({
+            ...options,
+            signal,
+            retry: task => withRetry(task, 'video', policy, signal, events),
         });
-
-        while (!operation.done) {
-            await new Promise(resolve => setTimeout(resolve, 10000));
-            operation = await currentAi.operations.getVideosOperation({ operation: operation });
-        }
-
-        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-        if (!downloadLink) {
-            throw new Error("A geração do vídeo falhou ou não retornou um link para download.");
-        }
-
-        const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-        if (!videoResponse.ok) {
-            throw new Error(`Falha ao baixar o vídeo gerado. Status: ${videoResponse.status}`);
-        }
-        
-        const videoBlob = await videoResponse.blob();
-        return URL.createObjectURL(videoBlob);
-
     } catch (e: any) {
-        throw handleGeminiError(e, "geração de vídeo");
+        throw toGenerationError(e, 'video');
     }
 };
 
@@ -115,11 +55,14 @@ const buildImagePrompt = (options: GenerateImageOptions): string => {
         case 'sticker':
             promptParts.push(`A die-cut sticker of ${prompt}`);
             if (styleModifier !== 'default') promptParts.push(`${styleModifier} style`);
-            promptParts.push("with a thick white border, on a simple background");
+            // A flat background lets the sticker be cut out client-side (see stickerProcessing.ts)
+            promptParts.push("with a thick white border, isolated on a flat, solid, single-colour background without shadows, gradients or texture");
             break;
         case 'text':
             promptParts.push(`A clean, vector-style logo of ${prompt}`);
             if (styleModifier !== 'default') promptParts.push(`${styleModifier} design`);
+            // Flat colours trace cleanly to SVG (see vectorTrace.ts)
+            promptParts.push("flat solid colours without gradients or texture, on a plain background");
             break;
         case 'comic':
             promptParts.push(`A single comic book panel of ${prompt}`);
@@ -172,99 +115,202 @@ const buildImagePrompt = (options: GenerateImageOptions): string => {
     return finalPrompt;
 };
 
-export const generateImage = async (options: GenerateImageOptions): Promise<string> => {
-    const finalPrompt = buildImagePrompt(options);
+const REFERENCE_ROLE_INSTRUCTIONS: Record<ReferenceRole, string> = {
+    style: 'use it only as a reference for the art style, colour palette and rendering technique, not for its content',
+    subject: 'keep the same subject (character, object or product), preserving its identity, shape and details',
+    composition: 'follow its layout, framing, perspective and poses',
+};
+
+// The images are sent in order, so each one is introduced by its position
+const describeReferenceImages = (references: ReferenceImage[], firstIndex: number): string =>
+    references
+        .map((reference, i) => `Image ${firstIndex + i}: ${REFERENCE_ROLE_INSTRUCTIONS[reference.role]}.`)
+        .join(' ');
+
+// Errors worth answering with the other model: not the prompt's fault, and not a cancellation
+const canFallBack = (error: GenerationError) => ['auth', 'quota', 'unavailable', 'network', 'unknown'].includes(error.code);
+
+/**
+ * Generates one image, retrying transient failures. When the Pro model still
+ * fails and the retry policy allows it, the request is repeated on Flash;
+ * the returned `model` tells which one produced the image.
+ */
+export const generateImage = async (options: GenerateImageOptions, signal?: AbortSignal, events?: RetryEvents): Promise<GeneratedImage> => {
+    let finalPrompt = buildImagePrompt(options);
+    const images: UploadedImage[] = [];
+    if (options.variationOf) {
+        images.push(options.variationOf);
+        finalPrompt = `Create a new variation of image 1, keeping its subject, composition and overall style but changing the details. ${finalPrompt}`;
+    }
+    const references = options.referenceImages ?? [];
+    if (references.length > 0) {
+        finalPrompt = `${describeReferenceImages(references, images.length + 1)} ${finalPrompt}`;
+        images.push(...references.map(reference => reference.image));
+    }
+
+    const policy = getProviderSettings().retry;
+    const run = async (model: AIModel): Promise<GeneratedImage> => {
+        const imageUrl = await withRetry(
+            () => getImageProvider().generateImage({
+                prompt: finalPrompt,
+                model,
+                aspectRatio: options.aspectRatio,
+                resolution: options.resolution || '1K',
+                images,
+                candidate: options.candidate,
+                signal,
+            }),
+            model === 'pro' ? 'imagePro' : 'image', policy, signal, events
+        );
+        return { imageUrl, model };
+    };
 
     try {
-        // Standard Mode: Use Gemini 2.5 Flash Image
-        // Does NOT enforce the popup key selection, making it friendlier for free tier/env keys
-        if (options.model === 'flash') {
-             const currentAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
-             const response = await currentAi.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: [{ text: finalPrompt }] },
-                config: {
-                    // Flash 2.5 image doesn't support explicit imageSize in the same way as Pro 3
-                    // We rely on default output
-                },
-            });
+        return await run(options.model);
+    } catch (e: any) {
+        if (options.model !== 'pro' || !policy.fallbackToFlash || !canFallBack(e)) throw e;
+        events?.onFallback?.(e);
+        return run('flash');
+    }
+};
 
-            if (response.candidates?.[0]?.content?.parts) {
-                for (const part of response.candidates[0].content.parts) {
-                    if (part.inlineData) {
-                        const base64EncodeString: string = part.inlineData.data;
-                        const mimeType = part.inlineData.mimeType || 'image/png';
-                        return `data:${mimeType};base64,${base64EncodeString}`;
-                    }
-                }
-            }
-            throw new Error("A API Flash não retornou dados de imagem.");
-        } 
-        
-        // Ultra Mode: Use Gemini 3 Pro Image Preview
-        // This requires a paid project key selection
-        else {
-            if (typeof window !== 'undefined' && (window as any).aistudio) {
-                const hasKey = await (window as any).aistudio.hasSelectedApiKey();
-                if (!hasKey) {
-                     await (window as any).aistudio.openSelectKey();
-                }
-            }
-            const currentAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Aspect ratios the image models accept
+export const IMAGE_ASPECT_RATIOS = ['1:1', '16:9', '4:3', '9:16', '3:4'];
 
-            const response = await currentAi.models.generateContent({
-                model: 'gemini-3-pro-image-preview',
-                contents: { parts: [{ text: finalPrompt }] },
-                config: {
-                    imageConfig: {
-                        aspectRatio: options.aspectRatio,
-                        imageSize: options.resolution || "1K"
-                    }
-                },
-            });
+// Candidates a single request may ask for; each one is a billed call
+export const BATCH_SIZE_OPTIONS = [1, 2, 4, 6, 8];
+const BATCH_CONCURRENCY = 3;
 
-            if (response.candidates?.[0]?.content?.parts) {
-                for (const part of response.candidates[0].content.parts) {
-                    if (part.inlineData) {
-                        const base64EncodeString: string = part.inlineData.data;
-                        const mimeType = part.inlineData.mimeType || 'image/png';
-                        return `data:${mimeType};base64,${base64EncodeString}`;
-                    }
-                }
+/**
+ * Generates several candidates for the same options, running at most
+ * BATCH_CONCURRENCY requests at a time. Each slot holds either the generated
+ * image or the error of that candidate, so one failure doesn't lose the batch.
+ */
+export const generateImageBatch = async (
+    options: GenerateImageOptions,
+    count: number,
+    onProgress?: (completed: number, total: number) => void,
+    signal?: AbortSignal,
+    events?: RetryEvents
+): Promise<(GeneratedImage | GenerationError)[]> => {
+    const results: (GeneratedImage | GenerationError)[] = new Array(count);
+    let nextIndex = 0;
+    let completed = 0;
+
+    const worker = async () => {
+        while (nextIndex < count && !signal?.aborted) {
+            const index = nextIndex++;
+            try {
+                results[index] = await generateImage(count > 1 ? { ...options, candidate: index } : options, signal, events);
+            } catch (e: any) {
+                results[index] = e;
             }
-            throw new Error("A API Gemini 3 não retornou dados de imagem.");
+            completed++;
+            onProgress?.(completed, count);
         }
-        
-    } catch (e: any) {
-        throw handleGeminiError(e, `geração da imagem (${options.model === 'pro' ? 'Gemini 3' : 'Flash 2.5'})`);
-    }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, count) }, worker));
+    // A cancelled batch is cancelled as a whole, even if some candidates had already finished
+    if (signal?.aborted) throw new GenerationError('cancelled', 'image', '');
+    return results;
 };
 
 export const editImage = async (
     prompt: string,
-    image: UploadedImage
+    image: UploadedImage,
+    signal?: AbortSignal,
+    events?: RetryEvents
 ): Promise<string> => {
-    try {
-        const imagePart = { inlineData: { data: image.base64, mimeType: image.mimeType } };
-        const textPart = { text: prompt };
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image', // Using Flash for fast editing/reasoning on images
-            contents: { parts: [imagePart, textPart] },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-        });
+    return withRetry(
+        () => getImageProvider().editImage({ prompt, images: [image], signal }),
+        'edit', getProviderSettings().retry, signal, events
+    );
+};
 
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData && part.inlineData.mimeType?.startsWith('image/')) {
-                const base64ImageBytes: string = part.inlineData.data;
-                return `data:${part.inlineData.mimeType};base64,${base64ImageBytes}`;
-            }
-        }
-        throw new Error("A API não retornou uma imagem. Tente ajustar o prompt ou as imagens.");
+export const inpaintImage = async (
+    prompt: string,
+    image: UploadedImage,
+    mask: UploadedImage,
+    negativePrompt?: string,
+    signal?: AbortSignal,
+    events?: RetryEvents
+): Promise<string> => {
+    let instructions = `The first image is the photo to edit. The second image is a mask of the same size: white pixels mark the area to change, black pixels must stay exactly as they are. Only modify the white area: ${prompt}. Blend the change seamlessly with the surrounding lighting, perspective and texture, and return the full edited photo at the original framing.`;
+    if (negativePrompt) {
+        instructions += ` Avoid the following: ${negativePrompt}`;
+    }
+    return withRetry(
+        () => getImageProvider().editImage({ prompt: instructions, images: [image, mask], signal }),
+        'inpaint', getProviderSettings().retry, signal, events
+    );
+};
 
-    } catch (e: any) {
-        throw handleGeminiError(e, "edição de imagem");
+/**
+ * Fills the borders added around a photo (see services/canvasExtension.ts).
+ * The prompt is optional: without one the model just continues the scene.
+ */
+export const outpaintImage = async (
+    prompt: string,
+    image: UploadedImage,
+    mask: UploadedImage,
+    negativePrompt?: string,
+    signal?: AbortSignal,
+    events?: RetryEvents
+): Promise<string> => {
+    let instructions = 'The first image is a photo placed on a larger canvas; the flat grey borders around it are empty. The second image is a mask of the same size: white pixels mark the empty borders, black pixels mark the original photo, which must stay exactly as it is. Fill the white area by naturally continuing the scene beyond the original edges, matching its perspective, lighting, colours and texture, with no visible seams or frames.';
+    if (prompt) {
+        instructions += ` In the new area: ${prompt}.`;
+    }
+    if (negativePrompt) {
+        instructions += ` Avoid the following: ${negativePrompt}`;
     }
-};
\ No newline at end of file
+    instructions += ' Return the full image at exactly the size and aspect ratio of the canvas.';
+    return withRetry(
+        () => getImageProvider().editImage({ prompt: instructions, images: [image, mask], signal }),
+        'outpaint', getProviderSettings().retry, signal, events
+    );
+};
+
+const toPercent = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+const describeMontageLayer = (layer: MontageLayer, imageNumber: number): string => {
+    const placement = [
+        `Image ${imageNumber}: place this object with its centre ${toPercent(layer.centerX)} from the left and ${toPercent(layer.centerY)} from the top of the background`,
+        `about ${toPercent(layer.width)} of the background width and ${toPercent(layer.height)} of its height`,
+    ];
+    if (layer.rotation) placement.push(`rotated ${Math.round(layer.rotation)} degrees clockwise`);
+    if (layer.flipX) placement.push('mirrored horizontally');
+    if (layer.flipY) placement.push('flipped upside down');
+    if (layer.opacity < 1) placement.push(`semi-transparent, at ${toPercent(layer.opacity)} opacity`);
+    const instruction = layer.instruction.trim();
+    return `${placement.join(', ')}.${instruction ? ` For this object: ${instruction}.` : ''}`;
+};
+
+/**
+ * Composes a montage from the background and each layer sent as separate
+ * images. The prompt places every layer from its position on the canvas and
+ * adds its own instruction, so the model blends the originals instead of
+ * retouching a pre-flattened paste-up. Layers are given back to front.
+ */
+export const composeMontage = async (
+    background: UploadedImage,
+    layers: MontageLayer[],
+    prompt: string,
+    negativePrompt?: string,
+    signal?: AbortSignal,
+    events?: RetryEvents
+): Promise<string> => {
+    const parts = [
+        'Image 1 is the background scene. Compose a single realistic photo by adding the objects from the following images onto it.',
+        ...layers.map((layer, i) => describeMontageLayer(layer, i + 2)),
+        'Objects listed later are in front of the earlier ones.',
+        "Remove each object's original background and match its lighting, shadows, colours and perspective to the scene so the result looks like one coherent photo. Keep the framing of the background and everything the objects do not cover.",
+    ];
+    if (prompt) parts.push(`Overall direction: ${prompt}`);
+    if (negativePrompt) parts.push(`Avoid the following: ${negativePrompt}`);
+    return withRetry(
+        () => getImageProvider().editImage({ prompt: parts.join(' '), images: [background, ...layers.map(layer => layer.image)], signal }),
+        'edit', getProviderSettings().retry, signal, events
+    );
+};
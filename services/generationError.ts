@@ -0,0 +1,75 @@
+import { ProviderConfigurationError } from './providers/types';
+import { isAbortError } from './providers/abort';
+import type { TranslateFn } from '../i18n';
+import { LocalizedError, translate } from '../i18n';
+
+export type GenerationErrorCode =
+    | 'auth'            // Key missing permissions or billing (typical for Gemini 3 / Veo)
+    | 'quota'           // RESOURCE_EXHAUSTED / HTTP 429
+    | 'unavailable'     // 5xx, model overloaded
+    | 'network'         // The request never reached the server or the connection dropped
+    | 'safety'          // Blocked by the provider's safety filters
+    | 'invalid_request' // 400 / INVALID_ARGUMENT
+    | 'configuration'   // Provider settings incomplete (see ProviderConfigurationError)
+    | 'cancelled'
+    | 'unknown';
+
+const RETRYABLE_CODES: GenerationErrorCode[] = ['quota', 'unavailable', 'network'];
+
+// What was being attempted, shown inside the error message ("during image editing")
+export type GenerationOperation = 'image' | 'imagePro' | 'video' | 'edit' | 'inpaint' | 'outpaint';
+
+/**
+ * Error raised by every generation call. `code` says what went wrong in a
+ * provider-independent way, `retryable` whether trying again may succeed, and
+ * `providerMessage` keeps the raw message returned by the backend.
+ * The user-facing text is built from `code` and `operation` by `describe`.
+ */
+export class GenerationError extends Error {
+    readonly code: GenerationErrorCode;
+    readonly retryable: boolean;
+    readonly providerMessage: string;
+    readonly operation: GenerationOperation;
+
+    constructor(code: GenerationErrorCode, operation: GenerationOperation, providerMessage: string, cause?: unknown) {
+        super('', { cause });
+        this.name = 'GenerationError';
+        this.code = code;
+        this.retryable = RETRYABLE_CODES.includes(code);
+        this.providerMessage = providerMessage;
+        this.operation = operation;
+        this.message = this.describe((key, params) => translate('en', key, params));
+    }
+
+    describe(t: TranslateFn): string {
+        // Configuration problems and unrecognised provider failures carry a more specific localized message
+        if ((this.code === 'configuration' || this.code === 'unknown') && this.cause instanceof LocalizedError) {
+            return t(this.cause.key, this.cause.params);
+        }
+        return t(`error.generation.${this.code}`, { operation: t(`operation.${this.operation}`) });
+    }
+}
+
+const classify = (e: any, status: number | undefined, message: string): GenerationErrorCode => {
+    if (isAbortError(e)) return 'cancelled';
+    if (e instanceof ProviderConfigurationError) return 'configuration';
+    if (message.includes('api key not valid') || message.includes('requested entity was not found') || status === 401 || status === 403) return 'auth';
+    if (status === 429 || message.includes('quota') || message.includes('resource_exhausted')) return 'quota';
+    if (message.includes('safety') || message.includes('blocked')) return 'safety';
+    if ((status && status >= 500) || message.includes('unavailable') || message.includes('overloaded')) return 'unavailable';
+    if (e instanceof TypeError || message.includes('network') || message.includes('failed to fetch')) return 'network';
+    if (status === 400 || message.includes('invalid argument')) return 'invalid_request';
+    return 'unknown';
+};
+
+// Turns anything thrown by a provider into a GenerationError for the given operation
+export const toGenerationError = (e: any, operation: GenerationOperation): GenerationError => {
+    if (e instanceof GenerationError) return e;
+    const providerMessage = e?.message || JSON.stringify(e) || '';
+    const status = typeof e?.status === 'number' ? e.status : undefined;
+    const code = classify(e, status, providerMessage.toLowerCase());
+    if (code !== 'cancelled') {
+        console.error(`Generation error (${operation}):`, e);
+    }
+    return new GenerationError(code, operation, providerMessage, e);
+};
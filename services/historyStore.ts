@@ -0,0 +1,252 @@
+import type { HistoryEntry, HistorySession, SessionWorkspace } from '../types';
+import { LocalizedError } from '../i18n';
+
+const DB_NAME = 'nano-banana-studio';
+const DB_VERSION = 2;
+const SESSIONS_STORE = 'sessions';
+const ENTRIES_STORE = 'entries';
+const WORKSPACES_STORE = 'workspaces';
+const LAST_SESSION_KEY = 'nano-banana-studio:last-session';
+
+interface StoredEntry {
+    id: string;
+    sessionId: string;
+    position: number;
+    entry: HistoryEntry;
+    // Blob URLs do not survive a reload, so the video payload itself is stored
+    videoBlob?: Blob;
+}
+
+interface StoredWorkspace {
+    sessionId: string;
+    workspace: SessionWorkspace;
+    shotVideos: Record<string, Blob>; // Video of each generated storyboard shot, by shot id
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// History entries are replaced, never mutated, when they change. Remembering the
+// position each entry object was stored at tells which ones still need writing.
+const persistedPositions = new WeakMap<HistoryEntry, number>();
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new LocalizedError('error.history.unavailable'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+                    db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+                    const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+                    entries.createIndex('sessionId', 'sessionId');
+                }
+                if (!db.objectStoreNames.contains(WORKSPACES_STORE)) {
+                    db.createObjectStore(WORKSPACES_STORE, { keyPath: 'sessionId' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+const getLastSessionId = (): string | null => {
+    try {
+        return localStorage.getItem(LAST_SESSION_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const setLastSessionId = (id: string) => {
+    try {
+        localStorage.setItem(LAST_SESSION_KEY, id);
+    } catch {
+        // Private browsing may block localStorage; the app falls back to the newest session.
+    }
+};
+
+export const listSessions = async (): Promise<HistorySession[]> => {
+    const db = await openDatabase();
+    const sessions = await requestToPromise<HistorySession[]>(
+        db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).getAll()
+    );
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/** A session that only lives in memory, for when the database cannot be opened. */
+export const createUnsavedSession = (name: string): HistorySession => {
+    const now = Date.now();
+    return { id: `session-${now}`, name, createdAt: now, updatedAt: now };
+};
+
+export const createSession = async (name: string): Promise<HistorySession> => {
+    const session = createUnsavedSession(name);
+    const db = await openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    tx.objectStore(SESSIONS_STORE).put(session);
+    await transactionDone(tx);
+    return session;
+};
+
+export const renameSession = async (session: HistorySession, name: string): Promise<HistorySession> => {
+    const renamed: HistorySession = { ...session, name, updatedAt: Date.now() };
+    const db = await openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readwrite');
+    tx.objectStore(SESSIONS_STORE).put(renamed);
+    await transactionDone(tx);
+    return renamed;
+};
+
+export const deleteSession = async (sessionId: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, ENTRIES_STORE, WORKSPACES_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(sessionId);
+    tx.objectStore(WORKSPACES_STORE).delete(sessionId);
+    const entries = tx.objectStore(ENTRIES_STORE);
+    const keys = await requestToPromise(entries.index('sessionId').getAllKeys(sessionId));
+    keys.forEach(key => entries.delete(key));
+    await transactionDone(tx);
+};
+
+export const loadSessionEntries = async (sessionId: string): Promise<HistoryEntry[]> => {
+    const db = await openDatabase();
+    const records = await requestToPromise<StoredEntry[]>(
+        db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).index('sessionId').getAll(sessionId)
+    );
+    return records
+        .sort((a, b) => a.position - b.position)
+        .map(({ entry, videoBlob }, position) => {
+            const restored = entry.mode === 'video' && videoBlob ? { ...entry, videoUrl: URL.createObjectURL(videoBlob) } : entry;
+            persistedPositions.set(restored, position);
+            return restored;
+        });
+};
+
+const writeSessionEntries = async (sessionId: string, history: HistoryEntry[]): Promise<void> => {
+    const db = await openDatabase();
+    const existingKeys = new Set(await requestToPromise(
+        db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).index('sessionId').getAllKeys(sessionId)
+    ));
+
+    const newRecords: StoredEntry[] = [];
+    for (const [position, entry] of history.entries()) {
+        if (existingKeys.has(entry.id) && persistedPositions.get(entry) === position) continue;
+        const record: StoredEntry = { id: entry.id, sessionId, position, entry };
+        if (entry.mode === 'video') {
+            // Resolve the blob before opening the write transaction, which would auto-commit across awaits
+            record.videoBlob = await fetch(entry.videoUrl).then(res => res.blob());
+        }
+        newRecords.push(record);
+    }
+
+    const currentIds = new Set(history.map(entry => entry.id));
+    const staleKeys = [...existingKeys].filter(key => !currentIds.has(key as string));
+    if (newRecords.length === 0 && staleKeys.length === 0) return;
+
+    const tx = db.transaction([SESSIONS_STORE, ENTRIES_STORE], 'readwrite');
+    const entries = tx.objectStore(ENTRIES_STORE);
+    newRecords.forEach(record => entries.put(record));
+    staleKeys.forEach(key => entries.delete(key));
+
+    const sessions = tx.objectStore(SESSIONS_STORE);
+    const session = await requestToPromise<HistorySession | undefined>(sessions.get(sessionId));
+    if (session) sessions.put({ ...session, updatedAt: Date.now() });
+    await transactionDone(tx);
+    newRecords.forEach(record => persistedPositions.set(record.entry, record.position));
+};
+
+// Each sync reads the stored keys and writes in separate transactions, with video
+// downloads in between, so an older sync finishing late could bring back entries a
+// newer one deleted. Syncs therefore run one after the other.
+let pendingSync: Promise<void> = Promise.resolve();
+
+/**
+ * Mirrors the in-memory history of a session into IndexedDB.
+ * Only new, changed or moved entries are written, and entries that are no
+ * longer part of the history are deleted.
+ */
+export const syncSessionEntries = (sessionId: string, history: HistoryEntry[]): Promise<void> => {
+    const sync = pendingSync.then(() => writeSessionEntries(sessionId, history));
+    pendingSync = sync.catch(() => undefined);
+    return sync;
+};
+
+// Storyboard clips are blob URLs too; each one is read once and reused by the following saves
+const shotVideoBlobs = new Map<string, Blob>();
+
+/** The comic project and storyboard saved with a session, or null when it has none yet. */
+export const loadSessionWorkspace = async (sessionId: string): Promise<SessionWorkspace | null> => {
+    const db = await openDatabase();
+    const record = await requestToPromise<StoredWorkspace | undefined>(
+        db.transaction(WORKSPACES_STORE).objectStore(WORKSPACES_STORE).get(sessionId)
+    );
+    if (!record) return null;
+    const storyboardShots = record.workspace.storyboardShots.map(shot => {
+        const videoBlob = record.shotVideos[shot.id];
+        if (!shot.videoUrl || !videoBlob) return { ...shot, videoUrl: null };
+        const videoUrl = URL.createObjectURL(videoBlob);
+        shotVideoBlobs.set(videoUrl, videoBlob);
+        return { ...shot, videoUrl };
+    });
+    return { ...record.workspace, storyboardShots };
+};
+
+export const saveSessionWorkspace = async (sessionId: string, workspace: SessionWorkspace): Promise<void> => {
+    const shotVideos: Record<string, Blob> = {};
+    // Resolve the blobs before opening the write transaction, which would auto-commit across awaits
+    for (const shot of workspace.storyboardShots) {
+        if (!shot.videoUrl) continue;
+        let videoBlob = shotVideoBlobs.get(shot.videoUrl);
+        if (!videoBlob) {
+            videoBlob = await fetch(shot.videoUrl).then(res => res.blob());
+            shotVideoBlobs.set(shot.videoUrl, videoBlob);
+        }
+        shotVideos[shot.id] = videoBlob;
+    }
+    const record: StoredWorkspace = { sessionId, workspace, shotVideos };
+    const db = await openDatabase();
+    const tx = db.transaction(WORKSPACES_STORE, 'readwrite');
+    tx.objectStore(WORKSPACES_STORE).put(record);
+    await transactionDone(tx);
+};
+
+/**
+ * Loads every saved session with the entries and workspace of the one used
+ * last, creating a first session named `defaultName` when the database is empty.
+ */
+export const restoreLastSession = async (defaultName: string): Promise<{ sessions: HistorySession[]; session: HistorySession; entries: HistoryEntry[]; workspace: SessionWorkspace | null }> => {
+    let sessions = await listSessions();
+    if (sessions.length === 0) {
+        sessions = [await createSession(defaultName)];
+    }
+    const lastId = getLastSessionId();
+    const session = sessions.find(s => s.id === lastId) ?? sessions[0];
+    const [entries, workspace] = await Promise.all([loadSessionEntries(session.id), loadSessionWorkspace(session.id)]);
+    return { sessions, session, entries, workspace };
+};
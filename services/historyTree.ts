@@ -0,0 +1,95 @@
+import type { HistoryEntry, SettingChange } from '../types';
+
+export interface HistoryTreeNode {
+    entry: HistoryEntry;
+    index: number; // Position in the flat history, which stays the order results arrived in
+    children: HistoryTreeNode[];
+}
+
+// Fields that identify, link or display a result rather than describe how it was generated
+const IGNORED_FIELDS = new Set([
+    'id', 'parentId', 'settingsDiff', 'imageUrl', 'videoUrl', 'batchId', 'isFavorite', 'variationOfId', 'restoredFromId',
+    'startFramePreviewUrl', 'endFramePreviewUrl', 'backgroundPreviewUrl', 'activeReferenceId',
+]);
+
+// Display text of a setting, or null for values that are not compared (uploaded images and masks)
+const describeValue = (value: unknown): string | null => {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return String(value);
+    // Image lists are compared by how many images they hold
+    if (Array.isArray(value)) return String(value.length);
+    return null;
+};
+
+/** The settings of `entry` that differ from those of `parent`, including the prompt and the mode. */
+export const diffSettings = (parent: HistoryEntry | null, entry: HistoryEntry): SettingChange[] => {
+    if (!parent) return [];
+    const keys = new Set([...Object.keys(parent), ...Object.keys(entry)]);
+    const changes: SettingChange[] = [];
+    keys.forEach(key => {
+        if (IGNORED_FIELDS.has(key)) return;
+        const from = describeValue(parent[key as keyof HistoryEntry]);
+        const to = describeValue(entry[key as keyof HistoryEntry]);
+        if (from !== null && to !== null && from !== to) changes.push({ key, from, to });
+    });
+    return changes;
+};
+
+export const linkToParent = <T extends HistoryEntry>(entry: T, parent: HistoryEntry | null): T => ({
+    ...entry,
+    parentId: parent?.id ?? null,
+    settingsDiff: diffSettings(parent, entry),
+});
+
+/**
+ * Arranges the flat history as a forest. Entries saved before history was a
+ * tree have no parent id: they continue the entry before them, as the linear
+ * history did. An entry whose parent is gone starts a tree of its own.
+ */
+export const buildHistoryTree = (history: HistoryEntry[]): HistoryTreeNode[] => {
+    const nodes = history.map((entry, index): HistoryTreeNode => ({ entry, index, children: [] }));
+    const byId = new Map(nodes.map(node => [node.entry.id, node]));
+    const roots: HistoryTreeNode[] = [];
+    nodes.forEach((node, index) => {
+        const { parentId } = node.entry;
+        const parent = parentId === undefined ? nodes[index - 1] : parentId === null ? undefined : byId.get(parentId);
+        if (parent) parent.children.push(node); else roots.push(node);
+    });
+    return roots;
+};
+
+/**
+ * Keeps only the nodes `isShown` accepts. The shown descendants of a hidden
+ * node take its place under its closest shown ancestor, so a branch that went
+ * through another mode still reads as one branch.
+ */
+export const filterHistoryTree = (nodes: HistoryTreeNode[], isShown: (entry: HistoryEntry) => boolean): HistoryTreeNode[] =>
+    nodes.flatMap(node => {
+        const children = filterHistoryTree(node.children, isShown);
+        return isShown(node.entry) ? [{ ...node, children }] : children;
+    });
+
+// The closest ancestor of `entry` that survives removing the entries `isRemoved` accepts
+export const findKeptAncestor = (history: HistoryEntry[], entry: HistoryEntry, isRemoved: (entry: HistoryEntry) => boolean): HistoryEntry | null => {
+    const byId = new Map(history.map(other => [other.id, other]));
+    let ancestor = entry.parentId ? byId.get(entry.parentId) : undefined;
+    while (ancestor && isRemoved(ancestor)) {
+        ancestor = ancestor.parentId ? byId.get(ancestor.parentId) : undefined;
+    }
+    return ancestor ?? null;
+};
+
+/**
+ * Removes entries without orphaning their descendants: children of a removed
+ * entry are attached to its closest remaining ancestor, with their settings
+ * diff recomputed against it.
+ */
+export const removeHistoryEntries = (history: HistoryEntry[], isRemoved: (entry: HistoryEntry) => boolean): HistoryEntry[] => {
+    const byId = new Map(history.map(entry => [entry.id, entry]));
+    return history
+        .filter(entry => !isRemoved(entry))
+        .map(entry => {
+            const parent = entry.parentId ? byId.get(entry.parentId) : undefined;
+            return parent && isRemoved(parent) ? linkToParent(entry, findKeptAncestor(history, entry, isRemoved)) : entry;
+        });
+};
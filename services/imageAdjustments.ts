@@ -0,0 +1,127 @@
+import type { ImageAdjustments } from '../types';
+import { createCanvas, loadImage, parseAspectRatio } from './imageProcessing';
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = {
+    cropAspectRatio: 'original',
+    quarterTurns: 0,
+    straighten: 0,
+    flipX: false,
+    flipY: false,
+    exposure: 0,
+    contrast: 0,
+    saturation: 0,
+    temperature: 0,
+    sharpen: 0,
+    vignette: 0,
+};
+
+export const hasAdjustments = (adjustments: ImageAdjustments) =>
+    (Object.keys(DEFAULT_ADJUSTMENTS) as (keyof ImageAdjustments)[]).some(key => adjustments[key] !== DEFAULT_ADJUSTMENTS[key]);
+
+/**
+ * Output size for an image of the given size: the largest rectangle of the crop
+ * ratio (the turned image's own ratio by default) that fits inside the turned
+ * and straightened image, so no empty corner is left.
+ */
+export const getAdjustedSize = (width: number, height: number, adjustments: ImageAdjustments) => {
+    const isTurned = adjustments.quarterTurns % 2 === 1;
+    const turnedWidth = isTurned ? height : width;
+    const turnedHeight = isTurned ? width : height;
+    const ratio = parseAspectRatio(adjustments.cropAspectRatio) ?? turnedWidth / turnedHeight;
+    const angle = Math.abs(adjustments.straighten) * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const outputHeight = Math.min(turnedWidth / (ratio * cos + sin), turnedHeight / (ratio * sin + cos));
+    return { width: Math.max(1, Math.floor(outputHeight * ratio)), height: Math.max(1, Math.floor(outputHeight)) };
+};
+
+// Exposure, contrast, saturation and temperature, pixel by pixel
+const adjustTone = (data: Uint8ClampedArray, adjustments: ImageAdjustments) => {
+    const exposure = 2 ** (adjustments.exposure / 50); // ±2 stops
+    const contrast = 1 + adjustments.contrast / 100;
+    const saturation = 1 + adjustments.saturation / 100;
+    const warmth = adjustments.temperature * 0.3;
+    for (let i = 0; i < data.length; i += 4) {
+        let r = (data[i] * exposure - 128) * contrast + 128;
+        let g = (data[i + 1] * exposure - 128) * contrast + 128;
+        let b = (data[i + 2] * exposure - 128) * contrast + 128;
+        const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+        r = luma + (r - luma) * saturation;
+        g = luma + (g - luma) * saturation;
+        b = luma + (b - luma) * saturation;
+        // The array clamps every value to 0-255
+        data[i] = r + warmth;
+        data[i + 1] = g;
+        data[i + 2] = b - warmth;
+    }
+};
+
+// Unsharp mask with a 3x3 Laplacian kernel; the one-pixel border is left as it is
+export const sharpenPixels = (data: Uint8ClampedArray, width: number, height: number, amount: number) => {
+    const source = data.slice();
+    const row = width * 4;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * row + x * 4;
+            for (let c = 0; c < 3; c++) {
+                const center = source[i + c];
+                const edges = source[i + c - 4] + source[i + c + 4] + source[i + c - row] + source[i + c + row];
+                data[i + c] = center + amount * (4 * center - edges);
+            }
+        }
+    }
+};
+
+// Darkens towards the corners, by up to 80% at full strength
+const applyVignette = (data: Uint8ClampedArray, width: number, height: number, strength: number) => {
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const maxDistanceSquared = centerX * centerX + centerY * centerY;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const dx = x + 0.5 - centerX;
+            const dy = y + 0.5 - centerY;
+            const factor = 1 - strength * 0.8 * (dx * dx + dy * dy) / maxDistanceSquared;
+            const i = (y * width + x) * 4;
+            data[i] *= factor;
+            data[i + 1] *= factor;
+            data[i + 2] *= factor;
+        }
+    }
+};
+
+/**
+ * Renders an image with the adjustments applied, as a PNG data URL. Geometry
+ * comes first (turn, flip, straighten, crop), then tone, sharpening and the
+ * vignette. `maxSize` scales the image down first, for quick previews.
+ */
+export const applyAdjustments = async (imageUrl: string, adjustments: ImageAdjustments, maxSize = Infinity): Promise<string> => {
+    const img = await loadImage(imageUrl);
+    const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+    const sourceWidth = img.naturalWidth * scale;
+    const sourceHeight = img.naturalHeight * scale;
+    const { width, height } = getAdjustedSize(sourceWidth, sourceHeight, adjustments);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    // Flips mirror the image as it is seen after turning, and straightening rotates that view
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(adjustments.straighten * Math.PI / 180);
+    ctx.scale(adjustments.flipX ? -1 : 1, adjustments.flipY ? -1 : 1);
+    ctx.rotate(adjustments.quarterTurns * Math.PI / 2);
+    ctx.drawImage(img, -sourceWidth / 2, -sourceHeight / 2, sourceWidth, sourceHeight);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    const pixels = ctx.getImageData(0, 0, width, height);
+    if (adjustments.exposure || adjustments.contrast || adjustments.saturation || adjustments.temperature) {
+        adjustTone(pixels.data, adjustments);
+    }
+    if (adjustments.sharpen > 0) {
+        sharpenPixels(pixels.data, width, height, adjustments.sharpen / 100);
+    }
+    if (adjustments.vignette > 0) {
+        applyVignette(pixels.data, width, height, adjustments.vignette / 100);
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return canvas.toDataURL('image/png');
+};
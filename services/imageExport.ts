@@ -0,0 +1,346 @@
+import type { AIModel, CreateFunction, CreateHistoryEntry, EditFunction, EditHistoryEntry } from '../types';
+import type { MessageKey } from '../i18n';
+import { LocalizedError } from '../i18n';
+import { loadImage, createCanvas } from './imageProcessing';
+import { IMAGE_ASPECT_RATIOS } from './geminiService';
+import { crc32 } from './crc32';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export interface ExportOptions {
+    format: ExportFormat;
+    quality: number; // 1..100, ignored for PNG
+    scale: number; // Percent of the original size
+    background: string | null; // Fill colour for transparent pixels, null keeps them transparent
+    embedMetadata: boolean;
+}
+
+export const EXPORT_FORMATS: { id: ExportFormat; labelKey: MessageKey; mimeType: string; extension: string; hasAlpha: boolean }[] = [
+    { id: 'png', labelKey: 'exportFormat.png', mimeType: 'image/png', extension: 'png', hasAlpha: true },
+    { id: 'jpeg', labelKey: 'exportFormat.jpeg', mimeType: 'image/jpeg', extension: 'jpg', hasAlpha: false },
+    { id: 'webp', labelKey: 'exportFormat.webp', mimeType: 'image/webp', extension: 'webp', hasAlpha: true },
+    { id: 'avif', labelKey: 'exportFormat.avif', mimeType: 'image/avif', extension: 'avif', hasAlpha: true },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = { format: 'png', quality: 90, scale: 100, background: null, embedMetadata: true };
+
+// JPEG has no alpha channel; without a colour the browser would fill transparency with black
+export const DEFAULT_EXPORT_BACKGROUND = '#ffffff';
+
+/**
+ * Generation parameters written into exported files, so a downloaded image can
+ * be dropped back into the app to restore its settings.
+ */
+export interface ImageMetadata {
+    id: string;
+    mode: 'create' | 'edit';
+    prompt: string;
+    negativePrompt: string;
+    model?: AIModel;
+    createFunction?: CreateFunction;
+    styleModifier?: string;
+    cameraAngle?: string;
+    lightingStyle?: string;
+    comicColorPalette?: 'vibrant' | 'noir';
+    aspectRatio?: string;
+    resolution?: '1K' | '2K' | '4K';
+    editFunction?: EditFunction;
+}
+
+// Keyword of the PNG text chunk and name of the XMP property holding the parameters
+const METADATA_KEY = 'nano-banana-studio';
+const XMP_NAMESPACE = 'urn:nano-banana-studio:xmp:1.0';
+const SOFTWARE = 'Nano Banana Studio';
+const OPTIONS_KEY = 'nano-banana-studio:export-options';
+
+const encoder = new TextEncoder();
+
+export const metadataFromEntry = (entry: CreateHistoryEntry | EditHistoryEntry): ImageMetadata => {
+    if (entry.mode === 'edit') {
+        return { id: entry.id, mode: 'edit', prompt: entry.prompt, negativePrompt: entry.negativePrompt, editFunction: entry.editFunction };
+    }
+    const { id, prompt, negativePrompt, model, createFunction, styleModifier, cameraAngle, lightingStyle, comicColorPalette, aspectRatio, resolution } = entry;
+    return { id, mode: 'create', prompt, negativePrompt, model, createFunction, styleModifier, cameraAngle, lightingStyle, comicColorPalette, aspectRatio, resolution };
+};
+
+export const loadExportOptions = (): ExportOptions => {
+    try {
+        return { ...DEFAULT_EXPORT_OPTIONS, ...JSON.parse(localStorage.getItem(OPTIONS_KEY) || 'null') };
+    } catch {
+        return DEFAULT_EXPORT_OPTIONS;
+    }
+};
+
+export const saveExportOptions = (options: ExportOptions) => {
+    try {
+        localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+    } catch {
+        // The options still apply for this page load
+    }
+};
+
+const supportCache = new Map<ExportFormat, boolean>();
+
+// Browsers fall back to PNG for types they cannot encode (AVIF is the usual gap)
+export const isExportFormatSupported = (format: ExportFormat): boolean => {
+    if (!supportCache.has(format)) {
+        const { mimeType } = EXPORT_FORMATS.find(f => f.id === format)!;
+        const { canvas } = createCanvas(1, 1);
+        supportCache.set(format, canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`));
+    }
+    return supportCache.get(format)!;
+};
+
+// Only PNG, JPEG and WebP have a metadata slot that can be added without re-muxing the file
+export const canEmbedMetadata = (format: ExportFormat) => format !== 'avif';
+
+export const getExportSize = (width: number, height: number, scale: number) => ({
+    width: Math.max(1, Math.round(width * scale / 100)),
+    height: Math.max(1, Math.round(height * scale / 100)),
+});
+
+// JSON with every non-ASCII character escaped, so it also fits in Latin-1 PNG text chunks
+const serializeMetadata = (metadata: ImageMetadata) =>
+    JSON.stringify({ app: METADATA_KEY, version: 1, ...metadata }).replace(/[\u007f-\uffff]/g, c => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+const toLatin1 = (text: string) => Uint8Array.from(text, c => (c.charCodeAt(0) <= 0xff ? c.charCodeAt(0) : 0x3f));
+
+// One character per byte. TextDecoder('latin1') is windows-1252 in browsers, which remaps 0x80-0x9f
+const fromLatin1 = (bytes: Uint8Array) => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const buildXmpPacket = (metadata: ImageMetadata) => `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:nbs="${XMP_NAMESPACE}">
+<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(metadata.prompt)}</rdf:li></rdf:Alt></dc:description>
+<xmp:CreatorTool>${SOFTWARE}</xmp:CreatorTool>
+<nbs:parameters>${escapeXml(serializeMetadata(metadata))}</nbs:parameters>
+</rdf:Description>
+</rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="r"?>`;
+
+const concatBytes = (parts: Uint8Array[]) => {
+    const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        output.set(part, offset);
+        offset += part.length;
+    }
+    return output;
+};
+
+const pngTextChunk = (keyword: string, text: string) => {
+    const data = concatBytes([toLatin1(keyword), new Uint8Array([0]), toLatin1(text)]);
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(encoder.encode('tEXt'), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+// tEXt chunks go right after IHDR, which always comes first and is 13 bytes long
+const embedPngText = (png: Uint8Array, metadata: ImageMetadata) => {
+    const ihdrEnd = 8 + 12 + 13;
+    return concatBytes([
+        png.subarray(0, ihdrEnd),
+        pngTextChunk('Software', SOFTWARE),
+        pngTextChunk('Description', metadata.prompt),
+        pngTextChunk(METADATA_KEY, serializeMetadata(metadata)),
+        png.subarray(ihdrEnd),
+    ]);
+};
+
+// XMP goes in an APP1 segment, after the JFIF APP0 segment that must stay first
+const embedJpegXmp = (jpeg: Uint8Array, xmp: string) => {
+    const payload = concatBytes([encoder.encode('http://ns.adobe.com/xap/1.0/\0'), encoder.encode(xmp)]);
+    if (payload.length + 2 > 0xffff) return jpeg;
+    const segment = new Uint8Array(4 + payload.length);
+    new DataView(segment.buffer).setUint16(0, 0xffe1);
+    new DataView(segment.buffer).setUint16(2, payload.length + 2);
+    segment.set(payload, 4);
+    const view = new DataView(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength);
+    const insertAt = view.getUint16(2) === 0xffe0 ? 4 + view.getUint16(4) : 2;
+    return concatBytes([jpeg.subarray(0, insertAt), segment, jpeg.subarray(insertAt)]);
+};
+
+const riffChunk = (fourcc: string, data: Uint8Array) => {
+    const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+    chunk.set(encoder.encode(fourcc), 0);
+    new DataView(chunk.buffer).setUint32(4, data.length, true);
+    chunk.set(data, 8);
+    return chunk;
+};
+
+/**
+ * Adds an XMP chunk to a WebP file. Simple files (a lone VP8 or VP8L chunk)
+ * are first converted to the extended format, whose VP8X header flags the XMP.
+ */
+const embedWebpXmp = (webp: Uint8Array, xmp: string, width: number, height: number) => {
+    const view = new DataView(webp.buffer, webp.byteOffset, webp.byteLength);
+    const firstChunk = new TextDecoder().decode(webp.subarray(12, 16));
+    let body: Uint8Array;
+    if (firstChunk === 'VP8X') {
+        body = webp.slice(12);
+        body[8] |= 0x04;
+    } else {
+        // The VP8L header carries an "alpha is used" bit; lossy VP8 without VP8X has no alpha
+        const hasAlpha = firstChunk === 'VP8L' && (view.getUint32(21, true) & 0x10000000) !== 0;
+        const uint24 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff];
+        // Flags, three reserved bytes, then the canvas width and height minus one as 24-bit values
+        const header = new Uint8Array([0x04 | (hasAlpha ? 0x10 : 0), 0, 0, 0, ...uint24(width - 1), ...uint24(height - 1)]);
+        body = concatBytes([riffChunk('VP8X', header), webp.subarray(12)]);
+    }
+    const output = concatBytes([webp.subarray(0, 12), body, riffChunk('XMP ', encoder.encode(xmp))]);
+    new DataView(output.buffer).setUint32(4, output.length - 8, true);
+    return output;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob | null> =>
+    new Promise(resolve => canvas.toBlob(resolve, mimeType, quality));
+
+/**
+ * Re-encodes an image for download: resizes it, fills transparent pixels when
+ * asked (always for JPEG), converts it to the chosen format and embeds the
+ * generation parameters when the format allows it.
+ */
+export const exportImage = async (imageUrl: string, options: ExportOptions, metadata: ImageMetadata | null): Promise<Blob> => {
+    const format = EXPORT_FORMATS.find(f => f.id === options.format)!;
+    const img = await loadImage(imageUrl);
+    const { width, height } = getExportSize(img.naturalWidth, img.naturalHeight, options.scale);
+    const { canvas, ctx } = createCanvas(width, height);
+    const background = options.background ?? (format.hasAlpha ? null : DEFAULT_EXPORT_BACKGROUND);
+    if (background) {
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, width, height);
+
+    const blob = await canvasToBlob(canvas, format.mimeType, options.quality / 100);
+    if (!blob || blob.type !== format.mimeType) {
+        throw new LocalizedError('error.export.unsupported', { format: format.extension.toUpperCase() });
+    }
+    if (!metadata || !options.embedMetadata || !canEmbedMetadata(format.id)) return blob;
+
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let output: Uint8Array;
+    if (format.id === 'png') output = embedPngText(bytes, metadata);
+    else if (format.id === 'jpeg') output = embedJpegXmp(bytes, buildXmpPacket(metadata));
+    else output = embedWebpXmp(bytes, buildXmpPacket(metadata), width, height);
+    return new Blob([output], { type: format.mimeType });
+};
+
+const MODES = ['create', 'edit'] as const;
+const MODELS: AIModel[] = ['flash', 'pro'];
+const CREATE_FUNCTIONS: CreateFunction[] = ['free', 'sticker', 'text', 'comic'];
+const EDIT_FUNCTIONS: EditFunction[] = ['montage', 'inpaint', 'adjust', 'extend'];
+const RESOLUTIONS = ['1K', '2K', '4K'] as const;
+const PALETTES = ['vibrant', 'noir'] as const;
+// The values offered by the Create panel's selects; anything else could not be shown or sent
+const STYLE_MODIFIERS: Record<CreateFunction, string[]> = {
+    free: ['default'],
+    sticker: ['cartoon', 'vintage', 'holographic', 'embroidered patch'],
+    text: ['minimalist', 'corporate', 'playful', 'geometric'],
+    comic: ['American comic book', 'Japanese manga', 'franco-belgian comics (bande dessinée)'],
+};
+const CAMERA_ANGLES = ['default', 'eye-level', 'close-up', 'low angle', 'high angle (bird\'s-eye view)', 'wide shot (long shot)'];
+const LIGHTING_STYLES = ['default', 'cinematic', 'soft', 'dramatic', 'studio', 'natural'];
+
+// Files come from anywhere, so only known fields with valid values are kept
+const parseMetadata = (json: string): ImageMetadata | null => {
+    let raw: any;
+    try {
+        raw = JSON.parse(json);
+    } catch {
+        return null;
+    }
+    if (raw?.app !== METADATA_KEY || !MODES.includes(raw.mode) || typeof raw.prompt !== 'string') return null;
+    const oneOf = <T,>(values: readonly T[], value: unknown) => (values.includes(value as T) ? value as T : undefined);
+    const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+    const createFunction = oneOf(CREATE_FUNCTIONS, raw.createFunction);
+    const metadata: ImageMetadata = {
+        id: text(raw.id) ?? '',
+        mode: raw.mode,
+        prompt: raw.prompt,
+        negativePrompt: text(raw.negativePrompt) ?? '',
+        model: oneOf(MODELS, raw.model),
+        createFunction,
+        styleModifier: oneOf(STYLE_MODIFIERS[createFunction ?? 'free'], raw.styleModifier),
+        cameraAngle: oneOf(CAMERA_ANGLES, raw.cameraAngle),
+        lightingStyle: oneOf(LIGHTING_STYLES, raw.lightingStyle),
+        comicColorPalette: oneOf(PALETTES, raw.comicColorPalette),
+        aspectRatio: oneOf(IMAGE_ASPECT_RATIOS, raw.aspectRatio),
+        resolution: oneOf(RESOLUTIONS, raw.resolution),
+        editFunction: oneOf(EDIT_FUNCTIONS, raw.editFunction),
+    };
+    for (const key of Object.keys(metadata) as (keyof ImageMetadata)[]) {
+        if (metadata[key] === undefined) delete metadata[key];
+    }
+    return metadata;
+};
+
+const unescapeXml = (text: string) =>
+    text.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+
+const parseXmp = (xmp: string) => {
+    const match = xmp.match(/<nbs:parameters>([\s\S]*?)<\/nbs:parameters>/);
+    return match ? parseMetadata(unescapeXml(match[1])) : null;
+};
+
+const readPngText = (bytes: Uint8Array, view: DataView) => {
+    for (let offset = 8; offset + 12 <= bytes.length;) {
+        const length = view.getUint32(offset);
+        const type = fromLatin1(bytes.subarray(offset + 4, offset + 8));
+        if (type === 'IDAT' || type === 'IEND') break;
+        if (type === 'tEXt') {
+            const data = fromLatin1(bytes.subarray(offset + 8, offset + 8 + length));
+            const separator = data.indexOf('\0');
+            if (data.slice(0, separator) === METADATA_KEY) return parseMetadata(data.slice(separator + 1));
+        }
+        offset += 12 + length;
+    }
+    return null;
+};
+
+const readJpegXmp = (bytes: Uint8Array, view: DataView) => {
+    const xmpHeader = 'http://ns.adobe.com/xap/1.0/\0';
+    // Metadata segments all come before the start of scan (0xFFDA)
+    for (let offset = 2; offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] !== 0xda;) {
+        const length = view.getUint16(offset + 2);
+        if (bytes[offset + 1] === 0xe1) {
+            const payload = new TextDecoder().decode(bytes.subarray(offset + 4, offset + 2 + length));
+            if (payload.startsWith(xmpHeader)) return parseXmp(payload.slice(xmpHeader.length));
+        }
+        offset += 2 + length;
+    }
+    return null;
+};
+
+const readWebpXmp = (bytes: Uint8Array, view: DataView) => {
+    const decoder = new TextDecoder();
+    for (let offset = 12; offset + 8 <= bytes.length;) {
+        const length = view.getUint32(offset + 4, true);
+        if (decoder.decode(bytes.subarray(offset, offset + 4)) === 'XMP ') {
+            return parseXmp(decoder.decode(bytes.subarray(offset + 8, offset + 8 + length)));
+        }
+        offset += 8 + length + (length % 2);
+    }
+    return null;
+};
+
+/** Reads the generation settings embedded by `exportImage`, or null when the file has none. */
+export const readImageMetadata = async (file: Blob): Promise<ImageMetadata | null> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const signature = fromLatin1(bytes.subarray(0, 12));
+    if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return readPngText(bytes, view);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpegXmp(bytes, view);
+    if (signature.startsWith('RIFF') && signature.endsWith('WEBP')) return readWebpXmp(bytes, view);
+    return null;
+};
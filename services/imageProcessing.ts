@@ -0,0 +1,149 @@
+import type { UploadedImage } from '../types';
+import { LocalizedError } from '../i18n';
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new LocalizedError('error.image.load'));
+        img.src = src;
+    });
+};
+
+export const dataUrlToUploadedImage = (dataUrl: string): UploadedImage => {
+    const [header, base64] = dataUrl.split(',');
+    const mimeType = header.match(/^data:([^;]+);/)?.[1] || 'image/png';
+    return { base64, mimeType };
+};
+
+export const fileToDataUrl = (file: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(new LocalizedError('error.image.load'));
+        reader.readAsDataURL(file);
+    });
+
+export const uploadedImageToDataUrl = (image: UploadedImage): string => `data:${image.mimeType};base64,${image.base64}`;
+
+// Width over height of a ratio such as '16:9', or null when it is not one
+export const parseAspectRatio = (ratio: string): number | null => {
+    const [width, height] = ratio.split(':').map(Number);
+    return width > 0 && height > 0 ? width / height : null;
+};
+
+export const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+    return { canvas, ctx };
+};
+
+/**
+ * Converts a painted mask (any opaque pixel = selected) into the black and white
+ * PNG mask sent to the model: white marks the area to change.
+ * Returns null when nothing is painted.
+ */
+export const paintedMaskToUploadedImage = (maskCanvas: HTMLCanvasElement): UploadedImage | null => {
+    const { canvas, ctx } = createCanvas(maskCanvas.width, maskCanvas.height);
+    const source = maskCanvas.getContext('2d')!.getImageData(0, 0, maskCanvas.width, maskCanvas.height);
+    const output = ctx.createImageData(canvas.width, canvas.height);
+    let isEmpty = true;
+    for (let i = 0; i < source.data.length; i += 4) {
+        const value = source.data[i + 3] > 0 ? 255 : 0;
+        if (value) isEmpty = false;
+        output.data[i] = value;
+        output.data[i + 1] = value;
+        output.data[i + 2] = value;
+        output.data[i + 3] = 255;
+    }
+    if (isEmpty) return null;
+    ctx.putImageData(output, 0, 0);
+    return dataUrlToUploadedImage(canvas.toDataURL('image/png'));
+};
+
+/**
+ * Paints a black and white mask back onto a mask canvas using the given colour,
+ * so a mask stored in history can be edited again.
+ */
+export const drawUploadedMask = async (mask: UploadedImage, maskCanvas: HTMLCanvasElement, color: [number, number, number]) => {
+    const img = await loadImage(uploadedImageToDataUrl(mask));
+    const ctx = maskCanvas.getContext('2d')!;
+    const { canvas: scratch, ctx: scratchCtx } = createCanvas(maskCanvas.width, maskCanvas.height);
+    scratchCtx.drawImage(img, 0, 0, scratch.width, scratch.height);
+    const data = scratchCtx.getImageData(0, 0, scratch.width, scratch.height);
+    for (let i = 0; i < data.data.length; i += 4) {
+        const selected = data.data[i] > 127;
+        data.data[i] = color[0];
+        data.data[i + 1] = color[1];
+        data.data[i + 2] = color[2];
+        data.data[i + 3] = selected ? 255 : 0;
+    }
+    ctx.clearRect(0, 0, maskCanvas.width, maskCanvas.height);
+    ctx.putImageData(data, 0, 0);
+};
+
+/**
+ * Pastes the masked region of a generated image over the original.
+ * Pixels outside the mask are copied untouched from the original, so only the
+ * painted area can change even if the model altered the whole frame.
+ */
+export const compositeMaskedRegion = async (originalUrl: string, generatedUrl: string, mask: UploadedImage): Promise<string> => {
+    const [original, generated, maskImg] = await Promise.all([
+        loadImage(originalUrl),
+        loadImage(generatedUrl),
+        loadImage(uploadedImageToDataUrl(mask)),
+    ]);
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+
+    const { ctx: maskCtx } = createCanvas(width, height);
+    maskCtx.drawImage(maskImg, 0, 0, width, height);
+    const maskData = maskCtx.getImageData(0, 0, width, height).data;
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(original, 0, 0);
+    const output = ctx.getImageData(0, 0, width, height);
+
+    // The model may answer with a different resolution; stretch it back onto the original frame
+    const { ctx: generatedCtx } = createCanvas(width, height);
+    generatedCtx.drawImage(generated, 0, 0, width, height);
+    const generatedData = generatedCtx.getImageData(0, 0, width, height).data;
+
+    for (let i = 0; i < output.data.length; i += 4) {
+        if (maskData[i] > 127) {
+            output.data[i] = generatedData[i];
+            output.data[i + 1] = generatedData[i + 1];
+            output.data[i + 2] = generatedData[i + 2];
+            output.data[i + 3] = generatedData[i + 3];
+        }
+    }
+    ctx.putImageData(output, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/** Reads single pixels of an image at its natural resolution, or null outside of it. */
+export const createPixelSampler = async (url: string) => {
+    const img = await loadImage(url);
+    const { ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    return (x: number, y: number): [number, number, number, number] | null => {
+        if (x < 0 || y < 0 || x >= img.naturalWidth || y >= img.naturalHeight) return null;
+        const [r, g, b, a] = ctx.getImageData(Math.floor(x), Math.floor(y), 1, 1).data;
+        return [r, g, b, a];
+    };
+};
+
+export const toHexColor = (r: number, g: number, b: number) => `#${[r, g, b].map(value => value.toString(16).padStart(2, '0')).join('')}`;
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
@@ -0,0 +1,123 @@
+import type { AIModel, CreateFunction, CreateState, PromptPreset } from '../types';
+import { LocalizedError } from '../i18n';
+import { BATCH_SIZE_OPTIONS, IMAGE_ASPECT_RATIOS } from './geminiService';
+
+const PRESETS_KEY = 'nano-banana-studio:presets';
+const EXPORT_VERSION = 1;
+
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/** Returns the distinct {{variable}} names of a template, in order of appearance. */
+export const extractTemplateVariables = (template: string): string[] => {
+    const names = [...template.matchAll(TEMPLATE_VARIABLE_PATTERN)].map(match => match[1]);
+    return [...new Set(names)];
+};
+
+export const fillPromptTemplate = (template: string, values: Record<string, string>): string => {
+    return template.replace(TEMPLATE_VARIABLE_PATTERN, (_, name: string) => values[name]?.trim() ?? '');
+};
+
+const MODELS: AIModel[] = ['flash', 'pro'];
+const CREATE_FUNCTIONS: CreateFunction[] = ['free', 'sticker', 'text', 'comic'];
+const RESOLUTIONS = ['1K', '2K', '4K'] as const;
+const PALETTES = ['vibrant', 'noir'] as const;
+
+// Presets are applied straight to the Create state, so only known fields with valid values are kept
+const parseCreateState = (raw: any): Partial<CreateState> => {
+    const oneOf = <T,>(values: readonly T[], value: unknown) => (values.includes(value as T) ? value as T : undefined);
+    const text = (value: unknown) => (typeof value === 'string' ? value : undefined);
+    const state: Partial<CreateState> = {
+        model: oneOf(MODELS, raw.model),
+        createFunction: oneOf(CREATE_FUNCTIONS, raw.createFunction),
+        aspectRatio: oneOf(IMAGE_ASPECT_RATIOS, raw.aspectRatio),
+        resolution: oneOf(RESOLUTIONS, raw.resolution),
+        negativePrompt: text(raw.negativePrompt),
+        styleModifier: text(raw.styleModifier),
+        cameraAngle: text(raw.cameraAngle),
+        lightingStyle: text(raw.lightingStyle),
+        comicColorPalette: oneOf(PALETTES, raw.comicColorPalette),
+        // The largest offered batch size that does not exceed the stored one
+        count: typeof raw.count === 'number' ? BATCH_SIZE_OPTIONS.filter(size => size <= raw.count).pop() ?? BATCH_SIZE_OPTIONS[0] : undefined,
+    };
+    for (const key of Object.keys(state) as (keyof CreateState)[]) {
+        if (state[key] === undefined) delete state[key];
+    }
+    return state;
+};
+
+const parsePreset = (value: unknown): PromptPreset | null => {
+    const raw = value as any;
+    if (!raw || typeof raw.id !== 'string' || typeof raw.name !== 'string' || typeof raw.promptTemplate !== 'string') return null;
+    if (typeof raw.createState !== 'object' || raw.createState === null) return null;
+    return {
+        id: raw.id,
+        name: raw.name,
+        promptTemplate: raw.promptTemplate,
+        createState: parseCreateState(raw.createState),
+        createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now(),
+    };
+};
+
+const parsePresets = (values: unknown[]): PromptPreset[] => values.map(parsePreset).filter((preset): preset is PromptPreset => preset !== null);
+
+export const loadPresets = (): PromptPreset[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+        return Array.isArray(stored) ? parsePresets(stored) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const savePresets = (presets: PromptPreset[]) => {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+export const createPreset = (name: string, promptTemplate: string, createState: CreateState): PromptPreset => ({
+    id: `preset-${Date.now()}`,
+    name,
+    promptTemplate,
+    // Reference images belong to the current work, not to the reusable configuration, and would bloat the export
+    createState: { ...createState, referenceImages: [] },
+    createdAt: Date.now(),
+});
+
+export const exportPresets = (presets: PromptPreset[]) => {
+    const blob = new Blob([JSON.stringify({ version: EXPORT_VERSION, presets }, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'nano-banana-presets.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Parses an exported presets file. Accepts both the `{ version, presets }`
+ * envelope and a bare array of presets.
+ */
+export const parsePresetsFile = async (file: File): Promise<PromptPreset[]> => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new LocalizedError('error.presets.invalidJson');
+    }
+    const candidates = Array.isArray(parsed) ? parsed : parsed?.presets;
+    if (!Array.isArray(candidates)) {
+        throw new LocalizedError('error.presets.noList');
+    }
+    const presets = parsePresets(candidates);
+    if (presets.length === 0) {
+        throw new LocalizedError('error.presets.empty');
+    }
+    return presets;
+};
+
+/** Merges imported presets into the library; presets with the same id are replaced. */
+export const mergePresets = (current: PromptPreset[], imported: PromptPreset[]): PromptPreset[] => {
+    const importedIds = new Set(imported.map(p => p.id));
+    return [...current.filter(p => !importedIds.has(p.id)), ...imported];
+};
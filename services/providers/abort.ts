@@ -0,0 +1,27 @@
+export const isAbortError = (e: unknown): boolean =>
+    (e instanceof DOMException || e instanceof Error) && e.name === 'AbortError';
+
+export const createAbortError = () => new DOMException("The operation was cancelled.", 'AbortError');
+
+// setTimeout that rejects as soon as the signal is aborted, so polling loops stop immediately
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
@@ -0,0 +1,140 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { ImageProvider, VideoProvider, ImageGenerationRequest, ImageEditRequest, VideoGenerationRequest } from './types';
+import { ProviderConfigurationError } from './types';
+import { wait, throwIfAborted } from './abort';
+import type { MessageKey } from '../../i18n';
+import { LocalizedError } from '../../i18n';
+
+// The client is created per call so a key selected through the AI Studio UI is picked up immediately
+const getClient = () => {
+    if (!process.env.API_KEY) {
+        throw new ProviderConfigurationError('error.provider.geminiMissingKey');
+    }
+    return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+// Check for API Key selection if running in AI Studio environment (required for paid models)
+const ensureSelectedApiKey = async () => {
+    if (typeof window !== 'undefined' && (window as any).aistudio) {
+        const hasKey = await (window as any).aistudio.hasSelectedApiKey();
+        if (!hasKey) {
+             await (window as any).aistudio.openSelectKey();
+        }
+    }
+};
+
+const extractImage = (response: any, emptyMessage: MessageKey): string => {
+    const parts = response.candidates?.[0]?.content?.parts;
+    if (parts) {
+        for (const part of parts) {
+            if (part.inlineData && (!part.inlineData.mimeType || part.inlineData.mimeType.startsWith('image/'))) {
+                const mimeType = part.inlineData.mimeType || 'image/png';
+                return `data:${mimeType};base64,${part.inlineData.data}`;
+            }
+        }
+    }
+    throw new LocalizedError(emptyMessage);
+};
+
+const toInlineParts = (request: { images: ImageGenerationRequest['images'] }) =>
+    request.images.map(image => ({ inlineData: { data: image.base64, mimeType: image.mimeType } }));
+
+const toVideoImage = (image: VideoGenerationRequest['startFrame']) => ({ imageBytes: image.base64, mimeType: image.mimeType });
+
+export const geminiProvider: ImageProvider & VideoProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+
+    generateImage: async (request: ImageGenerationRequest) => {
+        const parts = [...toInlineParts(request), { text: request.prompt }];
+
+        // Standard Mode: Use Gemini 2.5 Flash Image
+        // Does NOT enforce the popup key selection, making it friendlier for free tier/env keys
+        if (request.model === 'flash') {
+            const response = await getClient().models.generateContent({
+                model: 'gemini-2.5-flash-image',
+                contents: { parts },
+                config: {
+                    // Flash 2.5 image doesn't support explicit imageSize in the same way as Pro 3
+                    // We rely on default output
+                    abortSignal: request.signal,
+                },
+            });
+            return extractImage(response, 'error.provider.geminiFlashEmpty');
+        }
+
+        // Ultra Mode: Use Gemini 3 Pro Image Preview
+        // This requires a paid project key selection
+        await ensureSelectedApiKey();
+        throwIfAborted(request.signal);
+        const response = await getClient().models.generateContent({
+            model: 'gemini-3-pro-image-preview',
+            contents: { parts },
+            config: {
+                imageConfig: {
+                    aspectRatio: request.aspectRatio,
+                    imageSize: request.resolution || "1K"
+                },
+                abortSignal: request.signal,
+            },
+        });
+        return extractImage(response, 'error.provider.geminiProEmpty');
+    },
+
+    editImage: async (request: ImageEditRequest) => {
+        const response = await getClient().models.generateContent({
+            model: 'gemini-2.5-flash-image', // Using Flash for fast editing/reasoning on images
+            contents: { parts: [...toInlineParts(request), { text: request.prompt }] },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                abortSignal: request.signal,
+            },
+        });
+        return extractImage(response, 'error.provider.editEmpty');
+    },
+
+    generateVideo: async (request: VideoGenerationRequest) => {
+        await ensureSelectedApiKey();
+        throwIfAborted(request.signal);
+        const currentAi = getClient();
+        const retry = request.retry ?? (task => task());
+
+        // Each request is retried on its own: polls and downloads keep the operation already started
+        let operation = await retry(() => currentAi.models.generateVideos({
+            model: 'veo-3.1-fast-generate-preview', // Upgrade to Veo 3.1
+            prompt: request.prompt,
+            ...(request.startFrame && { image: toVideoImage(request.startFrame) }),
+            config: {
+                numberOfVideos: request.count,
+                resolution: request.resolution, // Support for 1080p
+                aspectRatio: request.aspectRatio,
+                durationSeconds: request.durationSeconds,
+                ...(request.negativePrompt && { negativePrompt: request.negativePrompt }),
+                // Veo interpolates between the two frames; a last frame alone is not accepted
+                ...(request.startFrame && request.endFrame && { lastFrame: toVideoImage(request.endFrame) }),
+                abortSignal: request.signal,
+            }
+        }));
+
+        // Cancelling stops the polling; the server-side operation is simply abandoned
+        while (!operation.done) {
+            await wait(10000, request.signal);
+            const pending = operation;
+            operation = await retry(() => currentAi.operations.getVideosOperation({ operation: pending, config: { abortSignal: request.signal } }));
+        }
+
+        const downloadLinks = (operation.response?.generatedVideos ?? []).map(video => video.video?.uri).filter((uri): uri is string => !!uri);
+        if (downloadLinks.length === 0) {
+            throw new LocalizedError('error.provider.videoNoLink');
+        }
+
+        return Promise.all(downloadLinks.map(downloadLink => retry(async () => {
+            const videoResponse = await fetch(`${downloadLink}&key=${process.env.API_KEY}`, { signal: request.signal });
+            if (!videoResponse.ok) {
+                throw Object.assign(new LocalizedError('error.provider.videoDownload', { status: videoResponse.status }), { status: videoResponse.status });
+            }
+            const videoBlob = await videoResponse.blob();
+            return URL.createObjectURL(videoBlob);
+        })));
+    },
+};
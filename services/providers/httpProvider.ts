@@ -0,0 +1,188 @@
+import type { UploadedImage } from '../../types';
+import type { ImageProvider, ImageGenerationRequest, ImageEditRequest, HttpProviderSettings } from './types';
+import { ProviderConfigurationError } from './types';
+import { blobToDataUrl, dataUrlToBlob, uploadedImageToDataUrl } from '../imageProcessing';
+import { wait } from './abort';
+import { LocalizedError } from '../../i18n';
+
+const COMFYUI_POLL_INTERVAL_MS = 1500;
+const COMFYUI_TIMEOUT_MS = 10 * 60 * 1000;
+
+const RESOLUTION_LONG_SIDE = { '1K': 1024, '2K': 2048, '4K': 4096 };
+
+const trimBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+const ensureOk = async (response: Response): Promise<Response> => {
+    if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        // The status is kept on the error so 429 and 5xx answers can be retried
+        throw Object.assign(new LocalizedError('error.http.rejected', { status: response.status, detail: detail.slice(0, 300) }), { status: response.status });
+    }
+    return response;
+};
+
+const uploadedImageToBlob = (image: UploadedImage) => dataUrlToBlob(uploadedImageToDataUrl(image));
+
+// --- OpenAI-compatible (/v1/images/*) ---
+
+// The images API only accepts a few fixed sizes
+const toOpenAiSize = (aspectRatio: string): string => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    if (!w || !h || w === h) return '1024x1024';
+    return w > h ? '1536x1024' : '1024x1536';
+};
+
+const readOpenAiImage = async (response: Response, signal?: AbortSignal): Promise<string> => {
+    const body = await response.json();
+    const item = body?.data?.[0];
+    if (item?.b64_json) return `data:image/png;base64,${item.b64_json}`;
+    if (item?.url) return blobToDataUrl(await (await fetch(item.url, { signal })).blob());
+    throw new LocalizedError('error.http.emptyImage');
+};
+
+const openAiHeaders = (settings: HttpProviderSettings): Record<string, string> =>
+    settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+
+const openAiGenerate = async (settings: HttpProviderSettings, request: ImageGenerationRequest): Promise<string> => {
+    if (request.images.length > 0) {
+        return openAiEdit(settings, { prompt: request.prompt, images: request.images, signal: request.signal }, toOpenAiSize(request.aspectRatio));
+    }
+    const response = await fetch(`${trimBaseUrl(settings.baseUrl)}/images/generations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...openAiHeaders(settings) },
+        body: JSON.stringify({
+            model: settings.model || undefined,
+            prompt: request.prompt,
+            n: 1,
+            size: toOpenAiSize(request.aspectRatio),
+            response_format: 'b64_json',
+        }),
+        signal: request.signal,
+    });
+    return readOpenAiImage(await ensureOk(response), request.signal);
+};
+
+const openAiEdit = async (settings: HttpProviderSettings, request: ImageEditRequest, size?: string): Promise<string> => {
+    const form = new FormData();
+    if (settings.model) form.append('model', settings.model);
+    form.append('prompt', request.prompt);
+    if (size) form.append('size', size);
+    for (const [index, image] of request.images.entries()) {
+        form.append('image[]', await uploadedImageToBlob(image), `image-${index}.png`);
+    }
+    const response = await fetch(`${trimBaseUrl(settings.baseUrl)}/images/edits`, {
+        method: 'POST',
+        headers: openAiHeaders(settings),
+        body: form,
+        signal: request.signal,
+    });
+    return readOpenAiImage(await ensureOk(response), request.signal);
+};
+
+// --- ComfyUI (/prompt + /history) ---
+
+const comfyUpload = async (baseUrl: string, image: UploadedImage, index: number, signal?: AbortSignal): Promise<string> => {
+    const form = new FormData();
+    form.append('image', await uploadedImageToBlob(image), `nano-banana-${Date.now()}-${index}.png`);
+    form.append('overwrite', 'true');
+    const response = await ensureOk(await fetch(`${baseUrl}/upload/image`, { method: 'POST', body: form, signal }));
+    const { name, subfolder } = await response.json();
+    return subfolder ? `${subfolder}/${name}` : name;
+};
+
+/**
+ * Queues the configured workflow and waits for its first output image.
+ * The workflow is the API-format JSON exported by ComfyUI, with the tokens
+ * %prompt%, %seed%, %width%, %height% and %image% replaced before sending.
+ */
+const comfyRun = async (settings: HttpProviderSettings, prompt: string, images: UploadedImage[], width: number, height: number, signal?: AbortSignal): Promise<string> => {
+    if (!settings.workflow.trim()) {
+        throw new ProviderConfigurationError('error.comfy.missingWorkflow');
+    }
+    const baseUrl = trimBaseUrl(settings.baseUrl);
+    const uploadedNames = await Promise.all(images.map((image, index) => comfyUpload(baseUrl, image, index, signal)));
+
+    const tokens: Record<string, string> = {
+        // JSON.stringify escapes quotes and newlines; the surrounding quotes come from the workflow itself
+        prompt: JSON.stringify(prompt).slice(1, -1),
+        seed: String(Math.floor(Math.random() * 2 ** 32)),
+        width: String(width),
+        height: String(height),
+        image: uploadedNames[0] ?? '',
+    };
+    let workflow: unknown;
+    try {
+        workflow = JSON.parse(settings.workflow.replace(/%(prompt|seed|width|height|image)%/g, (_, token) => tokens[token]));
+    } catch {
+        throw new ProviderConfigurationError('error.comfy.invalidWorkflow');
+    }
+
+    const queued = await ensureOk(await fetch(`${baseUrl}/prompt`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prompt: workflow }),
+        signal,
+    }));
+    const { prompt_id: promptId } = await queued.json();
+
+    const startedAt = Date.now();
+    while (Date.now() - startedAt < COMFYUI_TIMEOUT_MS) {
+        await wait(COMFYUI_POLL_INTERVAL_MS, signal);
+        const history = await (await ensureOk(await fetch(`${baseUrl}/history/${promptId}`, { signal }))).json();
+        const run = history?.[promptId];
+        if (!run) continue;
+        if (run.status?.status_str === 'error') {
+            throw new LocalizedError('error.comfy.failed');
+        }
+        const outputImage = Object.values(run.outputs ?? {})
+            .flatMap((output: any) => output.images ?? [])[0] as { filename: string; subfolder: string; type: string } | undefined;
+        if (outputImage) {
+            const params = new URLSearchParams({ filename: outputImage.filename, subfolder: outputImage.subfolder, type: outputImage.type });
+            const view = await ensureOk(await fetch(`${baseUrl}/view?${params}`, { signal }));
+            return blobToDataUrl(await view.blob());
+        }
+        if (run.status?.completed) {
+            throw new LocalizedError('error.comfy.noOutput');
+        }
+    }
+    throw new LocalizedError('error.comfy.timeout');
+};
+
+const getRequestSize = (request: ImageGenerationRequest) => {
+    const [w, h] = request.aspectRatio.split(':').map(Number);
+    const longSide = RESOLUTION_LONG_SIDE[request.resolution] ?? 1024;
+    if (!w || !h) return { width: longSide, height: longSide };
+    // Diffusion models expect multiples of 8
+    const shortSide = Math.round(longSide * Math.min(w, h) / Math.max(w, h) / 8) * 8;
+    return w >= h ? { width: longSide, height: shortSide } : { width: shortSide, height: longSide };
+};
+
+export const createHttpProvider = (settings: HttpProviderSettings): ImageProvider => {
+    const assertConfigured = () => {
+        if (!settings.baseUrl.trim()) {
+            throw new ProviderConfigurationError('error.http.missingBaseUrl');
+        }
+    };
+
+    return {
+        id: 'http',
+        label: settings.flavor === 'comfyui' ? 'ComfyUI' : 'OpenAI-compatible HTTP',
+
+        generateImage: async (request) => {
+            assertConfigured();
+            if (settings.flavor === 'comfyui') {
+                const { width, height } = getRequestSize(request);
+                return comfyRun(settings, request.prompt, request.images, width, height, request.signal);
+            }
+            return openAiGenerate(settings, request);
+        },
+
+        editImage: async (request) => {
+            assertConfigured();
+            if (settings.flavor === 'comfyui') {
+                return comfyRun(settings, request.prompt, request.images, 1024, 1024, request.signal);
+            }
+            return openAiEdit(settings, request);
+        },
+    };
+};
@@ -0,0 +1,75 @@
+import type { ImageProvider, VideoProvider, ProviderId, ProviderSettings } from './types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+import { createHttpProvider } from './httpProvider';
+import { DEFAULT_RETRY_POLICY } from '../retry';
+import type { MessageKey } from '../../i18n';
+
+export * from './types';
+
+const SETTINGS_KEY = 'nano-banana-studio:providers';
+
+export const IMAGE_PROVIDER_OPTIONS: { id: ProviderId; labelKey: MessageKey }[] = [
+    { id: 'gemini', labelKey: 'provider.gemini' },
+    { id: 'mock', labelKey: 'provider.mock' },
+    { id: 'http', labelKey: 'provider.http' },
+];
+
+export const VIDEO_PROVIDER_OPTIONS: { id: ProviderSettings['videoProvider']; labelKey: MessageKey }[] = [
+    { id: 'gemini', labelKey: 'provider.gemini' },
+    { id: 'mock', labelKey: 'provider.mock' },
+];
+
+// Without an API key the app still starts, falling back to the local mock
+const getDefaultSettings = (): ProviderSettings => {
+    const defaultProvider = process.env.API_KEY ? 'gemini' : 'mock';
+    return {
+        imageProvider: defaultProvider,
+        videoProvider: defaultProvider,
+        http: { flavor: 'openai', baseUrl: '', apiKey: '', model: '', workflow: '' },
+        retry: DEFAULT_RETRY_POLICY,
+    };
+};
+
+let currentSettings: ProviderSettings | null = null;
+
+export const getProviderSettings = (): ProviderSettings => {
+    if (!currentSettings) {
+        const defaults = getDefaultSettings();
+        try {
+            const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+            currentSettings = stored
+                ? { ...defaults, ...stored, http: { ...defaults.http, ...stored.http }, retry: { ...defaults.retry, ...stored.retry } }
+                : defaults;
+        } catch {
+            currentSettings = defaults;
+        }
+    }
+    return currentSettings!;
+};
+
+export const setProviderSettings = (settings: ProviderSettings) => {
+    currentSettings = settings;
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    } catch {
+        // The choice still applies for this page load
+    }
+};
+
+export const getImageProvider = (): ImageProvider => {
+    const settings = getProviderSettings();
+    switch (settings.imageProvider) {
+        case 'mock':
+            return mockProvider;
+        case 'http':
+            return createHttpProvider(settings.http);
+        case 'gemini':
+        default:
+            return geminiProvider;
+    }
+};
+
+export const getVideoProvider = (): VideoProvider => {
+    return getProviderSettings().videoProvider === 'mock' ? mockProvider : geminiProvider;
+};
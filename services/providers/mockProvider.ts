@@ -0,0 +1,197 @@
+import type { ImageProvider, VideoProvider, ImageGenerationRequest, ImageEditRequest, VideoGenerationRequest } from './types';
+import { createCanvas, loadImage, uploadedImageToDataUrl } from '../imageProcessing';
+import { wait } from './abort';
+import { LocalizedError } from '../../i18n';
+
+const RESOLUTION_LONG_SIDE = { '1K': 1024, '2K': 2048, '4K': 4096 };
+// Landscape sizes; portrait videos swap the sides
+const VIDEO_SIZE = { '720p': [1280, 720], '1080p': [1920, 1080] };
+const VIDEO_FPS = 24;
+// Keeps the UI's loading states visible, like a real backend would
+const SIMULATED_LATENCY_MS = 600;
+
+// FNV-1a, so the same prompt always produces the same placeholder
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+// mulberry32: small seeded PRNG
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const getImageSize = (aspectRatio: string, resolution: ImageGenerationRequest['resolution']) => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const longSide = RESOLUTION_LONG_SIDE[resolution] ?? 1024;
+    if (!w || !h) return { width: longSide, height: longSide };
+    return w >= h
+        ? { width: longSide, height: Math.round(longSide * h / w) }
+        : { width: Math.round(longSide * w / h), height: longSide };
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width > maxWidth && line) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+};
+
+/**
+ * Draws a deterministic placeholder: a gradient and a few shapes seeded by the
+ * prompt, with the prompt itself written on top. `time` (0..1) animates the
+ * shapes for video frames and `variant` gives each take of the same prompt
+ * its own colours.
+ */
+const drawPlaceholder = (ctx: CanvasRenderingContext2D, width: number, height: number, prompt: string, label: string, time = 0, variant = 0) => {
+    const random = createRandom(hashString(prompt) + variant);
+    const hue = Math.floor(random() * 360);
+
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 20%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    const unit = Math.min(width, height);
+    for (let i = 0; i < 8; i++) {
+        const x = random() * width + Math.sin((time + random()) * Math.PI * 2) * unit * 0.05;
+        const y = random() * height + Math.cos((time + random()) * Math.PI * 2) * unit * 0.05;
+        const radius = unit * (0.05 + random() * 0.2);
+        ctx.fillStyle = `hsla(${(hue + random() * 180) % 360}, 80%, 65%, 0.35)`;
+        ctx.beginPath();
+        if (random() > 0.5) {
+            ctx.arc(x, y, radius, 0, Math.PI * 2);
+        } else {
+            ctx.rect(x - radius, y - radius, radius * 2, radius * 2);
+        }
+        ctx.fill();
+    }
+
+    const fontSize = Math.max(14, Math.round(unit / 24));
+    ctx.font = `600 ${fontSize}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lines = wrapText(ctx, prompt, width * 0.8).slice(0, 6);
+    const blockHeight = (lines.length + 1.5) * fontSize * 1.3;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+    ctx.fillRect(width * 0.05, height / 2 - blockHeight / 2, width * 0.9, blockHeight);
+    ctx.fillStyle = '#ffffff';
+    lines.forEach((line, index) => {
+        ctx.fillText(line, width / 2, height / 2 - blockHeight / 2 + fontSize * 1.3 * (index + 1));
+    });
+    ctx.font = `${Math.round(fontSize * 0.7)}px monospace`;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+    ctx.fillText(label, width / 2, height / 2 + blockHeight / 2 - fontSize * 0.6);
+};
+
+const recordMockVideo = async (request: VideoGenerationRequest, take: number): Promise<string> => {
+    const [long, short] = VIDEO_SIZE[request.resolution];
+    const [width, height] = request.aspectRatio === '9:16' ? [short, long] : [long, short];
+    const frameCount = Math.max(1, Math.round(request.durationSeconds * VIDEO_FPS));
+    const { canvas, ctx } = createCanvas(width, height);
+    const startFrame = request.startFrame ? await loadImage(uploadedImageToDataUrl(request.startFrame)) : null;
+    const endFrame = request.startFrame && request.endFrame ? await loadImage(uploadedImageToDataUrl(request.endFrame)) : null;
+
+    const drawFrame = (frame: number) => {
+        const time = frame / frameCount;
+        const takeLabel = request.count > 1 ? ` · take ${take + 1}` : '';
+        drawPlaceholder(ctx, width, height, request.prompt, `mock · ${request.resolution} · ${request.aspectRatio}${takeLabel} · ${frame + 1}/${frameCount}`, time, take);
+        if (startFrame) {
+            // Slow zoom on the start frame, faded over the placeholder and cross-faded into the end frame
+            const scale = 1 + time * 0.1;
+            ctx.globalAlpha = endFrame ? 0.6 * (1 - time) : 0.6;
+            ctx.drawImage(startFrame, (width - width * scale) / 2, (height - height * scale) / 2, width * scale, height * scale);
+            if (endFrame) {
+                ctx.globalAlpha = 0.6 * time;
+                ctx.drawImage(endFrame, 0, 0, width, height);
+            }
+            ctx.globalAlpha = 1;
+        }
+    };
+
+    const stream = canvas.captureStream(VIDEO_FPS);
+    const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    drawFrame(0);
+    recorder.start();
+    try {
+        for (let frame = 1; frame < frameCount; frame++) {
+            await wait(1000 / VIDEO_FPS, request.signal);
+            drawFrame(frame);
+        }
+    } finally {
+        recorder.stop();
+        await stopped;
+        stream.getTracks().forEach(track => track.stop());
+    }
+
+    return URL.createObjectURL(new Blob(chunks, { type: 'video/webm' }));
+};
+
+export const mockProvider: ImageProvider & VideoProvider = {
+    id: 'mock',
+    label: 'Local mock',
+
+    generateImage: async (request: ImageGenerationRequest) => {
+        await wait(SIMULATED_LATENCY_MS, request.signal);
+        const { width, height } = getImageSize(request.aspectRatio, request.resolution);
+        const { canvas, ctx } = createCanvas(width, height);
+        const inputs = request.images.length > 0 ? ` · ${request.images.length} img` : '';
+        // Candidates of a batch get their own shapes, like the takes of a mock video
+        const candidate = request.candidate ?? 0;
+        const candidateLabel = request.candidate !== undefined ? ` · #${candidate + 1}` : '';
+        drawPlaceholder(ctx, width, height, request.prompt, `mock · ${request.model} · ${request.aspectRatio} · ${request.resolution}${inputs}${candidateLabel}`, 0, candidate);
+        return canvas.toDataURL('image/png');
+    },
+
+    editImage: async (request: ImageEditRequest) => {
+        await wait(SIMULATED_LATENCY_MS, request.signal);
+        const [source] = request.images;
+        if (!source) {
+            throw new LocalizedError('error.mock.noImage');
+        }
+        // Tint the input with the prompt colour so each edit visibly differs from its source
+        const img = await loadImage(uploadedImageToDataUrl(source));
+        const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+        ctx.drawImage(img, 0, 0);
+        const hue = hashString(request.prompt) % 360;
+        ctx.globalCompositeOperation = 'color';
+        ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.35)`;
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        return canvas.toDataURL('image/png');
+    },
+
+    generateVideo: async (request: VideoGenerationRequest) => {
+        if (typeof MediaRecorder === 'undefined') {
+            throw new LocalizedError('error.mock.noRecorder');
+        }
+        const takes: string[] = [];
+        // MediaRecorder captures in real time, so the takes are recorded one after the other
+        for (let take = 0; take < request.count; take++) {
+            takes.push(await recordMockVideo(request, take));
+        }
+        return takes;
+    },
+};
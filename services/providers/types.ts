@@ -0,0 +1,75 @@
+import type { AIModel, UploadedImage, VideoAspectRatio } from '../../types';
+import type { RetryPolicy } from '../retry';
+import type { MessageKey, MessageParams } from '../../i18n';
+import { LocalizedError } from '../../i18n';
+
+export type ProviderId = 'gemini' | 'mock' | 'http';
+
+export interface ImageGenerationRequest {
+    prompt: string; // Fully built prompt, ready to send
+    model: AIModel;
+    aspectRatio: string;
+    resolution: '1K' | '2K' | '4K';
+    images: UploadedImage[]; // Input images sent along with the prompt
+    candidate?: number; // Position in a batch of identical requests; only the mock needs it to tell them apart
+    signal?: AbortSignal;
+}
+
+export interface ImageEditRequest {
+    prompt: string;
+    images: UploadedImage[]; // The image to edit first, followed by any auxiliary images (e.g. a mask)
+    signal?: AbortSignal;
+}
+
+export interface VideoGenerationRequest {
+    prompt: string;
+    negativePrompt?: string;
+    startFrame?: UploadedImage;
+    endFrame?: UploadedImage; // Only used together with a start frame
+    resolution: '720p' | '1080p';
+    aspectRatio: VideoAspectRatio;
+    durationSeconds: number;
+    count: number; // Number of takes
+    signal?: AbortSignal;
+    // Wraps each network request of a long-running generation, so a transient failure
+    // repeats that one request (a poll, a download) instead of the whole generation
+    retry?: <T>(task: () => Promise<T>) => Promise<T>;
+}
+
+// Every method resolves to a URL the UI can display directly (data URL or blob URL)
+export interface ImageProvider {
+    id: ProviderId;
+    label: string;
+    generateImage: (request: ImageGenerationRequest) => Promise<string>;
+    editImage: (request: ImageEditRequest) => Promise<string>;
+}
+
+export interface VideoProvider {
+    id: ProviderId;
+    label: string;
+    generateVideo: (request: VideoGenerationRequest) => Promise<string[]>; // One URL per take
+}
+
+export interface HttpProviderSettings {
+    flavor: 'openai' | 'comfyui';
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+    // ComfyUI only: API-format workflow JSON with %prompt%, %seed%, %width%, %height% and %image% tokens
+    workflow: string;
+}
+
+export interface ProviderSettings {
+    imageProvider: ProviderId;
+    videoProvider: Exclude<ProviderId, 'http'>;
+    http: HttpProviderSettings;
+    retry: RetryPolicy;
+}
+
+// Raised when a provider cannot run at all with the current settings (missing key, URL...)
+export class ProviderConfigurationError extends LocalizedError {
+    constructor(key: MessageKey, params?: MessageParams) {
+        super(key, params);
+        this.name = 'ProviderConfigurationError';
+    }
+}
@@ -0,0 +1,54 @@
+import type { GenerationOperation } from './generationError';
+import { GenerationError, toGenerationError } from './generationError';
+import { wait } from './providers/abort';
+
+export interface RetryPolicy {
+    maxRetries: number;   // Extra attempts after the first one
+    baseDelayMs: number;  // Backoff ceiling of the first retry, doubled on each one
+    maxDelayMs: number;
+    fallbackToFlash: boolean; // Pro requests that keep failing are retried on Flash
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 3,
+    baseDelayMs: 2000,
+    maxDelayMs: 30000,
+    fallbackToFlash: true,
+};
+
+export interface RetryEvents {
+    onRetry?: (info: { attempt: number; maxRetries: number; delayMs: number; error: GenerationError }) => void;
+    onFallback?: (error: GenerationError) => void;
+}
+
+// Exponential backoff with full jitter, so parallel jobs hitting the same quota don't retry in lockstep
+export const getBackoffDelay = (retry: number, policy: RetryPolicy) =>
+    Math.round(Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry));
+
+/**
+ * Runs `task`, retrying retryable failures according to `policy`.
+ * Always rejects with a GenerationError.
+ */
+export const withRetry = async <T>(
+    task: () => Promise<T>,
+    operation: GenerationOperation,
+    policy: RetryPolicy,
+    signal?: AbortSignal,
+    events?: RetryEvents
+): Promise<T> => {
+    for (let retry = 0; ; retry++) {
+        try {
+            return await task();
+        } catch (e: any) {
+            const error = toGenerationError(e, operation);
+            if (!error.retryable || retry >= policy.maxRetries || signal?.aborted) throw error;
+            const delayMs = getBackoffDelay(retry, policy);
+            events?.onRetry?.({ attempt: retry + 1, maxRetries: policy.maxRetries, delayMs, error });
+            try {
+                await wait(delayMs, signal);
+            } catch (abort) {
+                throw toGenerationError(abort, operation);
+            }
+        }
+    }
+};
@@ -0,0 +1,218 @@
+import { loadImage, createCanvas } from './imageProcessing';
+import { LocalizedError } from '../i18n';
+
+export interface StickerOptions {
+    tolerance: number; // 0..255, largest channel difference still treated as background
+    outlineWidth: number; // Pixels of white border around the cut-out, 0 to disable
+    shadow: boolean;
+}
+
+export const DEFAULT_STICKER_OPTIONS: StickerOptions = { tolerance: 48, outlineWidth: 12, shadow: true };
+
+// Colours just above the tolerance fade out over this range instead of leaving a hard fringe
+const EDGE_FEATHER = 24;
+const SHADOW_BLUR = 12;
+const SHADOW_OFFSET = 6;
+
+// A4 at 300 dpi
+const SHEET_WIDTH = 2480;
+const SHEET_HEIGHT = 3508;
+const SHEET_MARGIN = 120;
+const SHEET_GAP = 60;
+
+const colorDistance = (data: Uint8ClampedArray, i: number, [r, g, b]: number[]) =>
+    Math.max(Math.abs(data[i] - r), Math.abs(data[i + 1] - g), Math.abs(data[i + 2] - b));
+
+// The most frequent colour along the border, averaged within its bucket; the model is asked for a flat background
+const estimateBackgroundColor = (data: Uint8ClampedArray, width: number, height: number): number[] => {
+    const buckets = new Map<number, { count: number; sum: number[] }>();
+    const sample = (x: number, y: number) => {
+        const i = (y * width + x) * 4;
+        const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+        const bucket = buckets.get(key) ?? { count: 0, sum: [0, 0, 0] };
+        bucket.count++;
+        bucket.sum[0] += data[i];
+        bucket.sum[1] += data[i + 1];
+        bucket.sum[2] += data[i + 2];
+        buckets.set(key, bucket);
+    };
+    for (let x = 0; x < width; x++) { sample(x, 0); sample(x, height - 1); }
+    for (let y = 1; y < height - 1; y++) { sample(0, y); sample(width - 1, y); }
+    const top = [...buckets.values()].reduce((best, b) => (b.count > best.count ? b : best));
+    return top.sum.map(v => v / top.count);
+};
+
+/**
+ * Flood-fills the background from the image border and returns an alpha channel:
+ * connected pixels close to the background colour become transparent, and the
+ * ones just past the tolerance at the edge of that region are partially transparent.
+ */
+const computeBackgroundAlpha = (data: Uint8ClampedArray, width: number, height: number, tolerance: number): Uint8ClampedArray => {
+    const background = estimateBackgroundColor(data, width, height);
+    const alpha = new Uint8ClampedArray(width * height).fill(255);
+    const visited = new Uint8Array(width * height);
+    const queue = new Int32Array(width * height);
+    let head = 0;
+    let tail = 0;
+
+    const visit = (p: number) => {
+        if (visited[p]) return;
+        visited[p] = 1;
+        const distance = colorDistance(data, p * 4, background);
+        if (distance <= tolerance) {
+            alpha[p] = 0;
+            queue[tail++] = p;
+        } else if (distance <= tolerance + EDGE_FEATHER) {
+            alpha[p] = Math.round(((distance - tolerance) / EDGE_FEATHER) * 255);
+        }
+    };
+
+    for (let x = 0; x < width; x++) { visit(x); visit((height - 1) * width + x); }
+    for (let y = 0; y < height; y++) { visit(y * width); visit(y * width + width - 1); }
+    while (head < tail) {
+        const p = queue[head++];
+        const x = p % width;
+        if (x > 0) visit(p - 1);
+        if (x < width - 1) visit(p + 1);
+        if (p >= width) visit(p - width);
+        if (p < width * (height - 1)) visit(p + width);
+    }
+    return alpha;
+};
+
+/**
+ * Two-pass chamfer (3-4) distance transform: for every pixel, the approximate
+ * distance in pixels to the nearest opaque pixel of the mask.
+ */
+const distanceToShape = (alpha: Uint8ClampedArray, width: number, height: number): Float32Array => {
+    const distance = new Float32Array(width * height);
+    for (let p = 0; p < distance.length; p++) distance[p] = alpha[p] > 127 ? 0 : Infinity;
+
+    const relax = (p: number, q: number, cost: number) => {
+        if (distance[q] + cost < distance[p]) distance[p] = distance[q] + cost;
+    };
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const p = y * width + x;
+            if (x > 0) relax(p, p - 1, 3);
+            if (y > 0) {
+                relax(p, p - width, 3);
+                if (x > 0) relax(p, p - width - 1, 4);
+                if (x < width - 1) relax(p, p - width + 1, 4);
+            }
+        }
+    }
+    for (let y = height - 1; y >= 0; y--) {
+        for (let x = width - 1; x >= 0; x--) {
+            const p = y * width + x;
+            if (x < width - 1) relax(p, p + 1, 3);
+            if (y < height - 1) {
+                relax(p, p + width, 3);
+                if (x < width - 1) relax(p, p + width + 1, 4);
+                if (x > 0) relax(p, p + width - 1, 4);
+            }
+        }
+    }
+    for (let p = 0; p < distance.length; p++) distance[p] /= 3;
+    return distance;
+};
+
+// Smallest rectangle holding every visible pixel, or null for a fully transparent canvas
+const findOpaqueBounds = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    const data = ctx.getImageData(0, 0, width, height).data;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] > 8) {
+                if (x < minX) minX = x;
+                if (x > maxX) maxX = x;
+                if (y < minY) minY = y;
+                if (y > maxY) maxY = y;
+            }
+        }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Turns a generated sticker into a transparent PNG die-cut: removes the flat
+ * background, adds a white offset outline and an optional drop shadow, and
+ * crops the result to the sticker.
+ */
+export const cutOutSticker = async (imageUrl: string, options: StickerOptions): Promise<string> => {
+    const img = await loadImage(imageUrl);
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+    const { canvas: cutout, ctx: cutoutCtx } = createCanvas(width, height);
+    cutoutCtx.drawImage(img, 0, 0);
+    const pixels = cutoutCtx.getImageData(0, 0, width, height);
+    const alpha = computeBackgroundAlpha(pixels.data, width, height, options.tolerance);
+    if (!alpha.some(a => a > 127)) {
+        throw new LocalizedError('error.sticker.empty');
+    }
+    for (let p = 0; p < alpha.length; p++) pixels.data[p * 4 + 3] = alpha[p];
+    cutoutCtx.putImageData(pixels, 0, 0);
+
+    // Room around the image for the outline and the shadow to grow into
+    const outline = Math.max(0, Math.round(options.outlineWidth));
+    const pad = outline + (options.shadow ? SHADOW_BLUR * 2 + SHADOW_OFFSET : 0) + 2;
+    const paddedWidth = width + pad * 2;
+    const paddedHeight = height + pad * 2;
+
+    const { canvas: border, ctx: borderCtx } = createCanvas(paddedWidth, paddedHeight);
+    if (outline > 0) {
+        const paddedAlpha = new Uint8ClampedArray(paddedWidth * paddedHeight);
+        for (let y = 0; y < height; y++) {
+            paddedAlpha.set(alpha.subarray(y * width, (y + 1) * width), (y + pad) * paddedWidth + pad);
+        }
+        const distance = distanceToShape(paddedAlpha, paddedWidth, paddedHeight);
+        const borderPixels = borderCtx.createImageData(paddedWidth, paddedHeight);
+        for (let p = 0; p < distance.length; p++) {
+            // One pixel of falloff keeps the outer edge of the outline antialiased
+            const coverage = Math.min(1, Math.max(0, outline + 0.5 - distance[p]));
+            if (coverage > 0) {
+                borderPixels.data.fill(255, p * 4, p * 4 + 3);
+                borderPixels.data[p * 4 + 3] = Math.round(coverage * 255);
+            }
+        }
+        borderCtx.putImageData(borderPixels, 0, 0);
+    }
+    borderCtx.drawImage(cutout, pad, pad);
+
+    const { canvas, ctx } = createCanvas(paddedWidth, paddedHeight);
+    if (options.shadow) {
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+        ctx.shadowBlur = SHADOW_BLUR;
+        ctx.shadowOffsetY = SHADOW_OFFSET;
+    }
+    ctx.drawImage(border, 0, 0);
+
+    const bounds = findOpaqueBounds(ctx, paddedWidth, paddedHeight)!;
+    const { canvas: cropped, ctx: croppedCtx } = createCanvas(bounds.width, bounds.height);
+    croppedCtx.drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+    return cropped.toDataURL('image/png');
+};
+
+/**
+ * Lays out several die-cut stickers on a transparent A4 page, in a grid with
+ * the given number of columns. Each sticker is scaled to fit its cell.
+ */
+export const buildStickerSheet = async (stickerUrls: string[], columns: number): Promise<string> => {
+    const stickers = await Promise.all(stickerUrls.map(loadImage));
+    const cols = Math.max(1, Math.min(columns, stickers.length));
+    const rows = Math.ceil(stickers.length / cols);
+    const cellWidth = (SHEET_WIDTH - SHEET_MARGIN * 2 - SHEET_GAP * (cols - 1)) / cols;
+    // Square-ish cells keep a short list from being stretched down the whole page
+    const cellHeight = Math.min(cellWidth, (SHEET_HEIGHT - SHEET_MARGIN * 2 - SHEET_GAP * (rows - 1)) / rows);
+
+    const { canvas, ctx } = createCanvas(SHEET_WIDTH, SHEET_HEIGHT);
+    stickers.forEach((sticker, index) => {
+        const cellX = SHEET_MARGIN + (index % cols) * (cellWidth + SHEET_GAP);
+        const cellY = SHEET_MARGIN + Math.floor(index / cols) * (cellHeight + SHEET_GAP);
+        const scale = Math.min(cellWidth / sticker.naturalWidth, cellHeight / sticker.naturalHeight);
+        const drawWidth = sticker.naturalWidth * scale;
+        const drawHeight = sticker.naturalHeight * scale;
+        ctx.drawImage(sticker, cellX + (cellWidth - drawWidth) / 2, cellY + (cellHeight - drawHeight) / 2, drawWidth, drawHeight);
+    });
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,123 @@
+import type { StoryboardShot } from '../types';
+import { createCanvas } from './imageProcessing';
+import { loadVideo, seekVideo } from './videoFrames';
+import { createAbortError } from './providers/abort';
+import { LocalizedError } from '../i18n';
+
+const EXPORT_FPS = 30;
+// Trimming never shortens a clip below this, in seconds
+export const MIN_SHOT_LENGTH = 0.5;
+const RECORDER_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export const createStoryboardShot = (prompt = ''): StoryboardShot => ({
+    id: `shot-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    prompt,
+    videoUrl: null,
+    duration: 0,
+    trimStart: 0,
+    trimEnd: 0,
+});
+
+export const getShotLength = (shot: StoryboardShot) => Math.max(0, shot.duration - shot.trimStart - shot.trimEnd);
+
+export const moveShot = (shots: StoryboardShot[], id: string, toIndex: number): StoryboardShot[] => {
+    const shot = shots.find(s => s.id === id);
+    if (!shot) return shots;
+    const rest = shots.filter(s => s.id !== id);
+    return [...rest.slice(0, toIndex), shot, ...rest.slice(toIndex)];
+};
+
+// Each shot continues the previous one, so the shared description keeps the characters and setting consistent
+export const buildShotPrompt = (shotPrompt: string, sharedDescription: string): string =>
+    sharedDescription ? `${shotPrompt}. Recurring characters, setting and style: ${sharedDescription}` : shotPrompt;
+
+/**
+ * Plays the trimmed clips one after the other into a canvas and records it,
+ * together with their audio, as a single WebM. Recording happens in real time,
+ * so exporting takes as long as the timeline. Clips with another size are
+ * letterboxed into the size of the first one.
+ */
+export const exportStoryboard = async (shots: StoryboardShot[], onProgress: (progress: number) => void, signal?: AbortSignal): Promise<Blob> => {
+    const clips = shots.filter(shot => shot.videoUrl && getShotLength(shot) > 0);
+    const mimeType = typeof MediaRecorder === 'undefined' ? undefined : RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) {
+        throw new LocalizedError('error.storyboard.noRecorder');
+    }
+    if (clips.length === 0) {
+        throw new LocalizedError('error.storyboard.empty');
+    }
+
+    const videos = await Promise.all(clips.map(clip => loadVideo(clip.videoUrl!)));
+    const { canvas, ctx } = createCanvas(videos[0].videoWidth, videos[0].videoHeight);
+    const chunks: Blob[] = [];
+
+    const totalLength = clips.reduce((sum, clip) => sum + getShotLength(clip), 0);
+    let elapsed = 0;
+    const drawFrame = (video: HTMLVideoElement) => {
+        const scale = Math.min(canvas.width / video.videoWidth, canvas.height / video.videoHeight);
+        const width = video.videoWidth * scale;
+        const height = video.videoHeight * scale;
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(video, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+    };
+
+    // Plays one clip from its trimmed start until its trimmed end, drawing every animation frame
+    const playClip = (video: HTMLVideoElement, clip: StoryboardShot) => new Promise<void>((resolve, reject) => {
+        const end = clip.duration - clip.trimEnd;
+        let frame = 0;
+        const finish = (error?: unknown) => {
+            cancelAnimationFrame(frame);
+            video.pause();
+            signal?.removeEventListener('abort', onAbort);
+            if (error) reject(error); else resolve();
+        };
+        const onAbort = () => finish(createAbortError());
+        const tick = () => {
+            drawFrame(video);
+            onProgress(Math.min(1, (elapsed + video.currentTime - clip.trimStart) / totalLength));
+            if (video.currentTime >= end || video.ended) finish();
+            else frame = requestAnimationFrame(tick);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        video.play().then(() => { frame = requestAnimationFrame(tick); }, finish);
+    });
+
+    // Created inside the try, so a failure at any step still closes the audio context and stops the capture tracks
+    let audioContext: AudioContext | null = null;
+    const tracks: MediaStreamTrack[] = [];
+    let recorder: MediaRecorder | null = null;
+    let stopped = Promise.resolve();
+    try {
+        audioContext = new AudioContext();
+        const audioDestination = audioContext.createMediaStreamDestination();
+        tracks.push(...canvas.captureStream(EXPORT_FPS).getVideoTracks(), ...audioDestination.stream.getAudioTracks());
+        const activeRecorder = new MediaRecorder(new MediaStream(tracks), { mimeType });
+        recorder = activeRecorder;
+        activeRecorder.ondataavailable = event => {
+            if (event.data.size > 0) chunks.push(event.data);
+        };
+        stopped = new Promise<void>(resolve => { activeRecorder.onstop = () => resolve(); });
+
+        for (let i = 0; i < clips.length; i++) {
+            const video = videos[i];
+            video.muted = false;
+            audioContext.createMediaElementSource(video).connect(audioDestination);
+            await seekVideo(video, clips[i].trimStart);
+            drawFrame(video);
+            if (i === 0) activeRecorder.start();
+            await playClip(video, clips[i]);
+            elapsed += getShotLength(clips[i]);
+        }
+    } finally {
+        if (recorder && recorder.state !== 'inactive') {
+            recorder.stop();
+            await stopped;
+        }
+        tracks.forEach(track => track.stop());
+        await audioContext?.close();
+    }
+
+    onProgress(1);
+    return new Blob(chunks, { type: 'video/webm' });
+};
@@ -0,0 +1,72 @@
+import { createCanvas, loadImage } from './imageProcessing';
+import { createAbortError } from './providers/abort';
+import { LocalizedError } from '../i18n';
+import type { UpscaleRequest, UpscaleResponse } from './upscaleWorker';
+
+// Size with the longer side set to `longEdge`, keeping the aspect ratio
+export const getUpscaledSize = (width: number, height: number, longEdge: number) => {
+    const scale = longEdge / Math.max(width, height);
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Resamples in a worker, which is terminated as soon as the signal is aborted
+const resampleInWorker = (request: UpscaleRequest, signal?: AbortSignal, onProgress?: (progress: number) => void): Promise<Uint8ClampedArray> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const worker = new Worker(new URL('./upscaleWorker.ts', import.meta.url), { type: 'module' });
+        const finish = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+            finish();
+            reject(createAbortError());
+        };
+        worker.onmessage = (event: MessageEvent<UpscaleResponse>) => {
+            const response = event.data;
+            if (response.type === 'progress') {
+                onProgress?.(response.progress);
+                return;
+            }
+            finish();
+            resolve(response.pixels);
+        };
+        worker.onerror = (event) => {
+            finish();
+            reject(new LocalizedError('error.upscale.failed', undefined, { cause: event.error ?? new Error(event.message) }));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        worker.postMessage(request, [request.pixels.buffer]);
+    });
+};
+
+/**
+ * Enlarges an image in the browser, without the model: Lanczos resampling to
+ * the requested long edge, then optional sharpening (0-100) to restore some
+ * crispness. Returns a PNG data URL.
+ */
+export const upscaleImage = async (
+    imageUrl: string,
+    longEdge: number,
+    sharpen: number,
+    signal?: AbortSignal,
+    onProgress?: (progress: number) => void
+): Promise<string> => {
+    const img = await loadImage(imageUrl);
+    const { naturalWidth: width, naturalHeight: height } = img;
+    const { ctx: sourceCtx } = createCanvas(width, height);
+    sourceCtx.drawImage(img, 0, 0);
+    const source = sourceCtx.getImageData(0, 0, width, height);
+
+    const target = getUpscaledSize(width, height, longEdge);
+    const pixels = await resampleInWorker(
+        { pixels: source.data, width, height, targetWidth: target.width, targetHeight: target.height, sharpen },
+        signal, onProgress
+    );
+    const { canvas, ctx } = createCanvas(target.width, target.height);
+    ctx.putImageData(new ImageData(pixels, target.width, target.height), 0, 0);
+    return canvas.toDataURL('image/png');
+};
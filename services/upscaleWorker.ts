@@ -0,0 +1,133 @@
+import { sharpenPixels } from './imageAdjustments';
+
+// Runs the Lanczos resampling of services/upscale.ts off the main thread: a 4K
+// result takes seconds of arithmetic and a few hundred MB of buffers.
+
+export interface UpscaleRequest {
+    pixels: Uint8ClampedArray; // RGBA of the source image
+    width: number;
+    height: number;
+    targetWidth: number;
+    targetHeight: number;
+    sharpen: number; // 0-100
+}
+
+export type UpscaleResponse =
+    | { type: 'progress'; progress: number }
+    | { type: 'done'; pixels: Uint8ClampedArray };
+
+const LANCZOS_LOBES = 3;
+
+const lanczos = (x: number) => {
+    if (x === 0) return 1;
+    if (Math.abs(x) >= LANCZOS_LOBES) return 0;
+    const px = Math.PI * x;
+    return LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES) / (px * px);
+};
+
+// For every output pixel along one axis: the source pixels it reads and their weights, which add up to 1
+const computeContributions = (sourceSize: number, targetSize: number) => {
+    const scale = targetSize / sourceSize;
+    // When shrinking, the kernel is widened so it also filters out detail the output cannot hold
+    const filterScale = Math.min(1, scale);
+    const support = LANCZOS_LOBES / filterScale;
+    return Array.from({ length: targetSize }, (_, i) => {
+        const center = (i + 0.5) / scale - 0.5;
+        const indices: number[] = [];
+        const weights: number[] = [];
+        let total = 0;
+        for (let j = Math.ceil(center - support); j <= Math.floor(center + support); j++) {
+            const weight = lanczos((j - center) * filterScale);
+            if (weight === 0) continue;
+            // Pixels past the edge repeat the edge
+            indices.push(Math.min(sourceSize - 1, Math.max(0, j)));
+            weights.push(weight);
+            total += weight;
+        }
+        return { indices, weights: weights.map(weight => weight / total) };
+    });
+};
+
+/**
+ * Lanczos-3 resampling, one axis at a time. Colours are weighted by alpha so
+ * transparent pixels (sticker cut-outs) do not bleed a dark fringe into the edges.
+ * `onProgress` gets the fraction done, from 0 to 1.
+ */
+const resample = (request: UpscaleRequest, onProgress: (progress: number) => void): Uint8ClampedArray => {
+    const { pixels: data, width: sourceWidth, height: sourceHeight, targetWidth: width, targetHeight: height } = request;
+    const columns = computeContributions(sourceWidth, width);
+    const rows = computeContributions(sourceHeight, height);
+
+    const premultiplied = new Float32Array(data.length);
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3] / 255;
+        premultiplied[i] = data[i] * alpha;
+        premultiplied[i + 1] = data[i + 1] * alpha;
+        premultiplied[i + 2] = data[i + 2] * alpha;
+        premultiplied[i + 3] = data[i + 3];
+    }
+
+    // Each pass counts for half of the progress
+    const horizontal = new Float32Array(width * sourceHeight * 4);
+    for (let y = 0; y < sourceHeight; y++) {
+        const sourceRow = y * sourceWidth * 4;
+        for (let x = 0; x < width; x++) {
+            const { indices, weights } = columns[x];
+            const out = (y * width + x) * 4;
+            for (let k = 0; k < indices.length; k++) {
+                const i = sourceRow + indices[k] * 4;
+                const weight = weights[k];
+                horizontal[out] += premultiplied[i] * weight;
+                horizontal[out + 1] += premultiplied[i + 1] * weight;
+                horizontal[out + 2] += premultiplied[i + 2] * weight;
+                horizontal[out + 3] += premultiplied[i + 3] * weight;
+            }
+        }
+        onProgress((y + 1) / sourceHeight / 2);
+    }
+
+    const output = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        const { indices, weights } = rows[y];
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < indices.length; k++) {
+                const i = (indices[k] * width + x) * 4;
+                const weight = weights[k];
+                r += horizontal[i] * weight;
+                g += horizontal[i + 1] * weight;
+                b += horizontal[i + 2] * weight;
+                a += horizontal[i + 3] * weight;
+            }
+            const out = (y * width + x) * 4;
+            const alpha = a / 255;
+            // The array clamps the overshoot Lanczos produces around hard edges
+            output[out] = alpha > 0 ? r / alpha : 0;
+            output[out + 1] = alpha > 0 ? g / alpha : 0;
+            output[out + 2] = alpha > 0 ? b / alpha : 0;
+            output[out + 3] = a;
+        }
+        onProgress(0.5 + (y + 1) / height / 2);
+    }
+    return output;
+};
+
+// The DOM typings have no worker global scope; the parts used here match those of a Worker
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<UpscaleRequest>) => {
+    const request = event.data;
+    let reported = 0;
+    const pixels = resample(request, progress => {
+        // Posting on every row would flood the page with messages
+        if (progress - reported < 0.01 && progress < 1) return;
+        reported = progress;
+        const response: UpscaleResponse = { type: 'progress', progress };
+        scope.postMessage(response);
+    });
+    if (request.sharpen > 0) {
+        sharpenPixels(pixels, request.targetWidth, request.targetHeight, request.sharpen / 100);
+    }
+    const response: UpscaleResponse = { type: 'done', pixels };
+    scope.postMessage(response, [pixels.buffer]);
+};
@@ -0,0 +1,268 @@
+import { loadImage, createCanvas } from './imageProcessing';
+
+export interface TraceOptions {
+    paletteSize: number; // Number of flat colours in the result, 2..16
+    smoothing: number; // 0 keeps the pixel outlines, up to 10 for rounder, simpler curves
+}
+
+export interface TraceResult {
+    svg: string;
+    palette: string[]; // Hex colours, most used first
+    pathCount: number;
+}
+
+export const DEFAULT_TRACE_OPTIONS: TraceOptions = { paletteSize: 6, smoothing: 4 };
+
+// Tracing cost grows with the pixel count; logos keep their shapes well at this size
+const TRACE_MAX_SIDE = 512;
+const KMEANS_SAMPLES = 20000;
+const KMEANS_ITERATIONS = 12;
+const TRANSPARENT = 255;
+
+type Point = [number, number];
+
+const toHex = (color: number[]) => `#${color.map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+const squaredDistance = (data: Uint8ClampedArray, i: number, color: number[]) => {
+    const dr = data[i] - color[0], dg = data[i + 1] - color[1], db = data[i + 2] - color[2];
+    return dr * dr + dg * dg + db * db;
+};
+
+/**
+ * Picks `k` representative colours with k-means on a sample of the opaque
+ * pixels. Centres start from farthest-point seeding so that small but distinct
+ * accent colours are not swallowed by the dominant ones.
+ */
+const quantize = (data: Uint8ClampedArray, k: number): number[][] => {
+    const opaque: number[] = [];
+    for (let i = 0; i < data.length; i += 4) if (data[i + 3] >= 128) opaque.push(i);
+    if (opaque.length === 0) return [[0, 0, 0]];
+    const step = Math.max(1, Math.floor(opaque.length / KMEANS_SAMPLES));
+    const samples = opaque.filter((_, index) => index % step === 0);
+
+    const centers: number[][] = [[data[samples[0]], data[samples[0] + 1], data[samples[0] + 2]]];
+    const nearest = samples.map(i => squaredDistance(data, i, centers[0]));
+    while (centers.length < k) {
+        let farthest = 0;
+        for (let s = 1; s < samples.length; s++) if (nearest[s] > nearest[farthest]) farthest = s;
+        if (nearest[farthest] === 0) break; // Fewer distinct colours than requested
+        const i = samples[farthest];
+        const center = [data[i], data[i + 1], data[i + 2]];
+        centers.push(center);
+        samples.forEach((sample, s) => { nearest[s] = Math.min(nearest[s], squaredDistance(data, sample, center)); });
+    }
+
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+        const sums = centers.map(() => [0, 0, 0, 0]);
+        for (const i of samples) {
+            let best = 0, bestDistance = Infinity;
+            centers.forEach((center, c) => {
+                const distance = squaredDistance(data, i, center);
+                if (distance < bestDistance) { bestDistance = distance; best = c; }
+            });
+            sums[best][0] += data[i]; sums[best][1] += data[i + 1]; sums[best][2] += data[i + 2]; sums[best][3]++;
+        }
+        sums.forEach((sum, c) => { if (sum[3] > 0) centers[c] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]]; });
+    }
+    return centers;
+};
+
+const labelPixels = (data: Uint8ClampedArray, palette: number[][]): Uint8Array => {
+    const labels = new Uint8Array(data.length / 4);
+    for (let p = 0; p < labels.length; p++) {
+        const i = p * 4;
+        if (data[i + 3] < 128) { labels[p] = TRANSPARENT; continue; }
+        let best = 0, bestDistance = Infinity;
+        palette.forEach((color, c) => {
+            const distance = squaredDistance(data, i, color);
+            if (distance < bestDistance) { bestDistance = distance; best = c; }
+        });
+        labels[p] = best;
+    }
+    return labels;
+};
+
+// 3x3 majority filter: removes single-pixel speckles left by antialiasing between colours
+const despeckle = (labels: Uint8Array, width: number, height: number): Uint8Array => {
+    const output = labels.slice();
+    const counts = new Map<number, number>();
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            counts.clear();
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const label = labels[(y + dy) * width + x + dx];
+                    counts.set(label, (counts.get(label) ?? 0) + 1);
+                }
+            }
+            let best = labels[y * width + x], bestCount = counts.get(best)!;
+            counts.forEach((count, label) => { if (count > bestCount) { best = label; bestCount = count; } });
+            output[y * width + x] = best;
+        }
+    }
+    return output;
+};
+
+/**
+ * Follows the pixel cracks around every region of one label and returns the
+ * closed outlines (outer borders and holes) as lists of grid corners. Edges
+ * are oriented with the region on the same side, so they chain into loops.
+ */
+const traceOutlines = (labels: Uint8Array, width: number, height: number, label: number): Point[][] => {
+    const stride = width + 1;
+    const outgoing = new Map<number, number[]>();
+    const addEdge = (fromX: number, fromY: number, toX: number, toY: number) => {
+        const from = fromY * stride + fromX;
+        const list = outgoing.get(from);
+        if (list) list.push(toY * stride + toX); else outgoing.set(from, [toY * stride + toX]);
+    };
+    const isInside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] === label;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!isInside(x, y)) continue;
+            if (!isInside(x, y - 1)) addEdge(x, y, x + 1, y);
+            if (!isInside(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+            if (!isInside(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+            if (!isInside(x - 1, y)) addEdge(x, y + 1, x, y);
+        }
+    }
+
+    const loops: Point[][] = [];
+    for (const [start, targets] of outgoing) {
+        while (targets.length > 0) {
+            const loop: Point[] = [];
+            let current = start;
+            do {
+                loop.push([current % stride, Math.floor(current / stride)]);
+                // At a corner shared by two diagonal pixels either continuation closes a valid loop
+                current = outgoing.get(current)!.pop()!;
+            } while (current !== start);
+            loops.push(loop);
+        }
+    }
+    return loops;
+};
+
+const polygonArea = (points: Point[]) => {
+    let area = 0;
+    for (let i = 0; i < points.length; i++) {
+        const [x1, y1] = points[i];
+        const [x2, y2] = points[(i + 1) % points.length];
+        area += x1 * y2 - x2 * y1;
+    }
+    return area / 2;
+};
+
+const distanceToSegment = ([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) => {
+    const dx = bx - ax, dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+    return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+// Douglas-Peucker on an open polyline, keeping both ends
+const simplifyPolyline = (points: Point[], tolerance: number): Point[] => {
+    if (points.length <= 2) return points;
+    let farthest = 0, farthestDistance = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const distance = distanceToSegment(points[i], points[0], points[points.length - 1]);
+        if (distance > farthestDistance) { farthest = i; farthestDistance = distance; }
+    }
+    if (farthestDistance <= tolerance) return [points[0], points[points.length - 1]];
+    const left = simplifyPolyline(points.slice(0, farthest + 1), tolerance);
+    const right = simplifyPolyline(points.slice(farthest), tolerance);
+    return [...left.slice(0, -1), ...right];
+};
+
+/**
+ * Simplifies a closed outline. With `smoothStairs`, each unit edge is first
+ * replaced by its midpoint, which turns pixel staircases into straight diagonals;
+ * without it the exact pixel corners are kept.
+ */
+const simplifyLoop = (loop: Point[], tolerance: number, smoothStairs: boolean): Point[] => {
+    const ring: Point[] = smoothStairs
+        ? loop.map(([x, y], i) => {
+            const [nx, ny] = loop[(i + 1) % loop.length];
+            return [(x + nx) / 2, (y + ny) / 2];
+        })
+        : loop;
+    // Split the ring at its two most distant points so each half is an open polyline
+    let opposite = 0, oppositeDistance = 0;
+    ring.forEach(([x, y], i) => {
+        const distance = Math.hypot(x - ring[0][0], y - ring[0][1]);
+        if (distance > oppositeDistance) { opposite = i; oppositeDistance = distance; }
+    });
+    const first = simplifyPolyline(ring.slice(0, opposite + 1), tolerance);
+    const second = simplifyPolyline([...ring.slice(opposite), ring[0]], tolerance);
+    return [...first.slice(0, -1), ...second.slice(0, -1)];
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 10) / 10);
+const formatPoint = ([x, y]: Point) => `${formatNumber(x)} ${formatNumber(y)}`;
+
+const loopToPath = (points: Point[], curved: boolean): string => {
+    if (!curved) return `M${points.map(formatPoint).join('L')}Z`;
+    // Quadratic curves through the edge midpoints, using each vertex as the control point
+    const mid = (i: number): Point => {
+        const [ax, ay] = points[i % points.length];
+        const [bx, by] = points[(i + 1) % points.length];
+        return [(ax + bx) / 2, (ay + by) / 2];
+    };
+    let path = `M${formatPoint(mid(0))}`;
+    for (let i = 1; i <= points.length; i++) {
+        path += `Q${formatPoint(points[i % points.length])} ${formatPoint(mid(i))}`;
+    }
+    return `${path}Z`;
+};
+
+/**
+ * Converts a raster image to a flat-colour SVG: quantizes it to a small
+ * palette, traces the outline of every colour region and simplifies the
+ * outlines into straight segments or, with smoothing, quadratic curves.
+ */
+export const traceToSvg = async (imageUrl: string, options: TraceOptions): Promise<TraceResult> => {
+    const img = await loadImage(imageUrl);
+    const scale = Math.min(1, TRACE_MAX_SIDE / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.max(1, Math.round(img.naturalWidth * scale));
+    const height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const palette = quantize(data, Math.max(2, Math.min(16, Math.round(options.paletteSize))));
+    let labels = labelPixels(data, palette);
+    if (options.smoothing > 0) labels = despeckle(labels, width, height);
+
+    const usage = palette.map(() => 0);
+    let hasTransparency = false;
+    labels.forEach(label => { if (label === TRANSPARENT) hasTransparency = true; else usage[label]++; });
+    const order = palette.map((_, c) => c).filter(c => usage[c] > 0).sort((a, b) => usage[b] - usage[a]);
+
+    const isSmooth = options.smoothing > 0;
+    const tolerance = isSmooth ? 0.35 + options.smoothing * 0.2 : 0;
+    const minArea = isSmooth ? 2 + options.smoothing : 0;
+    const layers: string[] = [];
+    let pathCount = 0;
+    order.forEach((label, index) => {
+        const fill = toHex(palette[label]);
+        // The dominant colour of an opaque image becomes a plain backdrop, which also hides seams between regions
+        if (index === 0 && !hasTransparency) {
+            layers.push(`<rect width="${width}" height="${height}" fill="${fill}"/>`);
+            pathCount++;
+            return;
+        }
+        const d = traceOutlines(labels, width, height, label)
+            .map(loop => simplifyLoop(loop, tolerance, isSmooth))
+            .filter(points => points.length >= 3 && Math.abs(polygonArea(points)) > minArea)
+            .map(points => loopToPath(points, isSmooth))
+            .join('');
+        if (d) {
+            layers.push(`<path fill="${fill}" fill-rule="evenodd" d="${d}"/>`);
+            pathCount++;
+        }
+    });
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${img.naturalWidth}" height="${img.naturalHeight}">${layers.join('')}</svg>`;
+    return { svg, palette: order.map(c => toHex(palette[c])), pathCount };
+};
@@ -0,0 +1,78 @@
+import type { UploadedImage } from '../types';
+import { createCanvas, dataUrlToUploadedImage } from './imageProcessing';
+import { LocalizedError } from '../i18n';
+
+// Veo renders at 24 fps, and so does the mock provider
+export const VIDEO_FRAME_RATE = 24;
+
+// Frame index shown at a time, and the time in the middle of a frame: seeking to a frame's exact
+// start can land on the previous one because of rounding, its middle never does
+export const timeToFrame = (time: number) => Math.floor(time * VIDEO_FRAME_RATE + 1e-6);
+export const frameToTime = (frame: number) => (frame + 0.5) / VIDEO_FRAME_RATE;
+
+const waitForEvent = (target: EventTarget, type: string): Promise<void> =>
+    new Promise((resolve, reject) => {
+        const onError = () => {
+            target.removeEventListener(type, onEvent);
+            reject(new LocalizedError('error.video.load'));
+        };
+        const onEvent = () => {
+            target.removeEventListener('error', onError);
+            resolve();
+        };
+        target.addEventListener(type, onEvent, { once: true });
+        target.addEventListener('error', onError, { once: true });
+    });
+
+/**
+ * Loads a video element with its metadata. Blobs written by MediaRecorder carry
+ * no duration in their header, so for those the element is sent to the end
+ * once, which makes the browser scan the file and report the real duration.
+ */
+export const loadVideo = async (url: string): Promise<HTMLVideoElement> => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    const loaded = waitForEvent(video, 'loadedmetadata');
+    video.src = url;
+    await loaded;
+    if (!Number.isFinite(video.duration)) {
+        const measured = waitForEvent(video, 'durationchange');
+        video.currentTime = Number.MAX_SAFE_INTEGER;
+        await measured;
+        await seekVideo(video, 0);
+    }
+    return video;
+};
+
+export const seekVideo = async (video: HTMLVideoElement, time: number): Promise<void> => {
+    const seeked = waitForEvent(video, 'seeked');
+    video.currentTime = Math.max(0, Math.min(time, video.duration));
+    await seeked;
+};
+
+export const getVideoDuration = async (url: string): Promise<number> => (await loadVideo(url)).duration;
+
+// The frame currently shown by a video element, as a full-resolution PNG data URL
+export const captureCurrentFrame = (video: HTMLVideoElement): string => {
+    const { canvas, ctx } = createCanvas(video.videoWidth, video.videoHeight);
+    ctx.drawImage(video, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Draws the frame shown at `time` (seconds) of a video URL
+export const captureVideoFrame = async (url: string, time: number): Promise<string> => {
+    const video = await loadVideo(url);
+    await seekVideo(video, time);
+    return captureCurrentFrame(video);
+};
+
+// Seeking exactly to the duration shows nothing in some browsers, so the last frame is taken just before it
+const LAST_FRAME_OFFSET = 0.05;
+
+/** The frame shown at `endTime` (the clip's end by default), ready to send as a start frame. */
+export const extractLastFrame = async (url: string, endTime?: number): Promise<UploadedImage> => {
+    const duration = endTime ?? await getVideoDuration(url);
+    return dataUrlToUploadedImage(await captureVideoFrame(url, Math.max(0, duration - LAST_FRAME_OFFSET)));
+};
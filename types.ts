@@ -2,15 +2,27 @@ import { string } from "react-dom/test-utils";
 
 export type Mode = 'create' | 'video' | 'edit';
 export type CreateFunction = 'free' | 'sticker' | 'text' | 'comic';
-export type VideoFunction = 'prompt' | 'animation';
-export type EditFunction = 'montage';
+export type VideoFunction = 'prompt' | 'animation' | 'storyboard';
+export type VideoAspectRatio = '16:9' | '9:16';
+export type EditFunction = 'montage' | 'inpaint' | 'adjust' | 'extend';
 export type AIModel = 'flash' | 'pro';
+export type UpscaleTarget = '2K' | '4K'; // Long edge of a local upscale, named like the model resolutions
 
 export interface UploadedImage {
   base64: string;
   mimeType: string;
 }
 
+// What the model should take from a reference image in Create mode
+export type ReferenceRole = 'style' | 'subject' | 'composition';
+
+export interface ReferenceImage {
+  id: string;
+  role: ReferenceRole;
+  image: UploadedImage;
+  previewUrl: string;
+}
+
 // State for the Create mode
 export interface CreateState {
   model: AIModel; // New field to select between Flash (Free-ish) and Pro (Paid Key)
@@ -22,14 +34,22 @@ export interface CreateState {
   cameraAngle: string;
   lightingStyle: string;
   comicColorPalette: 'vibrant' | 'noir';
+  count: number; // Number of candidates generated per request
+  referenceImages: ReferenceImage[]; // Sent to the model along with the prompt
 }
 
 // State for the Video mode
 export interface VideoState {
   videoFunction: VideoFunction;
   videoResolution: '720p' | '1080p'; // New Veo 3.1 feature
+  aspectRatio: VideoAspectRatio;
+  durationSeconds: number;
   startFrame: UploadedImage | null;
   startFramePreviewUrl: string | null;
+  endFrame: UploadedImage | null; // Optional last frame: the video interpolates from the start frame to it
+  endFramePreviewUrl: string | null;
+  negativePrompt: string;
+  count: number; // Number of takes generated per request
 }
 
 // State for an individual reference layer in Edit mode
@@ -42,7 +62,36 @@ export interface ReferenceLayer {
     width: number;
     height: number;
     rotation: number;
+    flipX: boolean;
+    flipY: boolean;
+    opacity: number; // 0..1
     zIndex: number;
+    instruction: string; // What the model should do with this layer, e.g. "put it on the table"
+}
+
+// Non-AI adjustments applied in the browser, in the order listed. Tone values go from -100 to 100, sharpen and vignette from 0 to 100
+export interface ImageAdjustments {
+  cropAspectRatio: string; // 'original' or one of the supported aspect ratios, cut from the center
+  quarterTurns: number; // Clockwise 90° turns, 0 to 3
+  straighten: number; // Degrees, -45 to 45; the corners left empty are cropped away
+  flipX: boolean;
+  flipY: boolean;
+  exposure: number;
+  contrast: number;
+  saturation: number;
+  temperature: number; // Negative is cooler (bluer), positive warmer
+  sharpen: number;
+  vignette: number;
+}
+
+// New canvas of the 'extend' edit function: the background is padded to it and the model fills the new borders
+export interface CanvasExtension {
+  target: 'ratio' | 'size';
+  aspectRatio: string; // Used when extending to a ratio; the shorter side grows to reach it
+  width: number; // Used when extending to a size; a larger background is scaled down to fit first
+  height: number;
+  anchorX: number; // Where the original sits in the new canvas: 0 (left), 0.5 or 1 (right)
+  anchorY: number; // 0 (top), 0.5 or 1 (bottom)
 }
 
 // State for the Edit mode - now layer-based
@@ -53,12 +102,43 @@ export interface EditState {
   references: ReferenceLayer[];
   activeReferenceId: string | null;
   negativePrompt: string;
+  mask: UploadedImage | null; // Black and white inpainting mask, white = area to change
+  adjustments: ImageAdjustments; // Previewed over the background until they are applied
+  extension: CanvasExtension;
 }
 
 // Options for the generateImage API call for better maintainability
 export interface GenerateImageOptions extends Omit<CreateState, 'negativePrompt'> {
   prompt: string;
   negativePrompt?: string;
+  variationOf?: UploadedImage; // Source image for "more like this" requests
+  candidate?: number; // Position in a batch, see generateImageBatch
+}
+
+// A montage layer as sent to the model: placement is in fractions of the background size
+export interface MontageLayer {
+  image: UploadedImage;
+  instruction: string;
+  centerX: number;
+  centerY: number;
+  width: number;
+  height: number;
+  rotation: number; // Degrees, clockwise
+  flipX: boolean;
+  flipY: boolean;
+  opacity: number;
+}
+
+export interface GeneratedImage {
+  imageUrl: string;
+  model: AIModel; // Model that actually produced the image (differs from the request after a fallback)
+}
+
+// A setting that differs from the parent entry, with both values as display text
+export interface SettingChange {
+  key: string;
+  from: string;
+  to: string;
 }
 
 // Discriminated union for History entries for type safety
@@ -66,25 +146,98 @@ interface BaseHistoryEntry {
   id: string;
   prompt: string;
   mode: Mode;
+  restoredFromId?: string; // Id recorded in an imported file when the entry was restored from its metadata
+  parentId?: string | null; // Entry selected when this one was requested; null for a root, missing on entries saved before history was a tree
+  settingsDiff?: SettingChange[]; // Changes from the parent entry
 }
 
 export interface CreateHistoryEntry extends BaseHistoryEntry, CreateState {
   mode: 'create';
   imageUrl: string;
+  batchId?: string; // Shared by all candidates generated by the same request
+  isFavorite?: boolean;
+  variationOfId?: string; // Entry this one was generated "more like"
+  upscaledTo?: UpscaleTarget; // Set on local upscales; the other settings are those the source was generated with
 }
 
 export interface VideoHistoryEntry extends BaseHistoryEntry, VideoState {
   mode: 'video';
   videoUrl: string;
+  batchId?: string; // Shared by all takes generated by the same request
 }
 
-export interface EditHistoryEntry extends BaseHistoryEntry, Omit<EditState, 'activeReferenceId'> {
+export interface EditHistoryEntry extends BaseHistoryEntry, Omit<EditState, 'activeReferenceId' | 'adjustments' | 'extension'> {
   mode: 'edit';
   imageUrl: string;
+  adjustments?: ImageAdjustments; // What an 'adjust' entry applied; its image already includes them
+  extension?: CanvasExtension; // Canvas an 'extend' entry was padded to
+  upscaledTo?: UpscaleTarget; // Set on local upscales, see CreateHistoryEntry
 }
 
 export type HistoryEntry = CreateHistoryEntry | VideoHistoryEntry | EditHistoryEntry;
 
+// A speech balloon or caption laid over a comic page. Position and width are fractions of the page
+export interface ComicBalloon {
+  id: string;
+  kind: 'speech' | 'caption';
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+}
+
+export interface ComicPanel {
+  id: string;
+  script: string; // What happens in this panel, combined with the shared description when generating
+  imageUrl: string | null;
+}
+
+export interface ComicPage {
+  id: string;
+  layoutId: string;
+  panels: ComicPanel[];
+  balloons: ComicBalloon[];
+}
+
+// A multi-page comic built in Create mode; the prompt holds the description shared by every panel
+export interface ComicProject {
+  pages: ComicPage[];
+  gutter: number; // Space between panels, in pixels of the exported page
+}
+
+// A shot of a video storyboard. Every shot after the first starts on the last frame of the clip before it.
+export interface StoryboardShot {
+  id: string;
+  prompt: string;
+  videoUrl: string | null;
+  duration: number; // Length of the generated clip in seconds, 0 until it is generated
+  trimStart: number; // Seconds cut from the start of the clip in the timeline
+  trimEnd: number; // Seconds cut from its end
+}
+
+// A saved Create configuration with a prompt template using {{variables}}
+export interface PromptPreset {
+  id: string;
+  name: string;
+  promptTemplate: string;
+  createState: Partial<CreateState>; // Applied over the defaults; imported files may leave fields out
+  createdAt: number;
+}
+
+// A named group of history entries persisted in IndexedDB
+export interface HistorySession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Work in progress that is not a history entry, saved with its session
+export interface SessionWorkspace {
+  comicProject: ComicProject;
+  storyboardShots: StoryboardShot[];
+}
+
 
 export interface UploadProgress {
   id: string;